@@ -1,24 +1,360 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Experience } from './components/Experience';
-import { TreeState } from './types';
+import { CardEditor } from './components/CardEditor';
+import { TextPrompt } from './components/TextPrompt';
+import { PhotoPicker } from './components/PhotoPicker';
+import { TransitionScrubber } from './components/TransitionScrubber';
+import { QualityControl } from './components/QualityControl';
+import { LightPatternControl } from './components/LightPatternControl';
+import { CameraControl } from './components/CameraControl';
+import { WindControl } from './components/WindControl';
+import { LightingControl } from './components/LightingControl';
+import { ThemeControl } from './components/ThemeControl';
+import { SilhouetteControl } from './components/SilhouetteControl';
+import { TopperControl } from './components/TopperControl';
+import { MusicControl } from './components/MusicControl';
+import { RecordingBar, RecordPanel } from './components/RecordPanel';
+import { PosterPanel } from './components/PosterPanel';
+import { OrnamentCard } from './components/OrnamentCard';
+import { DecorateControls, OrnamentPick } from './components/Ornaments';
+import { DecorateTray } from './components/DecorateTray';
+import { SavePanel } from './components/SavePanel';
+import { Decoration, DecorationLayout, DecorationType, FormationId, Greeting, LightingMode, LightPatternId, SceneConfig, SilhouetteId, ThemeId, TopperId, WindPresetId } from './types';
+import { formatSeed, parseSeed, randomSeed } from './utils/random';
+import { getUrlParam, setUrlParam } from './utils/url';
+import { loadSceneConfig } from './utils/sceneConfig';
+import { isAssembled, SHAPE_FORMATIONS } from './utils/formations';
+import { decodeGreeting, EMPTY_GREETING, encodeGreeting, isEmptyGreeting, joinSenderMessage, normalizeGreeting, resolveGreeting } from './utils/greeting';
+import { containsCJK, detectLocale, formatMessage, Locale, LOCALES, MESSAGES } from './utils/i18n';
+import { rasterizeText, TextMask } from './utils/textPoints';
+import { ImageSample, loadImageSample } from './utils/imagePoints';
+import { TransitionController } from './utils/transition';
+import { QUALITY_SETTINGS, QualityGovernor, QualityState } from './utils/quality';
+import { AudioReactor, AudioState } from './utils/audio';
+import { RecordingOptions, RecordingState, SceneRecorder } from './utils/recorder';
+import { PosterExporter, PosterOptions, PosterState } from './utils/poster';
+import { GreetingOverlay, NOISE_SVG } from './utils/overlay';
+import { CameraSequenceId } from './utils/camera';
+import { useHistory } from './utils/history';
+import {
+  addDecoration,
+  DecorateTool,
+  DECORATION_COLORS,
+  EMPTY_DECORATIONS,
+  eraseOrnament,
+  grabOrnament,
+  moveDecoration,
+} from './utils/decorations';
+import { AUTOSAVE_SLOT, createTreeDocument, readSlot, TreeDocument, writeSlot } from './utils/document';
 
-// Pre-defined noise texture to ensure clean string parsing
-const NOISE_SVG = `data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E`;
+// Quiet period before the current tree is autosaved
+const AUTOSAVE_DELAY_MS = 1000;
 
 const App: React.FC = () => {
-  const [treeState, setTreeState] = useState<TreeState>(TreeState.SCATTERED);
+  const [formation, setFormation] = useState<FormationId>('scattered');
+  // The shape the main button assembles; picking another while assembled morphs straight to it
+  const [shape, setShape] = useState<FormationId>('tree');
+  // One timeline for every layer's morph; the layers restart it when their targets move
+  const [transition] = useState(() => new TransitionController('scattered'));
+  // Adaptive quality: starts at the full look and steps down if frames run long
+  const [governor] = useState(() => new QualityGovernor());
+  const [quality, setQuality] = useState<QualityState>(() => governor.state);
+
+  useEffect(() => governor.subscribe(setQuality), [governor]);
+
+  // Shots the camera plays while a shape stands; 'free' is the plain auto-rotate
+  const [camera, setCamera] = useState<CameraSequenceId>('showcase');
+
+  // Music the lights react to; silent until the user starts it
+  const [audio] = useState(() => new AudioReactor());
+  const [audioState, setAudioState] = useState<AudioState>(() => audio.state);
+
+  useEffect(() => audio.subscribe(setAudioState), [audio]);
+
+  // Video export: the recorder shoots a scripted sequence of the scene
+  const [recorder] = useState(() => new SceneRecorder());
+  const [recordingState, setRecordingState] = useState<RecordingState>(() => recorder.state);
+  const [isRecordPanelOpen, setIsRecordPanelOpen] = useState(false);
+  const recording = recordingState.status !== 'idle';
+
+  // Progress is followed by the recording bar alone
+  useEffect(
+    () => recorder.subscribe((state) => setRecordingState((prev) => (prev.status === state.status && prev.error === state.error ? prev : state))),
+    [recorder]
+  );
+
+  // Poster export: the current view, rendered again at print resolution
+  const [poster] = useState(() => new PosterExporter());
+  const [posterState, setPosterState] = useState<PosterState>(() => poster.state);
+  const [isPosterPanelOpen, setIsPosterPanelOpen] = useState(false);
+
+  useEffect(() => poster.subscribe(setPosterState), [poster]);
+
+  // The tree left on this device last time. A shared link for a different
+  // seed shows that tree instead; it replaces the autosave once edited.
+  const [restored] = useState<TreeDocument | null>(() => {
+    const doc = readSlot(AUTOSAVE_SLOT);
+    const linked = parseSeed(getUrlParam('seed'));
+    return doc && (linked === null || linked === doc.seed) ? doc : null;
+  });
+
+  // Layout seed: taken from ?seed= so a shared link reproduces the same tree
+  const [seed, setSeed] = useState<number>(() => parseSeed(getUrlParam('seed')) ?? restored?.seed ?? randomSeed());
+
+  useEffect(() => {
+    setUrlParam('seed', formatSeed(seed));
+  }, [seed]);
+
+  const reroll = () => setSeed(randomSeed());
+
+  // Scene config from ?config= (inline JSON or a .json URL); the restored
+  // tree's or the defaults otherwise
+  const [sceneConfig, setSceneConfig] = useState<SceneConfig | null>(() =>
+    restored && !getUrlParam('config') ? restored.config : null
+  );
+
+  useEffect(() => {
+    if (sceneConfig) return;
+    let cancelled = false;
+    loadSceneConfig().then((config) => {
+      if (!cancelled) setSceneConfig(config);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Garland pattern switches live, and is saved with the rest of the config
+  const setLightPattern = (pattern: LightPatternId) => {
+    setSceneConfig((prev) => prev && { ...prev, garland: { ...prev.garland, lights: { ...prev.garland.lights, pattern } } });
+  };
+
+  // So does the weather
+  const setWindPreset = (preset: WindPresetId) => {
+    setSceneConfig((prev) => prev && { ...prev, wind: { ...prev.wind, preset } });
+  };
+
+  // And the lighting, which cross-fades to the new look
+  const setLighting = (lighting: LightingMode) => {
+    setSceneConfig((prev) => prev && { ...prev, lighting });
+  };
+
+  // And the colour theme, which fades every layer across
+  const setTheme = (theme: ThemeId) => {
+    setSceneConfig((prev) => prev && { ...prev, theme });
+  };
+
+  // And the tree's shape, which regrows every layer onto it
+  const setSilhouette = (silhouette: SilhouetteId) => {
+    setSceneConfig((prev) => prev && { ...prev, tree: { ...prev.tree, silhouette } });
+  };
+
+  // And what sits on top of it
+  const setTopper = (topper: TopperId) => {
+    setSceneConfig((prev) => prev && { ...prev, star: { ...prev.star, topper } });
+  };
 
   const toggleState = () => {
-    setTreeState((prev) => 
-      prev === TreeState.TREE_SHAPE ? TreeState.SCATTERED : TreeState.TREE_SHAPE
-    );
+    setFormation((prev) => (isAssembled(prev) ? 'scattered' : shape));
+  };
+
+  const pickShape = (next: FormationId) => {
+    setShape(next);
+    setFormation((prev) => (isAssembled(prev) ? next : prev));
+  };
+
+  // Typed text the particles can spell out; rasterising waits for its web fonts
+  const [textMask, setTextMask] = useState<TextMask | null>(null);
+  const [isRasterizing, setIsRasterizing] = useState(false);
+
+  const spellText = async (text: string) => {
+    setIsRasterizing(true);
+    const mask = await rasterizeText(text);
+    setIsRasterizing(false);
+    if (!mask) return;
+    setTextMask(mask);
+    setShape('text');
+    setFormation('text');
+  };
+
+  // A local photo the particles can portray; it is only ever read in the browser
+  const [imageSample, setImageSample] = useState<ImageSample | null>(null);
+  const [isLoadingImage, setIsLoadingImage] = useState(false);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  const portrayImage = async (file: File) => {
+    setIsLoadingImage(true);
+    const sample = await loadImageSample(file);
+    setIsLoadingImage(false);
+    setImageFailed(!sample);
+    if (!sample) return;
+    setImageSample(sample);
+    setShape('image');
+    setFormation('image');
   };
 
-  const isTree = treeState === TreeState.TREE_SHAPE;
+  // Greeting card from ?card=; malformed links silently show the default card
+  const [greeting, setGreeting] = useState<Greeting>(
+    () => decodeGreeting(getUrlParam('card')) ?? restored?.greeting ?? EMPTY_GREETING
+  );
+  const [isEditingCard, setIsEditingCard] = useState(false);
+
+  const applyGreeting = (draft: Greeting) => {
+    const next = normalizeGreeting(draft);
+    setGreeting(next);
+    // The default card needs no parameter
+    setUrlParam('card', isEmptyGreeting(next) ? null : encodeGreeting(next));
+    setIsEditingCard(false);
+  };
+
+  // Clicking an ornament reveals the note hidden in it
+  const [openOrnament, setOpenOrnament] = useState<OrnamentPick | null>(null);
+
+  // Decorate mode: ornaments hung, moved and taken off by hand, with undo/redo
+  const decorations = useHistory<DecorationLayout>(restored?.decorations ?? EMPTY_DECORATIONS);
+  const [isDecorating, setIsDecorating] = useState(false);
+  const [decorateTool, setDecorateTool] = useState<DecorateTool>('place');
+  const [decorationType, setDecorationType] = useState<DecorationType>('sphere');
+  const [decorationColor, setDecorationColor] = useState(DECORATION_COLORS[0]);
+  // Layout when the current drag began, so the whole drag undoes in one step
+  const dragBase = useRef<DecorationLayout | null>(null);
+  // A generated ornament only turns into a placed copy once it's actually moved,
+  // so picking one up and letting go leaves no step behind
+  const pendingGrab = useRef<{ key: string; decoration: Decoration } | null>(null);
+
+  // Hand decoration happens on the assembled tree
+  const startDecorating = () => {
+    setShape('tree');
+    setFormation('tree');
+    setIsDecorating(true);
+  };
+
+  const decorate = useMemo<DecorateControls | null>(() => {
+    if (!isDecorating || formation !== 'tree') return null;
+    return {
+      tool: decorateTool,
+      type: decorationType,
+      color: decorationColor,
+      add: (decoration) => decorations.commit((prev) => addDecoration(prev, decoration)),
+      erase: (key) => decorations.commit((prev) => eraseOrnament(prev, key)),
+      grab: (key, decoration) => {
+        dragBase.current = decorations.present;
+        pendingGrab.current = { key, decoration };
+      },
+      move: (id, position) => {
+        const grabbed = pendingGrab.current;
+        pendingGrab.current = null;
+        decorations.preview((prev) => moveDecoration(grabbed ? grabOrnament(prev, grabbed.key, grabbed.decoration) : prev, id, position));
+      },
+      release: () => {
+        if (dragBase.current) decorations.settle(dragBase.current);
+        dragBase.current = null;
+        pendingGrab.current = null;
+      },
+    };
+  }, [isDecorating, formation, decorateTool, decorationType, decorationColor, decorations]);
+
+  // Ctrl/Cmd+Z undoes, with Shift (or Ctrl+Y) redoes
+  useEffect(() => {
+    if (!isDecorating) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) decorations.undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') decorations.redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isDecorating, decorations]);
+
+  // Saving: the current tree is autosaved; slots and files hold copies
+  const [isSavePanelOpen, setIsSavePanelOpen] = useState(false);
+
+  useEffect(() => {
+    if (!sceneConfig) return;
+    const timer = setTimeout(() => {
+      writeSlot(AUTOSAVE_SLOT, createTreeDocument({ seed, config: sceneConfig, decorations: decorations.present, greeting }));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [seed, sceneConfig, decorations.present, greeting]);
+
+  // A loaded tree replaces everything, its edits starting a fresh history
+  const applyDocument = (doc: TreeDocument) => {
+    setSeed(doc.seed);
+    setSceneConfig(doc.config);
+    setGreeting(doc.greeting);
+    decorations.reset(doc.decorations);
+    // The link now describes the loaded tree, not the config it was opened with
+    setUrlParam('config', null);
+    setUrlParam('card', isEmptyGreeting(doc.greeting) ? null : encodeGreeting(doc.greeting));
+    setIsDecorating(false);
+    setIsSavePanelOpen(false);
+  };
+
+  // UI language: ?lang= overrides the browser preference
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+  const strings = MESSAGES[locale];
+  const nextLocale = LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length];
+
+  useEffect(() => {
+    // Lets the browser pick Simplified Chinese glyph forms for the CJK fallback fonts
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const switchLocale = () => {
+    setLocale(nextLocale);
+    setUrlParam('lang', nextLocale);
+  };
+
+  const card = resolveGreeting(greeting, strings.defaultGreeting);
+  const assembled = isAssembled(formation);
+
+  // The greeting as the header shows it, for exports to draw
+  const overlay: GreetingOverlay = {
+    headline: formatMessage(strings.headline, { recipient: card.recipient }),
+    line: joinSenderMessage(card.sender, card.message),
+    subtitle: card.subtitle,
+  };
+
+  const startRecording = (options: RecordingOptions) => {
+    recorder.start(options, overlay, `tree-${formatSeed(seed)}`);
+    if (recorder.state.status === 'idle') return; // Unsupported; the panel says so
+    setShape('tree');
+    setIsDecorating(false);
+    setIsRecordPanelOpen(false);
+  };
+
+  // Whatever is on screen, mid-morph included
+  const exportPoster = async (options: PosterOptions) => {
+    await poster.export(options, overlay, `tree-${formatSeed(seed)}-poster`);
+    if (!poster.state.error) setIsPosterPanelOpen(false);
+  };
 
   return (
     <div className="relative w-full h-full bg-black overflow-hidden">
-      <Experience treeState={treeState} />
+      {sceneConfig && (
+        <Experience
+          formation={formation}
+          seed={seed}
+          config={sceneConfig}
+          text={textMask}
+          image={imageSample}
+          transition={transition}
+          governor={governor}
+          quality={QUALITY_SETTINGS[quality.tier]}
+          onPickOrnament={setOpenOrnament}
+          decorations={decorations.present}
+          decorate={decorate}
+          audio={audio}
+          recorder={recorder}
+          recording={recording}
+          onFormation={setFormation}
+          poster={poster}
+          camera={camera}
+        />
+      )}
 
       {/* UI Overlay */}
       <div className="absolute top-0 left-0 w-full h-full pointer-events-none flex flex-col justify-between p-8 md:p-12 z-10">
@@ -27,48 +363,214 @@ const App: React.FC = () => {
         <header className="flex justify-between items-start">
           <div>
             <h1 className="text-4xl md:text-6xl font-serif text-amber-100 tracking-wider font-bold drop-shadow-lg leading-tight">
-              圣诞快乐，家人们
+              {formatMessage(strings.headline, { recipient: card.recipient })}
             </h1>
             <div className="mt-3 border-l-2 border-amber-500/50 pl-4">
               <p className="text-amber-300/80 text-sm md:text-lg tracking-[0.15em] font-light font-serif">
-                小杨祝您身体健康，事事顺意
+                {joinSenderMessage(card.sender, card.message)}
               </p>
-              <p className="text-amber-200/50 text-xs md:text-sm tracking-[0.2em] font-serif italic mt-1">
-                Merry Christmas
+              {/* Synthetic italics look broken on ideographs, so only slant Latin subtitles */}
+              <p className={`text-amber-200/50 text-xs md:text-sm tracking-[0.2em] font-serif mt-1 ${containsCJK(card.subtitle) ? '' : 'italic'}`}>
+                {card.subtitle}
               </p>
             </div>
           </div>
           <div className="text-right hidden md:block">
-            <p className="text-emerald-800/80 text-xs tracking-widest uppercase font-bold">Luxury Collection</p>
-            <p className="text-amber-100/60 text-sm font-serif">Holiday 2025</p>
+            <p className="text-emerald-800/80 text-xs tracking-widest uppercase font-bold">{strings.collection}</p>
+            <p className="text-amber-100/60 text-sm font-serif">{card.label}</p>
           </div>
         </header>
 
         {/* Footer Controls */}
         <footer className="flex flex-col items-center gap-6 pb-8">
-          <div className="bg-black/40 backdrop-blur-md border border-amber-500/30 rounded-full p-1 pointer-events-auto transition-all duration-500 hover:border-amber-400/80 shadow-[0_0_30px_rgba(218,165,32,0.2)]">
+          {recording ? (
+            <RecordingBar recorder={recorder} strings={strings} />
+          ) : isDecorating ? (
+            <DecorateTray
+              tool={decorateTool}
+              type={decorationType}
+              color={decorationColor}
+              canUndo={decorations.canUndo}
+              canRedo={decorations.canRedo}
+              onTool={setDecorateTool}
+              onType={setDecorationType}
+              onColor={setDecorationColor}
+              onUndo={decorations.undo}
+              onRedo={decorations.redo}
+              onDone={() => setIsDecorating(false)}
+              strings={strings}
+            />
+          ) : (
+            <>
+            <div className="bg-black/40 backdrop-blur-md border border-amber-500/30 rounded-full p-1 pointer-events-auto transition-all duration-500 hover:border-amber-400/80 shadow-[0_0_30px_rgba(218,165,32,0.2)]">
+              <button
+                onClick={toggleState}
+                className={`
+                  relative px-12 py-4 rounded-full text-sm font-bold tracking-widest uppercase transition-all duration-700 overflow-hidden group
+                  ${assembled ? 'bg-emerald-950/90 text-amber-50' : 'bg-transparent text-amber-100'}
+                `}
+              >
+                {/* Background gradient animation */}
+                <span className={`absolute inset-0 w-full h-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 transition-transform duration-700 ease-in-out ${assembled ? 'translate-x-full opacity-0' : 'translate-x-0 opacity-100'}`}></span>
+              
+                <span className="relative z-10 drop-shadow-md group-hover:text-white transition-colors">
+                  {assembled
+                    ? strings.releaseMagic
+                    : shape === 'tree'
+                      ? strings.assembleTree
+                      : formatMessage(strings.assembleShape, { shape: strings.formations[shape] })}
+                </span>
+              </button>
+            </div>
+          
+            <div className="flex items-center gap-2 pointer-events-auto">
+              {SHAPE_FORMATIONS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => pickShape(id)}
+                  className={`px-3 py-1 rounded-full border text-[10px] tracking-widest uppercase transition-colors ${
+                    id === shape
+                      ? 'border-amber-400/70 text-amber-100'
+                      : 'border-amber-500/20 text-amber-100/40 hover:text-amber-100/80'
+                  }`}
+                >
+                  {strings.formations[id]}
+                </button>
+              ))}
+            </div>
+
+            {shape === 'text' && (
+              <TextPrompt initial={textMask?.text ?? ''} busy={isRasterizing} onSubmit={spellText} strings={strings} />
+            )}
+            {shape === 'image' && (
+              <PhotoPicker
+                name={imageSample?.name ?? null}
+                busy={isLoadingImage}
+                failed={imageFailed}
+                onPick={portrayImage}
+                strings={strings}
+              />
+            )}
+
+            <TransitionScrubber transition={transition} strings={strings} />
+
+            <p className="text-amber-100/30 text-[10px] tracking-widest uppercase animate-pulse">
+              {assembled ? strings.hintTree : strings.hintScattered}
+            </p>
+            </>
+          )}
+
+          {/* Nothing that changes the tree while it is being recorded */}
+          <div className={`flex flex-wrap items-center justify-center gap-x-6 gap-y-2 ${recording ? 'hidden' : ''}`}>
             <button
-              onClick={toggleState}
-              className={`
-                relative px-12 py-4 rounded-full text-sm font-bold tracking-widest uppercase transition-all duration-700 overflow-hidden group
-                ${isTree ? 'bg-emerald-950/90 text-amber-50' : 'bg-transparent text-amber-100'}
-              `}
+              onClick={reroll}
+              title={strings.rerollTitle}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
             >
-              {/* Background gradient animation */}
-              <span className={`absolute inset-0 w-full h-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 transition-transform duration-700 ease-in-out ${isTree ? 'translate-x-full opacity-0' : 'translate-x-0 opacity-100'}`}></span>
-              
-              <span className="relative z-10 drop-shadow-md group-hover:text-white transition-colors">
-                {isTree ? 'Release Magic' : 'Assemble Tree'}
-              </span>
+              {strings.reroll} · <span className="font-mono normal-case">{formatSeed(seed)}</span>
+            </button>
+            <button
+              onClick={startDecorating}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+            >
+              {strings.decorate.enter}
+            </button>
+            <button
+              onClick={() => setIsRecordPanelOpen(true)}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+            >
+              {strings.record.open}
+            </button>
+            <button
+              onClick={() => setIsPosterPanelOpen(true)}
+              disabled={!sceneConfig}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors disabled:opacity-30"
+            >
+              {strings.poster.open}
+            </button>
+            <button
+              onClick={() => setIsSavePanelOpen(true)}
+              disabled={!sceneConfig}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors disabled:opacity-30"
+            >
+              {strings.saves.open}
             </button>
+            <button
+              onClick={() => setIsEditingCard(true)}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+            >
+              {strings.createCard}
+            </button>
+            <button
+              onClick={switchLocale}
+              lang={nextLocale}
+              className="pointer-events-auto text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+            >
+              {MESSAGES[nextLocale].languageName}
+            </button>
+            <MusicControl
+              state={audioState}
+              onCarol={() => audio.playCarol()}
+              onFile={(file) => audio.playFile(file)}
+              onToggle={() => audio.toggle()}
+              onVolume={(volume) => audio.setVolume(volume)}
+              strings={strings}
+            />
+            {sceneConfig && (
+              <>
+                <LightPatternControl pattern={sceneConfig.garland.lights.pattern} onChange={setLightPattern} strings={strings} />
+                <WindControl preset={sceneConfig.wind.preset} onChange={setWindPreset} strings={strings} />
+                <LightingControl mode={sceneConfig.lighting} onChange={setLighting} strings={strings} />
+                <ThemeControl theme={sceneConfig.theme} onChange={setTheme} strings={strings} />
+                <SilhouetteControl silhouette={sceneConfig.tree.silhouette} onChange={setSilhouette} strings={strings} />
+                <TopperControl topper={sceneConfig.star.topper} hasPath={!!sceneConfig.star.path} onChange={setTopper} strings={strings} />
+              </>
+            )}
+            <CameraControl sequence={camera} onChange={setCamera} strings={strings} />
+            <QualityControl state={quality} onOverride={(tier) => governor.setOverride(tier)} strings={strings} />
           </div>
-          
-          <p className="text-amber-100/30 text-[10px] tracking-widest uppercase animate-pulse">
-            {isTree ? 'Swipe to rotate • Pinch to zoom' : 'Particles floating in zero gravity'}
-          </p>
         </footer>
       </div>
 
+      {isEditingCard && (
+        <CardEditor initial={greeting} onApply={applyGreeting} onClose={() => setIsEditingCard(false)} strings={strings} />
+      )}
+
+      {isRecordPanelOpen && (
+        <RecordPanel
+          initial={recorder.options}
+          error={recordingState.error}
+          onStart={startRecording}
+          onClose={() => setIsRecordPanelOpen(false)}
+          strings={strings}
+        />
+      )}
+
+      {isPosterPanelOpen && (
+        <PosterPanel
+          initial={poster.options}
+          state={posterState}
+          onExport={exportPoster}
+          onClose={() => setIsPosterPanelOpen(false)}
+          strings={strings}
+        />
+      )}
+
+      {isSavePanelOpen && sceneConfig && (
+        <SavePanel
+          snapshot={() => createTreeDocument({ seed, config: sceneConfig, decorations: decorations.present, greeting })}
+          fileName={`tree-${formatSeed(seed)}.json`}
+          onLoad={applyDocument}
+          onClose={() => setIsSavePanelOpen(false)}
+          locale={locale}
+          strings={strings}
+        />
+      )}
+
+      {openOrnament && (
+        <OrnamentCard pick={openOrnament} seed={seed} onClose={() => setOpenOrnament(null)} strings={strings} />
+      )}
+
       {/* Grain Overlay for film look */}
       <div 
         className="absolute inset-0 pointer-events-none opacity-[0.04] mix-blend-overlay" 
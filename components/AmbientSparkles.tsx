@@ -1,12 +1,19 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { easing } from 'maath';
+import { createRandom } from '../utils/random';
+import { identityKey } from '../utils/keys';
+import { TransitionController } from '../utils/transition';
+import { windShader, WindUniforms } from '../utils/wind';
+import { ThemeUniforms } from '../utils/themes';
+
+// Sparkles stream with the wind through a box this wide, coming back in on
+// the far side; the swirl keeps them drifting even when it's calm
+const SPARKLE_BOX = 46;
 
 const sparkleVertexShader = `
-  uniform float uTime;
   uniform float uPixelRatio;
+  ${windShader}
   attribute float aSize;
   attribute float aRandom;
   
@@ -15,11 +22,10 @@ const sparkleVertexShader = `
   void main() {
     vec3 pos = position;
     
-    // Gentle floating movement
-    float time = uTime * 0.2;
-    pos.x += sin(time + aRandom * 100.0) * 1.0;
-    pos.y += cos(time * 0.8 + aRandom * 50.0) * 0.5;
-    pos.z += sin(time * 0.5 + aRandom * 20.0) * 1.0;
+    // Carried downwind, each at its own pace, and wrapped back into the box
+    float edge = ${SPARKLE_BOX / 2}.0;
+    pos.xz = mod(pos.xz + uWindDrift.xz * (0.5 + aRandom) + edge, 2.0 * edge) - edge;
+    pos += windSwirl(position + aRandom * 10.0) * (0.5 + uWindTurbulence * 0.5);
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     gl_Position = projectionMatrix * mvPosition;
@@ -31,6 +37,7 @@ const sparkleVertexShader = `
 
 const sparkleFragmentShader = `
   uniform float uOpacity;
+  uniform vec3 uSparkleColor;
   
   void main() {
     vec2 center = gl_PointCoord - 0.5;
@@ -39,66 +46,67 @@ const sparkleFragmentShader = `
 
     float glow = 1.0 - smoothstep(0.0, 0.5, dist);
     
-    // Golden color
-    vec3 color = vec3(1.0, 0.85, 0.4); 
-    
-    gl_FragColor = vec4(color, glow * uOpacity);
+    gl_FragColor = vec4(uSparkleColor, glow * uOpacity);
   }
 `;
 
 interface AmbientSparklesProps {
-  treeState: TreeState;
+  seed: number;
+  count: number;
+  transition: TransitionController;
+  particleScale?: number; // Share of the particles drawn
+  pixelRatio: THREE.IUniform<number>;
+  wind: WindUniforms;
+  theme: ThemeUniforms;
 }
 
-export const AmbientSparkles: React.FC<AmbientSparklesProps> = ({ treeState }) => {
+export const AmbientSparkles: React.FC<AmbientSparklesProps> = ({ seed, count, transition, particleScale = 1, pixelRatio, wind, theme }) => {
   const meshRef = useRef<THREE.Points>(null);
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
-  // Increased count for smaller particles
-  const count = 400; 
 
   const { positions, randoms, sizes } = useMemo(() => {
     const pos = new Float32Array(count * 3);
     const rnd = new Float32Array(count);
     const sz = new Float32Array(count);
+    const random = createRandom(seed, 'sparkles');
 
     for (let i = 0; i < count; i++) {
-      const u = Math.random();
-      const v = Math.random();
+      const u = random();
+      const v = random();
       const theta = 2 * Math.PI * u;
       const phi = Math.acos(2 * v - 1);
-      const r = 8 + Math.cbrt(Math.random()) * 15; // Spread out
+      const r = 8 + Math.cbrt(random()) * 15; // Spread out
       
       pos[i * 3] = r * Math.sin(phi) * Math.cos(theta);
       pos[i * 3 + 1] = r * Math.sin(phi) * Math.sin(theta);
       pos[i * 3 + 2] = r * Math.cos(phi);
 
-      rnd[i] = Math.random();
+      rnd[i] = random();
       // Small size: 0.5 to 1.2
-      sz[i] = 0.5 + Math.random() * 0.7; 
+      sz[i] = 0.5 + random() * 0.7; 
     }
 
     return { positions: pos, randoms: rnd, sizes: sz };
-  }, []);
+  }, [seed, count]);
 
   const uniforms = useMemo(() => ({
-    uTime: { value: 0 },
-    uPixelRatio: { value: Math.min(window.devicePixelRatio, 2) },
+    ...wind,
+    uSparkleColor: theme.uSparkleColor,
+    uPixelRatio: pixelRatio,
     uOpacity: { value: 1 },
-  }), []);
+  }), [pixelRatio, wind, theme]);
 
-  useFrame((state, delta) => {
+  useFrame(() => {
     if (shaderRef.current) {
-      shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
-      
-      // Visible when Scattered (0.8 opacity), Hidden when Tree (0.0)
-      const targetOpacity = treeState === TreeState.SCATTERED ? 0.8 : 0.0;
-      easing.damp(shaderRef.current.uniforms.uOpacity, 'value', targetOpacity, 1.0, delta);
+      // Visible when Scattered (0.8 opacity), Hidden once a shape forms (0.0)
+      shaderRef.current.uniforms.uOpacity.value = 0.8 * (1 - transition.assembled('sparkles'));
     }
+    meshRef.current?.geometry.setDrawRange(0, Math.ceil(count * particleScale));
   });
 
   return (
-    <points ref={meshRef}>
-      <bufferGeometry>
+    <points ref={meshRef} frustumCulled={false}>
+      <bufferGeometry key={identityKey(positions)}>
         <bufferAttribute
           attach="attributes-position"
           count={positions.length / 3}
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Messages } from '../utils/i18n';
+import { CAMERA_SEQUENCES, CameraSequenceId } from '../utils/camera';
+
+interface CameraControlProps {
+  sequence: CameraSequenceId;
+  onChange: (sequence: CameraSequenceId) => void;
+  strings: Messages;
+}
+
+// Picks the shot sequence the camera plays once a shape forms; picking one restarts it
+export const CameraControl: React.FC<CameraControlProps> = ({ sequence, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.camera.label}</span>
+    <select
+      value={sequence}
+      onChange={(e) => onChange(e.target.value as CameraSequenceId)}
+      aria-label={strings.camera.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {CAMERA_SEQUENCES.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.camera.sequences[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
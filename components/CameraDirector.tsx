@@ -0,0 +1,68 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { TreeLayout } from '../utils/sceneConfig';
+import { applyPose, CameraPose, CameraSequenceId, getTreeFrame, readPose, SEQUENCE_SHOTS, ShotId, ShotPlayer } from '../utils/camera';
+
+interface CameraDirectorProps {
+  sequence: CameraSequenceId;
+  layout: TreeLayout;
+  offsetY: number; // Where the tree's group sits
+  assembled: boolean; // The sequence plays from the top each time a shape starts forming
+  enabled: boolean; // Off for readable shapes and decorating, where the camera should stay put
+}
+
+// Moves the camera along the current sequence after the orbit controls have
+// updated, so its pose is the one rendered. Grabbing the view hands the camera
+// straight to the controls from where it is; the director picks it up again
+// once the view has been left alone for a while.
+export const CameraDirector: React.FC<CameraDirectorProps> = ({ sequence, layout, offsetY, assembled, enabled }) => {
+  const camera = useThree((s) => s.camera);
+  const controls = useThree((s) => s.controls) as OrbitControlsImpl | null;
+  const [player] = useState(() => new ShotPlayer());
+  const frame = useMemo(() => getTreeFrame(layout, offsetY), [layout, offsetY]);
+  const poses = useMemo(() => ({ current: {} as CameraPose, next: {} as CameraPose }), []);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+  // A sequence cued while disabled, started when the camera is handed back
+  const pending = useRef<ShotId[] | null>(null);
+
+  useEffect(() => {
+    if (!controls) return;
+    const start = () => player.hold();
+    const end = () => {
+      if (enabledRef.current) player.release();
+    };
+    controls.addEventListener('start', start);
+    controls.addEventListener('end', end);
+    return () => {
+      controls.removeEventListener('start', start);
+      controls.removeEventListener('end', end);
+    };
+  }, [controls, player]);
+
+  // Coming back from decorating or a readable shape counts as being left alone,
+  // unless a sequence was picked in the meantime
+  useEffect(() => {
+    if (!enabled) player.hold();
+    else if (pending.current) player.play(pending.current);
+    else player.release();
+    pending.current = null;
+  }, [player, enabled]);
+
+  useEffect(() => {
+    const shots = assembled ? SEQUENCE_SHOTS[sequence] : null;
+    if (shots && enabledRef.current) player.play(shots);
+    else pending.current = shots;
+  }, [player, sequence, assembled]);
+
+  useFrame((_, delta) => {
+    if (!controls) return;
+    readPose(camera.position, controls.target, frame, poses.current);
+    if (!player.tick(delta, poses.current, poses.next)) return;
+    applyPose(poses.next, frame, camera.position, controls.target);
+    camera.lookAt(controls.target);
+  });
+
+  return null;
+};
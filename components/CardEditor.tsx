@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { Greeting } from '../types';
+import { buildShareLink, EMPTY_GREETING, GREETING_LIMITS } from '../utils/greeting';
+import { Messages } from '../utils/i18n';
+
+interface CardEditorProps {
+  initial: Greeting;
+  onApply: (greeting: Greeting) => void;
+  onClose: () => void;
+  strings: Messages;
+}
+
+const FIELDS: { field: keyof Greeting; label: keyof Messages['card']; multiline?: boolean }[] = [
+  { field: 'recipient', label: 'to' },
+  { field: 'sender', label: 'from' },
+  { field: 'message', label: 'message', multiline: true },
+  { field: 'subtitle', label: 'subtitle' },
+  { field: 'label', label: 'label' },
+];
+
+const inputClass =
+  'w-full bg-black/40 border border-amber-500/30 rounded-md px-3 py-2 text-amber-50 text-sm font-serif focus:outline-none focus:border-amber-400/80 placeholder:text-amber-100/20';
+
+export const CardEditor: React.FC<CardEditorProps> = ({ initial, onApply, onClose, strings }) => {
+  const [draft, setDraft] = useState<Greeting>(initial);
+  const [copied, setCopied] = useState(false);
+
+  const link = useMemo(() => buildShareLink(draft), [draft]);
+
+  const update = (field: keyof Greeting, value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+    setCopied(false);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied (e.g. insecure context); the link stays selectable below
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-black/70 border border-amber-500/30 rounded-2xl p-6 shadow-[0_0_30px_rgba(218,165,32,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-amber-100 font-serif text-xl tracking-wider mb-4">{strings.card.title}</h2>
+
+        <div className="flex flex-col gap-3">
+          {FIELDS.map(({ field, label, multiline }) => (
+            <label key={field} className="flex flex-col gap-1">
+              <span className="text-amber-200/50 text-[10px] tracking-widest uppercase">{strings.card[label]}</span>
+              {multiline ? (
+                <textarea
+                  className={`${inputClass} resize-none`}
+                  rows={2}
+                  maxLength={GREETING_LIMITS[field]}
+                  value={draft[field]}
+                  placeholder={strings.defaultGreeting[field]}
+                  onChange={(e) => update(field, e.target.value)}
+                />
+              ) : (
+                <input
+                  className={inputClass}
+                  maxLength={GREETING_LIMITS[field]}
+                  value={draft[field]}
+                  placeholder={strings.defaultGreeting[field]}
+                  onChange={(e) => update(field, e.target.value)}
+                />
+              )}
+            </label>
+          ))}
+        </div>
+
+        <input
+          readOnly
+          value={link}
+          onFocus={(e) => e.target.select()}
+          className="mt-5 w-full bg-transparent border-b border-amber-500/20 text-amber-100/40 text-[10px] font-mono py-1 focus:outline-none"
+        />
+
+        <div className="mt-5 flex justify-between items-center gap-3">
+          <button
+            onClick={() => setDraft(EMPTY_GREETING)}
+            className="text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+          >
+            {strings.card.reset}
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={copyLink}
+              className="px-4 py-2 rounded-full border border-amber-500/30 text-amber-100 text-xs tracking-widest uppercase hover:border-amber-400/80 transition-colors"
+            >
+              {copied ? strings.card.copied : strings.card.copyLink}
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              className="px-4 py-2 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-xs tracking-widest uppercase"
+            >
+              {strings.card.apply}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
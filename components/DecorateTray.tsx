@@ -0,0 +1,98 @@
+import React from 'react';
+import { DecorationType } from '../types';
+import { DecorateTool, DECORATION_COLORS, DECORATION_TYPES } from '../utils/decorations';
+import { Messages } from '../utils/i18n';
+
+interface DecorateTrayProps {
+  tool: DecorateTool;
+  type: DecorationType;
+  color: string;
+  canUndo: boolean;
+  canRedo: boolean;
+  onTool: (tool: DecorateTool) => void;
+  onType: (type: DecorationType) => void;
+  onColor: (color: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDone: () => void;
+  strings: Messages;
+}
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1 rounded-full border text-[10px] tracking-widest uppercase transition-colors ${
+    active ? 'border-amber-400/70 text-amber-100' : 'border-amber-500/20 text-amber-100/40 hover:text-amber-100/80'
+  }`;
+
+const linkClass = 'text-amber-100/40 hover:text-amber-100/80 disabled:opacity-30 disabled:pointer-events-none text-[10px] tracking-widest uppercase transition-colors';
+
+export const DecorateTray: React.FC<DecorateTrayProps> = ({
+  tool,
+  type,
+  color,
+  canUndo,
+  canRedo,
+  onTool,
+  onType,
+  onColor,
+  onUndo,
+  onRedo,
+  onDone,
+  strings,
+}) => {
+  const t = strings.decorate;
+
+  return (
+    <div className="flex flex-col items-center gap-4 pointer-events-auto bg-black/40 backdrop-blur-md border border-amber-500/30 rounded-2xl px-6 py-4">
+      <div className="flex items-center gap-2">
+        <button onClick={() => onTool('place')} className={chipClass(tool === 'place')}>
+          {t.place}
+        </button>
+        <button onClick={() => onTool('erase')} className={chipClass(tool === 'erase')}>
+          {t.erase}
+        </button>
+      </div>
+
+      <div className={`flex flex-col items-center gap-3 ${tool === 'place' ? '' : 'opacity-30 pointer-events-none'}`}>
+        <div className="flex items-center gap-2">
+          {DECORATION_TYPES.map((id) => (
+            <button key={id} onClick={() => onType(id)} className={chipClass(id === type)}>
+              {t.types[id]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2" role="radiogroup" aria-label={t.color}>
+          {DECORATION_COLORS.map((swatch) => (
+            <button
+              key={swatch}
+              role="radio"
+              aria-checked={swatch === color}
+              aria-label={swatch}
+              onClick={() => onColor(swatch)}
+              className={`w-5 h-5 rounded-full border transition-transform ${
+                swatch === color ? 'border-amber-200 scale-125' : 'border-amber-500/30 hover:scale-110'
+              }`}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <p className="text-amber-100/30 text-[10px] tracking-widest uppercase">{tool === 'place' ? t.placeHint : t.eraseHint}</p>
+
+      <div className="flex items-center gap-6">
+        <button onClick={onUndo} disabled={!canUndo} className={linkClass}>
+          {t.undo}
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} className={linkClass}>
+          {t.redo}
+        </button>
+        <button
+          onClick={onDone}
+          className="px-4 py-1.5 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-[10px] tracking-widest uppercase"
+        >
+          {t.done}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,30 @@
-import React from 'react';
+import React, { forwardRef } from 'react';
 import { EffectComposer, Bloom, Vignette, Noise } from '@react-three/postprocessing';
-import { BlendFunction } from 'postprocessing';
+import { BlendFunction, EffectComposer as EffectComposerImpl } from 'postprocessing';
 
-export const Effects: React.FC = () => {
+interface EffectsProps {
+  bloom?: boolean;
+  vignette?: boolean;
+  noise?: boolean;
+}
+
+// The ref reaches the composer itself, for renders outside the frame loop
+export const Effects = forwardRef<EffectComposerImpl, EffectsProps>(({ bloom = true, vignette = true, noise = true }, ref) => {
   return (
-    <EffectComposer disableNormalPass>
-      <Bloom 
-        luminanceThreshold={0.85} // Higher threshold: only really bright things glow
-        mipmapBlur 
-        intensity={0.6} // Subtle glow
-        radius={0.3}
-        color="#fff8e0" // Pale gold glow, not orange
-      />
-      <Vignette eskil={false} offset={0.1} darkness={0.3} />
-      <Noise opacity={0.02} blendFunction={BlendFunction.OVERLAY} />
+    <EffectComposer ref={ref} disableNormalPass>
+      {bloom && (
+        <Bloom 
+          luminanceThreshold={0.85} // Higher threshold: only really bright things glow
+          mipmapBlur 
+          intensity={0.6} // Subtle glow
+          radius={0.3}
+          color="#fff8e0" // Pale gold glow, not orange
+        />
+      )}
+      {vignette && <Vignette eskil={false} offset={0.1} darkness={0.3} />}
+      {noise && <Noise opacity={0.02} blendFunction={BlendFunction.OVERLAY} />}
       
       {/* Removed ColorAverage overlay to restore realistic brightness */}
     </EffectComposer>
   );
-};
\ No newline at end of file
+});
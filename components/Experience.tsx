@@ -1,78 +1,266 @@
-import React from 'react';
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Environment, ContactShadows } from '@react-three/drei';
-import { TreeState } from '../types';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { OrbitControls, ContactShadows } from '@react-three/drei';
+import * as THREE from 'three';
+import { EffectComposer } from 'postprocessing';
+import { DecorationLayout, FormationId, SceneConfig } from '../types';
+import { getTreeLayout } from '../utils/sceneConfig';
+import { FormationContext, FORMATIONS, isAssembled } from '../utils/formations';
+import { fitTextShape, TextMask } from '../utils/textPoints';
+import { fitImageShape, ImageSample } from '../utils/imagePoints';
+import { TransitionController } from '../utils/transition';
+import { QualityGovernor, QualitySettings } from '../utils/quality';
+import { AudioReactor } from '../utils/audio';
+import { SceneRecorder } from '../utils/recorder';
+import { PosterExporter } from '../utils/poster';
+import { CameraSequenceId } from '../utils/camera';
+import { SnowGift } from '../utils/snow';
+import { WindField } from '../utils/wind';
+import { ThemeFader } from '../utils/themes';
 import { Foliage } from './Foliage';
-import { Ornaments } from './Ornaments';
+import { createGifts, DecorateControls, OrnamentPick, Ornaments } from './Ornaments';
 import { Effects } from './Effects';
 import { Snow } from './Snow';
 import { SpiralGarland } from './SpiralGarland';
 import { AmbientSparkles } from './AmbientSparkles';
+import { RecordingDirector } from './RecordingDirector';
+import { PosterRenderer } from './PosterRenderer';
+import { CameraDirector } from './CameraDirector';
+import { SceneLighting } from './SceneLighting';
 
 interface ExperienceProps {
-  treeState: TreeState;
+  formation: FormationId;
+  seed: number;
+  config: SceneConfig;
+  text: TextMask | null;
+  image: ImageSample | null;
+  transition: TransitionController;
+  governor: QualityGovernor;
+  quality: QualitySettings;
+  onPickOrnament: (pick: OrnamentPick) => void;
+  decorations: DecorationLayout;
+  decorate: DecorateControls | null; // Set while in decorate mode
+  audio: AudioReactor;
+  recorder: SceneRecorder;
+  recording: boolean; // The recorder has a sequence to shoot
+  onFormation: (formation: FormationId) => void; // For the recording script
+  poster: PosterExporter;
+  camera: CameraSequenceId;
 }
 
-export const Experience: React.FC<ExperienceProps> = ({ treeState }) => {
+// Where the tree's group sits in the scene
+const SCENE_Y = -2;
+
+// Advances the shared transition timeline before any layer reads it this frame
+const TransitionClock: React.FC<{ transition: TransitionController }> = ({ transition }) => {
+  useFrame((_, delta) => transition.tick(delta), -1);
+  return null;
+};
+
+// Feeds every frame's duration to the adaptive quality governor
+const QualityProbe: React.FC<{ governor: QualityGovernor }> = ({ governor }) => {
+  useFrame((_, delta) => governor.sample(delta));
+  return null;
+};
+
+// Reduces the music to this frame's band levels and beat before the layers draw
+const AudioProbe: React.FC<{ audio: AudioReactor }> = ({ audio }) => {
+  useFrame((_, delta) => audio.sample(delta), -1);
+  return null;
+};
+
+// Moves the wind on before the layers read it
+const WindProbe: React.FC<{ wind: WindField }> = ({ wind }) => {
+  useFrame((_, delta) => wind.tick(delta), -1);
+  return null;
+};
+
+// Fades the theme's colours before the layers read them
+const ThemeProbe: React.FC<{ theme: ThemeFader }> = ({ theme }) => {
+  useFrame((_, delta) => theme.tick(delta), -1);
+  return null;
+};
+
+// Keeps the point layers' sprite scale on the renderer's pixel ratio, which follows the quality tier
+const PixelRatioSync: React.FC<{ pixelRatio: THREE.IUniform<number> }> = ({ pixelRatio }) => {
+  useFrame(({ gl }) => {
+    pixelRatio.value = gl.getPixelRatio();
+  }, -1);
+  return null;
+};
+
+export const Experience: React.FC<ExperienceProps> = ({
+  formation,
+  seed,
+  config,
+  text,
+  image,
+  transition,
+  governor,
+  quality,
+  onPickOrnament,
+  decorations,
+  decorate,
+  audio,
+  recorder,
+  recording,
+  onFormation,
+  poster,
+  camera
+}) => {
+  const hasEffects = quality.bloom || quality.vignette || quality.noise;
+  // Readable shapes face the default view, and decorating needs the tree held still
+  const canMove = isAssembled(formation) && !FORMATIONS[formation].readable && !decorate;
+  // One uniform for every point layer, so a poster render can scale them all at once
+  const pixelRatio = useMemo<THREE.IUniform<number>>(() => ({ value: 1 }), []);
+  const composer = useRef<EffectComposer>(null);
+  // One wind moves every layer
+  const [wind] = useState(() => new WindField());
+  useEffect(() => wind.configure(config.wind), [wind, config.wind]);
+  // And one theme colours them all
+  const [theme] = useState(() => new ThemeFader(config.theme, config));
+  useLayoutEffect(() => theme.configure(config.theme, config), [theme, config]);
+
+  // One cone drives every layer, so they stay fitted to each other
+  const layout = useMemo(() => getTreeLayout(config.tree), [config.tree]);
+  // Text is sized against the foliage count so every layer spells it at the same scale
+  const formationContext = useMemo<FormationContext>(
+    () => ({
+      layout,
+      text: text ? fitTextShape(text, layout, config.foliage.count) : null,
+      image: image ? fitImageShape(image, layout) : null,
+    }),
+    [layout, text, image, config.foliage.count]
+  );
+  // The gift pile is laid out once, for the boxes and for the snow settling on them
+  const gifts = useMemo(
+    () => createGifts(config.gifts.count, seed, layout, config.gifts.palette),
+    [config.gifts.count, config.gifts.palette, seed, layout]
+  );
+  // The boxes lie at all angles, so each reads as a mound
+  const snowGifts = useMemo<SnowGift[]>(
+    () =>
+      gifts.map(({ treePos, scale, size }) => ({
+        x: treePos.x,
+        z: treePos.z,
+        top: treePos.y + 0.5 * scale * Math.max(size.x, size.y, size.z),
+        radius: 0.5 * scale * Math.max(size.x, size.z),
+      })),
+    [gifts]
+  );
+
   return (
     <div className="w-full h-screen relative">
       <Canvas
         camera={{ position: [0, 2, 18], fov: 45 }}
-        gl={{ antialias: false, toneMappingExposure: 1.5 }} // Increased exposure for brighter look
-        dpr={[1, 2]}
+        gl={{ antialias: false, toneMappingExposure: 1.5 }} // Starting exposure; the lighting look takes it from here
+        dpr={[1, quality.dpr]}
+        // A fixed-step recording drives every frame itself. Canvas reapplies this on each render, so it has to be a prop
+        frameloop={recording && recorder.options.fixedStep ? 'never' : 'always'}
       >
-        {/* Dark background for contrast, but clean black/green, not muddy */}
-        <color attach="background" args={['#010301']} />
-        
-        {/* REALISTIC BRIGHT LIGHTING SETUP */}
-        
-        {/* 1. Global Ambient Light - Brighter white for visibility */}
-        <ambientLight intensity={1.5} color="#ffffff" />
-        
-        {/* 2. Main Key Light - Warm White (Sunlight/Spotlight), not orange */}
-        <spotLight 
-          position={[10, 20, 10]} 
-          angle={0.25} 
-          penumbra={0.2} 
-          intensity={200} // High intensity for sparkles
-          color="#fff0dd" 
-          castShadow 
-          shadow-mapSize={[2048, 2048]}
-          shadow-bias={-0.0001}
+        <TransitionClock transition={transition} />
+        {/* Quality holds still while recording, so the video keeps one look throughout */}
+        {!recording && <QualityProbe governor={governor} />}
+        <AudioProbe audio={audio} />
+        <WindProbe wind={wind} />
+        <ThemeProbe theme={theme} />
+        {recording && <RecordingDirector recorder={recorder} transition={transition} onFormation={onFormation} />}
+        {camera !== 'free' && !recording && (
+          <CameraDirector sequence={camera} layout={layout} offsetY={SCENE_Y} assembled={isAssembled(formation)} enabled={canMove} />
+        )}
+        <PixelRatioSync pixelRatio={pixelRatio} />
+        <PosterRenderer poster={poster} pixelRatio={pixelRatio} composer={composer} />
+
+        <SceneLighting
+          mode={config.lighting}
+          background={config.background}
+          shadowMapSize={quality.shadowMapSize}
+          environmentIntensity={quality.environmentIntensity}
         />
-        
-        {/* 3. Fill Light - Cool/Neutral to fill shadows */}
-        <pointLight position={[-10, 5, -10]} intensity={50} color="#dbeaff" />
-        
-        {/* 4. Rim Light - To separate tree from background */}
-        <spotLight position={[0, 10, -10]} intensity={100} color="#ffd700" angle={0.5} />
-        
-        <Environment preset="city" />
 
-        <group position={[0, -2, 0]}>
-          <Foliage treeState={treeState} count={15000} />
-          <Ornaments treeState={treeState} />
-          <SpiralGarland treeState={treeState} />
-          <Snow treeState={treeState} />
-          <AmbientSparkles treeState={treeState} />
+        <group position={[0, SCENE_Y, 0]}>
+          <Foliage
+            formation={formation}
+            seed={seed}
+            count={config.foliage.count}
+            layout={layout}
+            formationContext={formationContext}
+            theme={theme.uniforms}
+            transition={transition}
+            particleScale={quality.particleScale}
+            audio={audio.uniforms}
+            wind={wind.uniforms}
+            pixelRatio={pixelRatio}
+          />
+          <Ornaments
+            formation={formation}
+            seed={seed}
+            config={config}
+            layout={layout}
+            gifts={gifts}
+            formationContext={formationContext}
+            transition={transition}
+            onPick={onPickOrnament}
+            decorations={decorations}
+            decorate={decorate}
+            audio={audio.uniforms}
+            wind={wind.uniforms}
+            theme={theme}
+          />
+          <SpiralGarland
+            formation={formation}
+            seed={seed}
+            layout={layout}
+            formationContext={formationContext}
+            settings={config.garland}
+            transition={transition}
+            audio={audio.uniforms}
+            pixelRatio={pixelRatio}
+            theme={theme.uniforms}
+          />
+          <Snow
+            seed={seed}
+            count={config.snow.count}
+            transition={transition}
+            particleScale={quality.particleScale}
+            pixelRatio={pixelRatio}
+            layout={layout}
+            gifts={snowGifts}
+            wind={wind.uniforms}
+          />
+          <AmbientSparkles
+            seed={seed}
+            count={config.sparkles.count}
+            transition={transition}
+            particleScale={quality.particleScale}
+            pixelRatio={pixelRatio}
+            wind={wind.uniforms}
+            theme={theme.uniforms}
+          />
         </group>
 
-        <ContactShadows 
-          opacity={0.5} 
-          scale={20} 
-          blur={2} 
-          far={4.5} 
-          color="#000000" 
-        />
+        {quality.contactShadows > 0 && (
+          <ContactShadows 
+            opacity={0.5} 
+            scale={20} 
+            blur={2} 
+            far={4.5} 
+            resolution={quality.contactShadows}
+            color="#000000" 
+          />
+        )}
 
-        <Effects />
+        {/* No composer at all on the lowest tier, rather than an empty one */}
+        {hasEffects && <Effects ref={composer} bloom={quality.bloom} vignette={quality.vignette} noise={quality.noise} />}
         
+        {/* Default controls, so decorate mode can hold them still while dragging */}
         <OrbitControls 
+          makeDefault
           enablePan={false} 
           maxPolarAngle={Math.PI / 1.4} 
           minDistance={5}
           maxDistance={30}
-          autoRotate={treeState === TreeState.TREE_SHAPE}
+          autoRotate={camera === 'free' && canMove}
           autoRotateSpeed={0.5}
         />
       </Canvas>
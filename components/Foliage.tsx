@@ -1,18 +1,37 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { getRandomSpherePoint } from '../utils/math';
-import { TreeState } from '../types';
-import { easing } from 'maath';
+import { createRandom, RandomFn } from '../utils/random';
+import { identityKey } from '../utils/keys';
+import { FormationId } from '../types';
+import { TreeLayout } from '../utils/sceneConfig';
+import { FormationContext, useFormationTargets, useFormationTints } from '../utils/formations';
+import { Stagger, usePointMorph } from '../utils/morph';
+import { TransitionController } from '../utils/transition';
+import { AudioUniforms } from '../utils/audio';
+import { windShader, WindUniforms } from '../utils/wind';
+import { ThemeUniforms } from '../utils/themes';
+import { drawOnBranches, Silhouette } from '../utils/silhouettes';
 
 // --- SHADERS ---
 const vertexShader = `
   uniform float uTime;
-  uniform float uProgress; // 0.0 = Scattered, 1.0 = Tree
+  uniform float uProgress; // Eased layer progress: 0.0 = previous formation, 1.0 = target formation
+  uniform float uAssembled; // 0.0 = floating cloud, 1.0 = holding a shape
   uniform float uPixelRatio;
+  uniform vec3 uBaseColor;
+  uniform vec3 uTipColor;
+  uniform vec3 uGlintColor; // Needles catching the light
+  uniform vec2 uGradient; // x = start height, y = span
+  uniform float uAudioTreble; // Music's high frequencies: more needles sparkle
+  ${windShader}
 
-  attribute vec3 aScatterPos;
-  attribute vec3 aTreePos;
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+  attribute vec3 aTreePos; // Needle colour always follows its place on the tree
+  attribute vec4 aFromTint; // RGBA laid over the pine tones by painted formations
+  attribute vec4 aToTint;
   attribute float aRandom;
   attribute float aSize;
 
@@ -20,23 +39,22 @@ const vertexShader = `
   varying vec3 vColor;
   varying float vSparkle;
 
-  float easeInOutCubic(float x) {
-    return x < 0.5 ? 4.0 * x * x * x : 1.0 - pow(-2.0 * x + 2.0, 3.0) / 2.0;
-  }
-
   void main() {
-    float t = easeInOutCubic(uProgress);
-    float delayedT = clamp(t * 1.2 - (aRandom * 0.2), 0.0, 1.0);
+    float delayedT = clamp(uProgress * 1.2 - (aRandom * 0.2), 0.0, 1.0);
 
-    vec3 pos = mix(aScatterPos, aTreePos, delayedT);
+    vec3 pos = mix(aFromPos, aToPos, delayedT);
 
     // Breathing effect
     float breath = sin(uTime * 1.5 + aRandom * 10.0) * 0.03;
-    pos += normalize(pos) * breath * (0.5 + 0.5 * uProgress);
+    pos += normalize(pos) * breath * (0.5 + 0.5 * uAssembled);
+
+    // Needles lean with the wind, the limber ones near the top most
+    float give = 0.02 + 0.03 * clamp((aTreePos.y - uGradient.x) / uGradient.y, 0.0, 1.0);
+    pos += windAt(pos) * give * aRandom * uAssembled;
 
-    if (uProgress < 0.9) {
-       pos.x += sin(uTime * 0.5 + pos.y) * 0.2 * (1.0 - uProgress);
-       pos.y += cos(uTime * 0.3 + pos.x) * 0.2 * (1.0 - uProgress);
+    if (uAssembled < 0.9) {
+       pos.x += sin(uTime * 0.5 + pos.y) * 0.2 * (1.0 - uAssembled);
+       pos.y += cos(uTime * 0.3 + pos.x) * 0.2 * (1.0 - uAssembled);
     }
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
@@ -44,9 +62,10 @@ const vertexShader = `
 
     // --- SPARKLE LOGIC ---
     float sparkleCycle = sin(uTime * 5.0 + aRandom * 50.0);
-    float isSparkle = smoothstep(0.992, 1.0, sin(uTime * 3.0 + aRandom * 100.0));
+    float sparkleThreshold = 0.992 - 0.04 * uAudioTreble;
+    float isSparkle = smoothstep(sparkleThreshold, 1.0, sin(uTime * 3.0 + aRandom * 100.0));
     
-    float stateMultiplier = 0.3 + 0.7 * uProgress; 
+    float stateMultiplier = 0.3 + 0.7 * uAssembled; 
     float sparkleIntensity = isSparkle * stateMultiplier;
 
     // --- SIZE CONTROL ---
@@ -60,18 +79,18 @@ const vertexShader = `
     gl_PointSize = baseSize * uPixelRatio * (200.0 / -mvPosition.z);
     
     // --- COLOR ---
-    float heightMix = (aTreePos.y + 5.0) / 10.0;
-    vec3 deepPine = vec3(0.005, 0.02, 0.01); 
-    vec3 pineTip = vec3(0.02, 0.15, 0.06); 
-    vec3 baseColor = mix(deepPine, pineTip, heightMix * 0.8 + breath);
-    
-    vec3 diamondGold = vec3(1.0, 0.95, 0.8);
+    float heightMix = (aTreePos.y - uGradient.x) / uGradient.y;
+    vec3 baseColor = mix(uBaseColor, uTipColor, heightMix * 0.8 + breath);
+
+    // Painted formations (a photo) take over from the pine tones as each needle arrives
+    vec4 tint = mix(aFromTint, aToTint, delayedT);
+    baseColor = mix(baseColor, tint.rgb, tint.a);
     
-    vColor = mix(baseColor, diamondGold, sparkleIntensity);
+    vColor = mix(baseColor, uGlintColor, sparkleIntensity);
     
     // --- ALPHA CONTROL ---
     float baseAlpha = 0.7 + 0.15 * sparkleCycle; 
-    float transparencyFade = 0.6 + 0.4 * uProgress; 
+    float transparencyFade = 0.6 + 0.4 * uAssembled; 
 
     vAlpha = (baseAlpha * transparencyFade) + (sparkleIntensity * 0.8);
     vSparkle = sparkleIntensity;
@@ -103,25 +122,36 @@ const fragmentShader = `
 
 interface FoliageProps {
   count?: number;
-  treeState: TreeState;
+  formation: FormationId;
+  seed: number;
+  layout: TreeLayout;
+  formationContext: FormationContext;
+  theme: ThemeUniforms; // Needle colours, shared so a theme change fades them with everything else
+  transition: TransitionController;
+  particleScale?: number; // Share of the particles drawn; the adaptive quality tiers thin the foliage
+  audio: AudioUniforms;
+  wind: WindUniforms;
+  pixelRatio: THREE.IUniform<number>; // Shared, so sprites scale with whatever resolution is rendered
 }
 
-// Local helper to get weighted cone point
-const getWeightedFoliagePoint = (height: number, baseRadius: number, yOffset: number): THREE.Vector3 => {
+// Must match delayedT in the vertex shader
+const STAGGER: Stagger = { scale: 1.2, spread: 0.2 };
+
+// Local helper to get a weighted point on the silhouette
+const getWeightedFoliagePoint = (height: number, baseRadius: number, yOffset: number, silhouette: Silhouette, random: RandomFn): THREE.Vector3 => {
   // Use power function to bias foliage density towards the bottom
-  // y goes from 0 (bottom relative) to 1 (top relative) BEFORE scaling
-  const r = Math.random();
-  // Extreme bias towards bottom (power 6.0) to create a heavy base
-  const bias = Math.pow(r, 6.0); 
-  
-  const y = yOffset - (height / 2) + (bias * height);
-  
-  const relativeHeight = (y - yOffset + height / 2) / height; 
-  const radiusAtHeight = baseRadius * (1 - relativeHeight);
-  
-  const theta = Math.random() * Math.PI * 2;
+  // h goes from 0 (bottom relative) to 1 (top relative) BEFORE scaling;
+  // the cone's extreme bias (power 6.0) makes a heavy base
+  const { h: relativeHeight, theta } = drawOnBranches(silhouette, random, () => ({
+    h: Math.pow(random(), silhouette.heightBias),
+    theta: random() * Math.PI * 2,
+  }));
+
+  const y = yOffset - (height / 2) + (relativeHeight * height);
+  const radiusAtHeight = baseRadius * silhouette.surface(relativeHeight, theta);
+
   // Slightly increased volume jitter for fluffier look
-  const rRad = radiusAtHeight * (0.8 + Math.random() * 0.3); 
+  const rRad = radiusAtHeight * (0.8 + random() * 0.3); 
   
   const x = rRad * Math.cos(theta);
   const z = rRad * Math.sin(theta);
@@ -129,9 +159,11 @@ const getWeightedFoliagePoint = (height: number, baseRadius: number, yOffset: nu
   return new THREE.Vector3(x, y, z);
 };
 
-export const Foliage: React.FC<FoliageProps> = ({ count = 140000, treeState }) => {
+export const Foliage: React.FC<FoliageProps> = ({ count = 140000, formation, seed, layout, formationContext, theme, transition, particleScale = 1, audio, wind, pixelRatio }) => {
   const meshRef = useRef<THREE.Points>(null);
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const shape = layout.foliage;
 
   const { positions, scatterPositions, treePositions, randoms, sizes } = useMemo(() => {
     const pos = new Float32Array(count * 3);
@@ -139,15 +171,16 @@ export const Foliage: React.FC<FoliageProps> = ({ count = 140000, treeState }) =
     const tree = new Float32Array(count * 3);
     const rnd = new Float32Array(count);
     const sz = new Float32Array(count);
+    const random = createRandom(seed, 'foliage');
 
     for (let i = 0; i < count; i++) {
       // Use custom weighted distribution for foliage
-      const tPos = getWeightedFoliagePoint(12, 4.5, -1);
+      const tPos = getWeightedFoliagePoint(shape.height, shape.baseRadius, shape.yOffset, layout.silhouette, random);
       tree[i * 3] = tPos.x;
       tree[i * 3 + 1] = tPos.y;
       tree[i * 3 + 2] = tPos.z;
 
-      const sPos = getRandomSpherePoint(18);
+      const sPos = getRandomSpherePoint(18, random);
       scatter[i * 3] = sPos.x;
       scatter[i * 3 + 1] = sPos.y;
       scatter[i * 3 + 2] = sPos.z;
@@ -156,9 +189,9 @@ export const Foliage: React.FC<FoliageProps> = ({ count = 140000, treeState }) =
       pos[i * 3 + 1] = sPos.y;
       pos[i * 3 + 2] = sPos.z;
 
-      rnd[i] = Math.random();
+      rnd[i] = random();
       // Smaller, more uniform needles
-      sz[i] = Math.random() < 0.8 ? 0.5 + Math.random() * 0.3 : 1.0 + Math.random() * 0.5; 
+      sz[i] = random() < 0.8 ? 0.5 + random() * 0.3 : 1.0 + random() * 0.5; 
     }
 
     return {
@@ -168,25 +201,43 @@ export const Foliage: React.FC<FoliageProps> = ({ count = 140000, treeState }) =
       randoms: rnd,
       sizes: sz
     };
-  }, [count]);
+  }, [count, seed, shape, layout.silhouette]);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uProgress: { value: 0 },
-    uPixelRatio: { value: Math.min(window.devicePixelRatio, 2) }
-  }), []);
+    uProgress: { value: 1 },
+    uAssembled: { value: 0 },
+    uPixelRatio: pixelRatio,
+    uBaseColor: theme.uBaseColor,
+    uTipColor: theme.uTipColor,
+    uGlintColor: theme.uGlintColor,
+    uGradient: { value: new THREE.Vector2() },
+    uAudioTreble: audio.uAudioTreble,
+    ...wind
+  }), [audio, wind, theme, pixelRatio]);
+
+  useLayoutEffect(() => {
+    uniforms.uGradient.value.set(layout.foliageGradient[0], layout.foliageGradient[1] - layout.foliageGradient[0]);
+  }, [uniforms, layout]);
+
+  const nativeTargets = useMemo(() => ({ tree: treePositions, scattered: scatterPositions }), [treePositions, scatterPositions]);
+  const getTargets = useFormationTargets(nativeTargets, 'foliage', 'foliage', count, seed, formationContext);
+  const getTints = useFormationTints(getTargets, count, formationContext);
+  const morph = usePointMorph({ formation, getTargets, getTints, randoms, stagger: STAGGER, progress: uniforms.uProgress, transition, geometryRef });
 
-  useFrame((state, delta) => {
+  useFrame((state) => {
     if (shaderRef.current) {
       shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
-      const targetProgress = treeState === TreeState.TREE_SHAPE ? 1.0 : 0.0;
-      easing.damp(shaderRef.current.uniforms.uProgress, 'value', targetProgress, 1.5, delta);
+      shaderRef.current.uniforms.uProgress.value = transition.layer('foliage');
+      shaderRef.current.uniforms.uAssembled.value = transition.assembled('foliage');
     }
+    // Points are sampled in random order, so any prefix is an even thinning
+    geometryRef.current?.setDrawRange(0, Math.ceil(count * particleScale));
   });
 
   return (
     <points ref={meshRef}>
-      <bufferGeometry>
+      <bufferGeometry ref={geometryRef} key={identityKey(morph.from)}>
         <bufferAttribute
           attach="attributes-position"
           count={positions.length / 3}
@@ -194,11 +245,29 @@ export const Foliage: React.FC<FoliageProps> = ({ count = 140000, treeState }) =
           itemSize={3}
         />
         <bufferAttribute
-          attach="attributes-aScatterPos"
-          count={scatterPositions.length / 3}
-          array={scatterPositions}
+          attach="attributes-aFromPos"
+          count={morph.from.length / 3}
+          array={morph.from}
+          itemSize={3}
+        />
+        <bufferAttribute
+          attach="attributes-aToPos"
+          count={morph.to.length / 3}
+          array={morph.to}
           itemSize={3}
         />
+        <bufferAttribute
+          attach="attributes-aFromTint"
+          count={morph.fromTint!.length / 4}
+          array={morph.fromTint!}
+          itemSize={4}
+        />
+        <bufferAttribute
+          attach="attributes-aToTint"
+          count={morph.toTint!.length / 4}
+          array={morph.toTint!}
+          itemSize={4}
+        />
         <bufferAttribute
           attach="attributes-aTreePos"
           count={treePositions.length / 3}
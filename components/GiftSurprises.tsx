@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { GiftSurprise, SurpriseObjectId } from '../types';
+import { GiftOpenings } from '../utils/gifts';
+import { createRandom } from '../utils/random';
+import { containsCJK } from '../utils/i18n';
+import { FONT_FAMILY } from '../utils/textPoints';
+
+// What rises out of opened gifts. Each surprise follows its gift's opening
+// amount: it climbs out once the lid is off and sinks back as the gift reseals.
+
+interface GiftSurprisesProps {
+  seed: number;
+  openings: GiftOpenings;
+  unsealed: number[]; // Gifts not fully sealed
+  surprises: GiftSurprise[];
+  origin: (index: number, out: THREE.Vector3) => THREE.Vector3; // Top of a gift's box, where it is drawn now
+  color: (index: number) => THREE.Color; // Live ribbon colour of a gift
+}
+
+// How far above the box a surprise comes to rest
+const RISE_HEIGHT = 1.4;
+// Widest a photo or message card is drawn
+const CARD_WIDTH = 1.6;
+
+const BURST_COUNT = 80;
+const BURST_GRAVITY = -4;
+const BURST_LIFE = 2.5; // Seconds the sparks take to fall and fade
+
+// How far out of the box a surprise is, 0..1, for a gift's opening amount
+const riseOf = (open: number) => THREE.MathUtils.smoothstep(open, 0.35, 1);
+
+const tempOrigin = new THREE.Vector3();
+
+// --- BURST ---
+
+// Sparks thrown up out of the box, falling back and fading
+const Burst: React.FC<{ seed: number; index: number; openings: GiftOpenings; origin: GiftSurprisesProps['origin']; color: THREE.Color }> = ({
+  seed,
+  index,
+  openings,
+  origin,
+  color,
+}) => {
+  const pointsRef = useRef<THREE.Points>(null);
+  const materialRef = useRef<THREE.PointsMaterial>(null);
+  const age = useRef(0);
+
+  const { positions, velocities } = useMemo(() => {
+    const random = createRandom(seed, `gift-burst:${index}`);
+    const vel = new Float32Array(BURST_COUNT * 3);
+    for (let i = 0; i < BURST_COUNT; i++) {
+      const angle = random() * Math.PI * 2;
+      const spread = 0.4 + random() * 1.2;
+      vel[i * 3] = Math.cos(angle) * spread;
+      vel[i * 3 + 1] = 2 + random() * 3;
+      vel[i * 3 + 2] = Math.sin(angle) * spread;
+    }
+    return { positions: new Float32Array(BURST_COUNT * 3), velocities: vel };
+  }, [seed, index]);
+
+  useFrame((_, delta) => {
+    const open = openings.progress[index];
+    // The sparks go off as the lid comes away
+    if (openings.isOpen(index) && open > 0.3) age.current += delta;
+    const t = age.current;
+    origin(index, tempOrigin);
+    for (let i = 0; i < BURST_COUNT; i++) {
+      positions[i * 3] = tempOrigin.x + velocities[i * 3] * t;
+      positions[i * 3 + 1] = tempOrigin.y + velocities[i * 3 + 1] * t + 0.5 * BURST_GRAVITY * t * t;
+      positions[i * 3 + 2] = tempOrigin.z + velocities[i * 3 + 2] * t;
+    }
+    if (pointsRef.current) pointsRef.current.geometry.attributes.position.needsUpdate = true;
+    if (materialRef.current) {
+      materialRef.current.opacity = t > 0 ? Math.max(0, 1 - t / BURST_LIFE) * Math.min(1, open * 2) : 0;
+      materialRef.current.color.copy(color);
+    }
+  });
+
+  return (
+    <points ref={pointsRef} frustumCulled={false}>
+      <bufferGeometry>
+        <bufferAttribute attach="attributes-position" count={BURST_COUNT} array={positions} itemSize={3} />
+      </bufferGeometry>
+      <pointsMaterial
+        ref={materialRef}
+        size={0.12}
+        transparent
+        opacity={0}
+        depthWrite={false}
+        blending={THREE.AdditiveBlending}
+        toneMapped={false}
+      />
+    </points>
+  );
+};
+
+// --- CARDS ---
+
+// Breaks text into lines that fit the width; CJK text may break between any two characters
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    const tokens = containsCJK(paragraph) ? Array.from(paragraph) : paragraph.split(/(\s+)/);
+    let line = '';
+    for (const token of tokens) {
+      const next = line + token;
+      if (line && ctx.measureText(next).width > maxWidth) {
+        lines.push(line.trim());
+        line = token.trimStart();
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line.trim());
+  }
+  return lines;
+};
+
+// A small card with the message, drawn once
+const createMessageTexture = (message: string): THREE.CanvasTexture => {
+  const width = 512;
+  const padding = 40;
+  const lineHeight = 44;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = `30px ${FONT_FAMILY}`;
+  const lines = wrapLines(ctx, message, width - padding * 2);
+  canvas.width = width;
+  canvas.height = padding * 2 + lines.length * lineHeight;
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+  ctx.beginPath();
+  ctx.roundRect(2, 2, canvas.width - 4, canvas.height - 4, 24);
+  ctx.fill();
+  ctx.strokeStyle = 'rgba(245, 158, 11, 0.4)';
+  ctx.lineWidth = 2;
+  ctx.stroke();
+
+  ctx.font = `30px ${FONT_FAMILY}`;
+  ctx.fillStyle = '#fef3c7';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, padding + (i + 0.5) * lineHeight));
+
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+// A photo or message, rising to face the camera
+const Card: React.FC<{ index: number; openings: GiftOpenings; origin: GiftSurprisesProps['origin']; texture: THREE.Texture | null }> = ({
+  index,
+  openings,
+  origin,
+  texture,
+}) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  const aspect = useMemo(() => {
+    const image = texture?.image as { width: number; height: number } | undefined;
+    return image && image.width > 0 ? image.height / image.width : 1;
+  }, [texture]);
+
+  useFrame(({ camera }) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const rise = riseOf(openings.progress[index]);
+    mesh.position.copy(origin(index, tempOrigin)).y += RISE_HEIGHT * rise;
+    mesh.quaternion.copy(camera.quaternion);
+    mesh.scale.set(CARD_WIDTH * rise, CARD_WIDTH * aspect * rise, 1);
+    mesh.visible = rise > 0;
+    if (materialRef.current) materialRef.current.opacity = rise;
+  });
+
+  if (!texture) return null;
+  return (
+    <mesh ref={meshRef} visible={false}>
+      <planeGeometry />
+      <meshBasicMaterial ref={materialRef} map={texture} transparent side={THREE.DoubleSide} toneMapped={false} depthWrite={false} />
+    </mesh>
+  );
+};
+
+const PhotoCard: React.FC<{ url: string; index: number; openings: GiftOpenings; origin: GiftSurprisesProps['origin'] }> = ({ url, ...props }) => {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: THREE.Texture | null = null;
+    const loader = new THREE.TextureLoader();
+    loader.setCrossOrigin('anonymous');
+    loader.load(
+      url,
+      (tex) => {
+        loaded = tex;
+        tex.colorSpace = THREE.SRGBColorSpace;
+        if (cancelled) tex.dispose();
+        else setTexture(tex);
+      },
+      undefined,
+      () => console.warn(`[gifts] Could not load surprise photo: ${url}`)
+    );
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [url]);
+
+  return <Card {...props} texture={texture} />;
+};
+
+const MessageCard: React.FC<{ message: string; index: number; openings: GiftOpenings; origin: GiftSurprisesProps['origin'] }> = ({
+  message,
+  ...props
+}) => {
+  const texture = useMemo(() => createMessageTexture(message), [message]);
+  useEffect(() => () => texture.dispose(), [texture]);
+  return <Card {...props} texture={texture} />;
+};
+
+// --- KEEPSAKES ---
+
+const createObjectGeometry = (id: SurpriseObjectId): THREE.BufferGeometry => {
+  const extrude = (shape: THREE.Shape) =>
+    new THREE.ExtrudeGeometry(shape, { depth: 0.08, bevelEnabled: true, bevelThickness: 0.03, bevelSize: 0.03, bevelSegments: 2 }).center();
+
+  if (id === 'heart') {
+    const shape = new THREE.Shape();
+    shape.moveTo(0, -0.3);
+    shape.bezierCurveTo(-0.05, -0.2, -0.4, -0.05, -0.4, 0.12);
+    shape.bezierCurveTo(-0.4, 0.32, -0.12, 0.38, 0, 0.2);
+    shape.bezierCurveTo(0.12, 0.38, 0.4, 0.32, 0.4, 0.12);
+    shape.bezierCurveTo(0.4, -0.05, 0.05, -0.2, 0, -0.3);
+    return extrude(shape);
+  }
+  if (id === 'bell') {
+    const profile = [
+      [0.02, 0.3], [0.06, 0.28], [0.14, 0.22], [0.18, 0.1], [0.2, -0.05], [0.26, -0.18], [0.32, -0.24], [0.3, -0.27], [0.0, -0.27],
+    ].map(([x, y]) => new THREE.Vector2(x, y));
+    return new THREE.LatheGeometry(profile, 24);
+  }
+  // Five points, like the star on the tree
+  const shape = new THREE.Shape();
+  for (let i = 0; i < 10; i++) {
+    const radius = i % 2 === 0 ? 0.35 : 0.14;
+    const x = Math.sin((i * Math.PI) / 5) * radius;
+    const y = Math.cos((i * Math.PI) / 5) * radius;
+    if (i === 0) shape.moveTo(x, y);
+    else shape.lineTo(x, y);
+  }
+  shape.closePath();
+  return extrude(shape);
+};
+
+// A little keepsake that floats up and turns
+const Keepsake: React.FC<{ object: SurpriseObjectId; index: number; openings: GiftOpenings; origin: GiftSurprisesProps['origin']; color: THREE.Color }> = ({
+  object,
+  index,
+  openings,
+  origin,
+  color,
+}) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const geometry = useMemo(() => createObjectGeometry(object), [object]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  useFrame((state, delta) => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    const rise = riseOf(openings.progress[index]);
+    mesh.position.copy(origin(index, tempOrigin)).y += RISE_HEIGHT * rise + Math.sin(state.clock.elapsedTime * 2 + index) * 0.05 * rise;
+    mesh.rotation.y += delta;
+    mesh.scale.setScalar(1.4 * rise);
+    mesh.visible = rise > 0;
+    materialRef.current?.color.copy(color);
+    materialRef.current?.emissive.copy(color);
+  });
+
+  return (
+    <mesh ref={meshRef} geometry={geometry} visible={false}>
+      <meshStandardMaterial ref={materialRef} emissiveIntensity={0.6} roughness={0.15} metalness={0.9} />
+    </mesh>
+  );
+};
+
+export const GiftSurprises: React.FC<GiftSurprisesProps> = ({ seed, openings, unsealed, surprises, origin, color }) => {
+  const byIndex = useMemo(() => new Map(surprises.map((s) => [s.index, s])), [surprises]);
+
+  return (
+    <>
+      {unsealed.map((index) => {
+        const surprise = byIndex.get(index);
+        const props = { index, openings, origin };
+        if (surprise?.kind === 'photo') return <PhotoCard key={index} url={surprise.photo} {...props} />;
+        if (surprise?.kind === 'message') return <MessageCard key={index} message={surprise.message} {...props} />;
+        if (surprise?.kind === 'object') return <Keepsake key={index} object={surprise.object} color={color(index)} {...props} />;
+        return <Burst key={index} seed={seed} color={color(index)} {...props} />;
+      })}
+    </>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { LightPatternId } from '../types';
+import { Messages } from '../utils/i18n';
+import { LIGHT_PATTERNS } from '../utils/lightPatterns';
+
+interface LightPatternControlProps {
+  pattern: LightPatternId;
+  onChange: (pattern: LightPatternId) => void;
+  strings: Messages;
+}
+
+// Switches the garland's pattern live; speed, colours and direction come from the config
+export const LightPatternControl: React.FC<LightPatternControlProps> = ({ pattern, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.lights.label}</span>
+    <select
+      value={pattern}
+      onChange={(e) => onChange(e.target.value as LightPatternId)}
+      aria-label={strings.lights.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {LIGHT_PATTERNS.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.lights.patterns[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
@@ -0,0 +1,29 @@
+import React from 'react';
+import { LightingMode } from '../types';
+import { Messages } from '../utils/i18n';
+import { LIGHTING_MODES } from '../utils/lighting';
+
+interface LightingControlProps {
+  mode: LightingMode;
+  onChange: (mode: LightingMode) => void;
+  strings: Messages;
+}
+
+// Picks the lighting look, or 'live' to follow the viewer's clock
+export const LightingControl: React.FC<LightingControlProps> = ({ mode, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.lighting.label}</span>
+    <select
+      value={mode}
+      onChange={(e) => onChange(e.target.value as LightingMode)}
+      aria-label={strings.lighting.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {LIGHTING_MODES.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.lighting.modes[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
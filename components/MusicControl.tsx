@@ -0,0 +1,55 @@
+import React from 'react';
+import { Messages } from '../utils/i18n';
+import { AudioState } from '../utils/audio';
+
+interface MusicControlProps {
+  state: AudioState;
+  onCarol: () => void;
+  onFile: (file: File) => void;
+  onToggle: () => void;
+  onVolume: (volume: number) => void;
+  strings: Messages;
+}
+
+const buttonClass = 'text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest transition-colors';
+
+// Nothing plays until one of these is clicked, which is what lets the browser allow it
+export const MusicControl: React.FC<MusicControlProps> = ({ state, onCarol, onFile, onToggle, onVolume, strings }) => {
+  const pick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onFile(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+      <span className="text-amber-100/40">{strings.music.label}</span>
+      {state.source && (
+        <button onClick={onToggle} className={buttonClass}>
+          {state.playing ? strings.pause : strings.play}
+        </button>
+      )}
+      <button onClick={onCarol} className={state.source === 'carol' ? 'text-amber-100/70 uppercase tracking-widest' : buttonClass}>
+        {strings.music.carol}
+      </button>
+      <label className={`cursor-pointer ${state.source === 'file' ? 'text-amber-100/70' : buttonClass}`} title={state.name || undefined}>
+        <span className="inline-block max-w-[8rem] truncate align-bottom normal-case">{state.source === 'file' ? state.name : strings.music.openFile}</span>
+        <input type="file" accept="audio/*" className="hidden" onChange={pick} />
+      </label>
+      {state.source && (
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={state.volume}
+          onChange={(e) => onVolume(Number(e.target.value))}
+          aria-label={strings.music.volume}
+          className="w-16 accent-amber-400"
+        />
+      )}
+      {state.blocked && <span className="text-red-300/70 normal-case">{strings.music.blocked}</span>}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useMemo } from 'react';
+import { Messages, formatMessage } from '../utils/i18n';
+import { createRandom } from '../utils/random';
+import { OrnamentPick } from './Ornaments';
+
+interface OrnamentCardProps {
+  pick: OrnamentPick;
+  seed: number;
+  onClose: () => void;
+  strings: Messages;
+}
+
+// The note hidden in a clicked ornament, or a blessing for ornaments without one
+export const OrnamentCard: React.FC<OrnamentCardProps> = ({ pick, seed, onClose, strings }) => {
+  const { note } = pick;
+  // The same ornament on the same tree always offers the same blessing
+  const blessing = useMemo(
+    () => strings.blessings[Math.floor(createRandom(seed, `blessing:${pick.key}`)() * strings.blessings.length)],
+    [seed, pick.key, strings]
+  );
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-sm bg-black/70 border border-amber-500/30 rounded-2xl p-6 shadow-[0_0_30px_rgba(218,165,32,0.2)] text-center"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <p className="text-amber-200/50 text-[10px] tracking-widest uppercase mb-3">
+          {note?.to ? formatMessage(strings.ornament.forRecipient, { to: note.to }) : strings.ornament.blessing}
+        </p>
+
+        {note?.photo && (
+          <img src={note.photo} alt="" className="mx-auto mb-4 max-h-64 rounded-lg border border-amber-500/20 object-contain" />
+        )}
+
+        {(note ? note.message : blessing) && (
+          <p className="text-amber-100 font-serif text-lg tracking-wider leading-relaxed whitespace-pre-line">
+            {note ? note.message : blessing}
+          </p>
+        )}
+
+        <button
+          onClick={onClose}
+          className="mt-6 text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+        >
+          {strings.ornament.close}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,175 @@
-import React, { useMemo, useRef, useLayoutEffect } from 'react';
-import { useFrame } from '@react-three/fiber';
+import React, { useMemo, useRef, useLayoutEffect, useState } from 'react';
+import { ThreeEvent, useFrame, useThree } from '@react-three/fiber';
+import { useCursor } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import * as THREE from 'three';
 import { getRandomSpherePoint } from '../utils/math';
-import { TreeState } from '../types';
+import { createRandom, pickWeighted, RandomFn } from '../utils/random';
+import { TreeLayout } from '../utils/sceneConfig';
+import { FormationContext, FORMATIONS, isAssembled, useFormationTargets } from '../utils/formations';
+import { Stagger, usePointMorph } from '../utils/morph';
+import { TransitionController, TransitionLayer } from '../utils/transition';
+import { AudioUniforms } from '../utils/audio';
+import { windAt, windShader, WindUniforms } from '../utils/wind';
+import { ThemeFader } from '../utils/themes';
+import { createSurfaceGeometry, drawOnBranches, Silhouette, widestReach } from '../utils/silhouettes';
+import { createGiftGeometries, GiftOpenings } from '../utils/gifts';
+import { GiftSurprises } from './GiftSurprises';
+import { createTopperGeometry, topperLook } from '../utils/toppers';
+import {
+  createDecorationId,
+  decorationCone,
+  DecorateTool,
+  DECORATION_SCALES,
+  DECORATION_TYPES,
+  PLACED_KEY_PREFIX,
+  snapToSurface,
+} from '../utils/decorations';
+import {
+  Decoration,
+  DecorationLayout,
+  DecorationType,
+  FormationId,
+  GiftPaletteEntry,
+  GiftSurprise,
+  NoteContent,
+  OrnamentGroupConfig,
+  OrnamentNote,
+  SceneConfig,
+  TopperSettings,
+  WeightedColor,
+} from '../types';
+
+// --- INSTANCE SHADER ---
+// Patched into the standard and depth materials of every instanced group: each
+// instance is blended between formations, bobbed and spun on the GPU from
+// per-instance attributes, so instance matrices stay identity after mount.
+// The hovered instance grows a little and glows. Ornaments on the tree sway
+// in the wind; gifts, sitting on the ground, don't. Gifts also size each box
+// and move its parts apart as it opens (see utils/gifts.ts).
+const instanceParsVertex = `
+  ${windShader}
+  uniform float uTime;
+  uniform float uProgress; // Eased layer progress from the transition controller
+  uniform float uAssembled; // 0.0 = floating cloud, 1.0 = holding a shape
+  uniform vec2 uStagger; // x = scale, y = spread (see Stagger)
+  uniform vec2 uSpin; // Accumulated spin around x and y
+  uniform float uBob;
+  uniform float uSway; // How far the wind pushes an assembled instance, per unit of wind
+  uniform float uHighlight; // Hovered instance, -1.0 for none
+
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
+  attribute float aDelay;
+  attribute float aScale;
+  attribute vec3 aRotation;
+  attribute float aSpin;
+
+  varying float vHighlight;
+
+  #ifdef GIFT_PARTS
+    attribute vec3 aSize; // Box proportions
+    attribute float aOpen; // 0 sealed to 1 open
+    attribute float aPart; // 0 box, 1 lid and bow, 2 ribbons round the box (see GIFT_PART)
+
+    float lidAway() {
+      return smoothstep(0.2, 1.0, aOpen);
+    }
+
+    // The lid tips back as it comes off, until it stands nearly on end
+    mat3 lidTilt() {
+      float a = -1.35 * lidAway();
+      return mat3(1.0, 0.0, 0.0, 0.0, cos(a), sin(a), 0.0, -sin(a), cos(a));
+    }
+
+    vec3 giftPart(vec3 p) {
+      p *= aSize;
+      if (aPart > 0.5 && aPart < 1.5) {
+        // Up over the back edge, coming to rest on the ground leaning on the box
+        float t = lidAway();
+        vec3 pivot = vec3(0.0, 0.425 * aSize.y, 0.0);
+        vec3 rest = vec3(0.0, 0.51 * aSize.z - 0.925 * aSize.y, -0.62 * aSize.z);
+        vec3 offset = rest * t + vec3(0.0, 0.8 * aSize.y * sin(3.14159 * t), 0.0);
+        p = lidTilt() * (p - pivot) + pivot + offset;
+      } else if (aPart > 1.5) {
+        // The ribbons slacken, standing off the box and slipping down
+        float slack = smoothstep(0.2, 0.7, aOpen);
+        p.xz *= 1.0 + 0.06 * slack;
+        p.y -= 0.04 * slack * aSize.y;
+      }
+      return p;
+    }
+
+    vec3 giftNormal(vec3 n) {
+      return aPart > 0.5 && aPart < 1.5 ? lidTilt() * n : n;
+    }
+  #endif
+
+  // Same as THREE.Euler with the default 'XYZ' order
+  mat3 eulerXYZ(vec3 e) {
+    float a = cos(e.x), b = sin(e.x), c = cos(e.y), d = sin(e.y), f = cos(e.z), g = sin(e.z);
+    return mat3(
+      c * f, a * g + b * f * d, b * g - a * f * d,
+      -c * g, a * f - b * g * d, b * f + a * g * d,
+      d, -b * c, a * c
+    );
+  }
+
+  mat3 instanceRotation() {
+    mat3 r = eulerXYZ(aRotation + vec3(uSpin * aSpin, 0.0));
+    #ifdef GIFT_PARTS
+      // A gift being opened first rolls upright, so the lid comes off the top
+      float settle = smoothstep(0.0, 0.3, aOpen);
+      mat3 upright = eulerXYZ(vec3(0.0, aRotation.y, 0.0));
+      r = mat3(
+        normalize(mix(r[0], upright[0], settle) + 1e-4),
+        normalize(mix(r[1], upright[1], settle) + 1e-4),
+        normalize(mix(r[2], upright[2], settle) + 1e-4)
+      );
+    #endif
+    return r;
+  }
+
+  vec3 instanceCenter() {
+    float t = clamp(uProgress * uStagger.x - aDelay * uStagger.y, 0.0, 1.0);
+    vec3 center = mix(aFromPos, aToPos, t);
+    center.y += sin(uTime + float(gl_InstanceID)) * uBob * (1.0 - uAssembled);
+    // Hanging from a branch, so mostly sideways
+    vec3 sway = windAt(center) * uSway * uAssembled;
+    center += vec3(sway.x, sway.y * 0.2, sway.z);
+    return center;
+  }
+`;
+
+const instanceNormalVertex = `
+  #include <beginnormal_vertex>
+  #ifdef GIFT_PARTS
+    objectNormal = giftNormal(objectNormal);
+  #endif
+  objectNormal = instanceRotation() * objectNormal;
+`;
+
+const instanceBeginVertex = `
+  #include <begin_vertex>
+  vHighlight = step(abs(float(gl_InstanceID) - uHighlight), 0.5);
+  #ifdef GIFT_PARTS
+    transformed = giftPart(transformed);
+  #endif
+  transformed = instanceRotation() * (transformed * aScale * (1.0 + 0.25 * vHighlight)) + instanceCenter();
+`;
+
+const instanceParsFragment = `
+  varying float vHighlight;
+`;
+
+const instanceEmissiveFragment = `
+  #include <emissivemap_fragment>
+  totalEmissiveRadiance += vHighlight * vec3(0.6, 0.45, 0.2);
+`;
 
 interface OrnamentGroupProps {
   count: number;
-  treeState: TreeState;
+  formation: FormationId;
   color: string;
   type: 'sphere' | 'diamond';
   weight: number; 
@@ -14,26 +177,554 @@ interface OrnamentGroupProps {
   roughness?: number;
   metalness?: number;
   spiralPhase?: number; // Offset for spiral rotation
+  seed: number;
+  layout: TreeLayout;
+  formationContext: FormationContext;
+  transition: TransitionController;
+  notes: OrnamentNote[];
+  onPick: ((pick: OrnamentPick) => void) | null;
+  pickKey: string; // Prefix of this group's pick keys
+  hidden: ReadonlySet<number>; // Instances taken off the tree by hand
+  decorate: DecorateHandle | null;
+  wind: WindUniforms;
+  theme: ThemeFader;
+  slot: number; // Which of the theme's ornament colours the group wears
+}
+
+// What a click on an ornament reveals
+export interface OrnamentPick {
+  key: string; // Group and instance, e.g. "gifts:3"; stable for a given config
+  note: OrnamentNote | null; // Null for ornaments without a configured note
+}
+
+// Decorate mode, as wired up by the app: what the tray has selected and how
+// edits are applied. Drags preview every move and are settled by `release`.
+export interface DecorateControls {
+  tool: DecorateTool;
+  type: DecorationType;
+  color: string;
+  add: (decoration: Decoration) => void;
+  erase: (key: string) => void;
+  grab: (key: string, decoration: Decoration) => void; // Starts a drag
+  move: (id: string, position: [number, number, number]) => void;
+  release: () => void;
 }
 
-const tempObject = new THREE.Object3D();
 const tempColor = new THREE.Color();
-const tempRibbonColor = new THREE.Color();
+const tempVector = new THREE.Vector3();
+const NONE_HIDDEN: ReadonlySet<number> = new Set();
+
+// Runs `paint` whenever the theme's colours have moved on, and for each new
+// `instances` (the group's data), so colours fade without touching anything else
+const useThemePaint = (theme: ThemeFader, instances: unknown, paint: () => void) => {
+  const painted = useRef<{ version: number; instances: unknown } | null>(null);
+  const repaint = () => {
+    if (painted.current?.version === theme.version && painted.current.instances === instances) return;
+    paint();
+    painted.current = { version: theme.version, instances };
+  };
+  useLayoutEffect(repaint);
+  useFrame(repaint);
+};
+
+// How far loose ornaments bob while floating
+const FLOAT_BOB = 0.2;
+// How far hanging ornaments give to the wind; gifts stay put
+const ORNAMENT_SWAY = 0.04;
+const NO_SWAY = 0;
+// rotationSpeed values were tuned as radians per frame at 60 fps
+const SPIN_FPS = 60;
+
+interface OrnamentInstance {
+  treePos: THREE.Vector3;
+  scatterPos: THREE.Vector3;
+  scale: number;
+  rotation: THREE.Euler;
+  rotationSpeed: number;
+}
+
+// Flattens per-instance positions for the formation targets
+const packPositions = (points: THREE.Vector3[]): Float32Array => {
+  const out = new Float32Array(points.length * 3);
+  points.forEach((p, i) => p.toArray(out, i * 3));
+  return out;
+};
+
+// Native tree / scattered targets plus lazily sampled shapes for one instanced group
+const useInstanceTargets = (
+  data: OrnamentInstance[],
+  stream: string,
+  seed: number,
+  formationContext: FormationContext
+) => {
+  const native = useMemo(() => ({
+    tree: packPositions(data.map((d) => d.treePos)),
+    scattered: packPositions(data.map((d) => d.scatterPos))
+  }), [data]);
+  return useFormationTargets(native, 'ornaments', stream, data.length, seed, formationContext);
+};
+
+// Golden-ratio sequence: evenly spread per-instance delays that leave the seeded streams untouched
+const instanceDelays = (count: number) => Float32Array.from({ length: count }, (_, i) => (i * 0.618034) % 1);
+
+// Spin rate around x and y (multiples of each instance's rotationSpeed) for a given assembled level
+type SpinRule = (assembled: number) => [number, number];
+
+const TUMBLE: SpinRule = () => [1, 1];
+const NO_SPIN: SpinRule = () => [0, 0];
+
+// Uniforms, material patch and shadow material for one instanced group, all
+// driven from the shared timeline. Gift groups get the parts patch too, and
+// their own program cache key, since the patch function's source is the same.
+const useInstanceShader = (
+  layer: TransitionLayer,
+  stagger: Stagger,
+  spin: SpinRule,
+  sway: number,
+  transition: TransitionController,
+  wind: WindUniforms,
+  gift = false
+) => {
+  const uniforms = useMemo(() => ({
+    ...wind,
+    uTime: { value: 0 },
+    uProgress: { value: 1 },
+    uAssembled: { value: 0 },
+    uStagger: { value: new THREE.Vector2() },
+    uSpin: { value: new THREE.Vector2() },
+    uBob: { value: FLOAT_BOB },
+    uSway: { value: 0 },
+    uHighlight: { value: -1 },
+  }), [wind]);
+
+  useLayoutEffect(() => {
+    uniforms.uStagger.value.set(stagger.scale, stagger.spread);
+    uniforms.uSway.value = sway;
+  }, [uniforms, stagger, sway]);
+
+  const onBeforeCompile = useMemo(() => (shader: THREE.WebGLProgramParametersWithUniforms) => {
+    Object.assign(shader.uniforms, uniforms);
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${gift ? '#define GIFT_PARTS\n' : ''}${instanceParsVertex}`)
+      .replace('#include <beginnormal_vertex>', instanceNormalVertex)
+      .replace('#include <begin_vertex>', instanceBeginVertex);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${instanceParsFragment}`)
+      .replace('#include <emissivemap_fragment>', instanceEmissiveFragment);
+  }, [uniforms, gift]);
+  const programKey = useMemo(() => () => (gift ? 'instance-gift' : 'instance'), [gift]);
+
+  // Shadows are drawn with a depth material, which needs the same placement
+  const depthMaterial = useMemo(() => {
+    const material = new THREE.MeshDepthMaterial({ depthPacking: THREE.RGBADepthPacking });
+    material.onBeforeCompile = onBeforeCompile;
+    material.customProgramCacheKey = programKey;
+    return material;
+  }, [onBeforeCompile, programKey]);
+
+  useFrame((state, delta) => {
+    const assembled = transition.assembled(layer);
+    const [spinX, spinY] = spin(assembled);
+    uniforms.uTime.value = state.clock.elapsedTime;
+    uniforms.uProgress.value = transition.layer(layer);
+    uniforms.uAssembled.value = assembled;
+    uniforms.uSpin.value.x += spinX * delta;
+    uniforms.uSpin.value.y += spinY * delta;
+  });
+
+  return { uniforms, onBeforeCompile, programKey, depthMaterial };
+};
+
+type InstanceUniforms = ReturnType<typeof useInstanceShader>['uniforms'];
+
+// Per-instance morph for one group: usePointMorph keeps aFromPos / aToPos on the
+// shared timeline, and every geometry passed in (a gift box and its two ribbons
+// draw the same instances) gets the same attribute objects, so they upload once.
+// Hidden instances are drawn at zero scale. Returns the CPU mirror of
+// instanceCenter() and the live scales, for picking.
+const useInstanceMorph = (
+  data: OrnamentInstance[],
+  formation: FormationId,
+  getTargets: (id: FormationId) => Float32Array,
+  transition: TransitionController,
+  stagger: Stagger,
+  uniforms: InstanceUniforms,
+  geometries: THREE.BufferGeometry[],
+  hidden: ReadonlySet<number> = NONE_HIDDEN
+) => {
+  const delays = useMemo(() => instanceDelays(data.length), [data]);
+  const geometryRef = useMemo(() => ({ current: geometries[0] }), [geometries]);
+  const morph = usePointMorph({
+    formation,
+    getTargets,
+    randoms: delays,
+    stagger,
+    progress: uniforms.uProgress,
+    transition,
+    geometryRef,
+  });
+
+  const attributes = useMemo(() => {
+    const scales = new Float32Array(data.length);
+    const rotations = new Float32Array(data.length * 3);
+    const spins = new Float32Array(data.length);
+    data.forEach((d, i) => {
+      scales[i] = hidden.has(i) ? 0 : d.scale;
+      rotations[i * 3] = d.rotation.x;
+      rotations[i * 3 + 1] = d.rotation.y;
+      rotations[i * 3 + 2] = d.rotation.z;
+      spins[i] = d.rotationSpeed * SPIN_FPS;
+    });
+    return {
+      aFromPos: new THREE.InstancedBufferAttribute(morph.from, 3),
+      aToPos: new THREE.InstancedBufferAttribute(morph.to, 3),
+      aDelay: new THREE.InstancedBufferAttribute(delays, 1),
+      aScale: new THREE.InstancedBufferAttribute(scales, 1),
+      aRotation: new THREE.InstancedBufferAttribute(rotations, 3),
+      aSpin: new THREE.InstancedBufferAttribute(spins, 1),
+    };
+  }, [data, morph, delays, hidden]);
+
+  useLayoutEffect(() => {
+    for (const geometry of geometries) {
+      for (const [name, attribute] of Object.entries(attributes)) geometry.setAttribute(name, attribute);
+    }
+  }, [geometries, attributes]);
+
+  const centerAt = useMemo(() => (index: number, out: THREE.Vector3) => {
+    const t = THREE.MathUtils.clamp(uniforms.uProgress.value * stagger.scale - delays[index] * stagger.spread, 0, 1);
+    out.fromArray(morph.from, index * 3).lerp(tempVector.fromArray(morph.to, index * 3), t);
+    out.y += Math.sin(uniforms.uTime.value + index) * uniforms.uBob.value * (1 - uniforms.uAssembled.value);
+    const sway = windAt(uniforms, out.x, out.y, out.z, tempVector).multiplyScalar(uniforms.uSway.value * uniforms.uAssembled.value);
+    sway.y *= 0.2;
+    return out.add(sway);
+  }, [morph, delays, stagger, uniforms]);
+
+  return { centerAt, scales: attributes.aScale.array as Float32Array };
+};
+
+// --- PICKING ---
+
+const tempCenter = new THREE.Vector3();
+const tempPoint = new THREE.Vector3();
+const tempRay = new THREE.Ray();
+const tempInverse = new THREE.Matrix4();
+const tempSphere = new THREE.Sphere();
+
+// Drags of the orbit controls beyond this many pixels are not clicks
+const CLICK_SLOP = 4;
+
+interface InstancePickingOptions {
+  keyOf: (index: number) => string; // Pick key of an instance
+  geometry: THREE.BufferGeometry;
+  centerAt: (index: number, out: THREE.Vector3) => THREE.Vector3;
+  scales: Float32Array; // Zero for hidden instances, which can't be picked
+  uniforms: InstanceUniforms;
+  notes?: OrnamentNote[];
+  onPick: ((pick: OrnamentPick) => void) | null; // Null: clicks reveal nothing
+  decorate?: DecorateHandle | null; // Set while decorating, when instances are grabbed or erased instead
+  toDecoration?: (index: number) => Decoration; // What grabbing an instance hangs in its place
+  onActivate?: (index: number) => boolean; // Gets a click before it reveals anything (a gift opening); true when it took it
+}
+
+// Instance matrices are identity, so the stock InstancedMesh raycast would find
+// every instance at the origin. This tests the ray against a bounding sphere
+// around each instance where the shader currently draws it, and wires hover
+// highlighting, click-to-reveal and decorate-mode editing for the group.
+// Groups with nothing to do on click get no handlers, so R3F never raycasts them.
+const useInstancePicking = ({
+  keyOf,
+  geometry,
+  centerAt,
+  scales,
+  uniforms,
+  notes = [],
+  onPick,
+  decorate = null,
+  toDecoration,
+  onActivate,
+}: InstancePickingOptions) => {
+  const [hovered, setHovered] = useState(false);
+  useCursor(hovered, decorate ? 'grab' : 'pointer');
+
+  const notesByIndex = useMemo(() => new Map(notes.map((n) => [n.index, n])), [notes]);
+  const editable = decorate !== null && toDecoration !== undefined;
+
+  const raycast = useMemo(() => {
+    if (!geometry.boundingSphere) geometry.computeBoundingSphere();
+    const radius = geometry.boundingSphere!.radius;
+
+    return function (this: THREE.InstancedMesh, raycaster: THREE.Raycaster, intersects: THREE.Intersection[]) {
+      tempInverse.copy(this.matrixWorld).invert();
+      tempRay.copy(raycaster.ray).applyMatrix4(tempInverse);
+      for (let i = 0; i < scales.length; i++) {
+        if (scales[i] === 0) continue;
+        tempSphere.set(centerAt(i, tempCenter), radius * scales[i]);
+        if (!tempRay.intersectSphere(tempSphere, tempPoint)) continue;
+        tempPoint.applyMatrix4(this.matrixWorld);
+        const distance = raycaster.ray.origin.distanceTo(tempPoint);
+        if (distance < raycaster.near || distance > raycaster.far) continue;
+        intersects.push({ distance, point: tempPoint.clone(), object: this, instanceId: i });
+      }
+    };
+  }, [geometry, scales, centerAt]);
+
+  if (!onPick && !editable) return {};
+
+  // Only the nearest ornament under the pointer reacts
+  const onPointerMove = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    if (decorate?.dragging()) {
+      decorate.dragTo(e.ray);
+      return;
+    }
+    uniforms.uHighlight.value = e.instanceId ?? -1;
+    setHovered(true);
+  };
+
+  const onPointerOut = () => {
+    uniforms.uHighlight.value = -1;
+    setHovered(false);
+  };
+
+  const onPointerDown = (e: ThreeEvent<PointerEvent>) => {
+    if (!editable || decorate!.tool !== 'place' || e.instanceId === undefined) return;
+    e.stopPropagation();
+    // Keeps the drag going when the pointer slips off the ornament
+    (e.target as Element).setPointerCapture(e.pointerId);
+    decorate!.grab(keyOf(e.instanceId), toDecoration!(e.instanceId));
+  };
+
+  const onPointerUp = (e: ThreeEvent<PointerEvent>) => {
+    if (!decorate?.dragging()) return;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    decorate.release();
+  };
+
+  const onClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.instanceId === undefined) return;
+    if (editable) {
+      // Also swallows the click that ends a drag, so it never hangs a new ornament
+      e.stopPropagation();
+      if (decorate!.tool === 'erase') decorate!.erase(keyOf(e.instanceId));
+      return;
+    }
+    if (e.delta > CLICK_SLOP || !onPick) return;
+    e.stopPropagation();
+    if (onActivate?.(e.instanceId)) return;
+    onPick({ key: keyOf(e.instanceId), note: notesByIndex.get(e.instanceId) ?? null });
+  };
+
+  return { raycast, onPointerMove, onPointerOut, onPointerDown, onPointerUp, onClick };
+};
+
+// --- DECORATE MODE ---
+
+// The scene-side half of decorate mode: drag state, and the invisible surface
+// that turns pointer rays into points on the tree
+interface DecorateHandle {
+  tool: DecorateTool;
+  dragging: () => boolean;
+  grab: (key: string, decoration: Decoration) => void;
+  dragTo: (ray: THREE.Ray) => void;
+  release: () => void;
+  erase: (key: string) => void;
+}
+
+const surfaceRaycaster = new THREE.Raycaster();
+
+// A generated ornament's note, to travel with it when it is picked up
+const noteContent = (notes: OrnamentNote[], index: number): NoteContent | null => {
+  const note = notes.find((n) => n.index === index);
+  return note ? { to: note.to, message: note.message, photo: note.photo } : null;
+};
+
+// Point on the decorate surface under a ray, in the ornaments' own space
+const hitSurface = (surface: THREE.Mesh | null, ray: THREE.Ray): THREE.Vector3 | null => {
+  if (!surface?.parent) return null;
+  surfaceRaycaster.ray.copy(ray);
+  const [hit] = surfaceRaycaster.intersectObject(surface, false);
+  return hit ? surface.parent.worldToLocal(hit.point.clone()) : null;
+};
+
+const useDecorateHandle = (
+  controls: DecorateControls | null,
+  surfaceRef: React.RefObject<THREE.Mesh>,
+  layout: TreeLayout
+): DecorateHandle | null => {
+  const drag = useRef<Decoration | null>(null);
+  // The orbit controls would turn the tree under a dragged ornament
+  const orbit = useThree((state) => state.controls) as OrbitControlsImpl | null;
+
+  return useMemo(() => {
+    if (!controls) return null;
+    return {
+      tool: controls.tool,
+      dragging: () => drag.current !== null,
+      grab: (key, decoration) => {
+        drag.current = decoration;
+        if (orbit) orbit.enabled = false;
+        controls.grab(key, decoration);
+      },
+      dragTo: (ray) => {
+        const point = hitSurface(surfaceRef.current, ray);
+        if (!drag.current || !point) return;
+        controls.move(drag.current.id, snapToSurface(point, decorationCone(drag.current.type, layout), layout.silhouette));
+      },
+      release: () => {
+        drag.current = null;
+        if (orbit) orbit.enabled = true;
+        controls.release();
+      },
+      erase: controls.erase,
+    };
+  }, [controls, orbit, surfaceRef, layout]);
+};
+
+// Clicking the tree hangs whatever the tray has selected, snapped onto the
+// branches of the cone that kind of ornament lives on
+const DecorateSurface: React.FC<{
+  controls: DecorateControls;
+  layout: TreeLayout;
+  surfaceRef: React.RefObject<THREE.Mesh>;
+}> = ({ controls, layout, surfaceRef }) => {
+  const cone = layout.ornaments;
+  const geometry = useMemo(() => createSurfaceGeometry(layout.silhouette, cone), [layout.silhouette, cone]);
+  const [hovered, setHovered] = useState(false);
+  useCursor(hovered && controls.tool === 'place', 'copy');
+
+  const onClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.delta > CLICK_SLOP || controls.tool !== 'place') return;
+    const point = hitSurface(surfaceRef.current, e.ray);
+    if (!point) return;
+    controls.add({
+      id: createDecorationId(),
+      type: controls.type,
+      color: controls.color,
+      position: snapToSurface(point, decorationCone(controls.type, layout), layout.silhouette),
+      scale: DECORATION_SCALES[controls.type],
+      note: null,
+    });
+  };
+
+  return (
+    <mesh
+      ref={surfaceRef}
+      geometry={geometry}
+      position={[0, cone.yOffset, 0]}
+      onClick={onClick}
+      onPointerOver={() => setHovered(true)}
+      onPointerOut={() => setHovered(false)}
+    >
+      {/* Raycast only: an invisible material still intersects */}
+      <meshBasicMaterial visible={false} />
+    </mesh>
+  );
+};
+
+const createDecorationGeometry = (type: DecorationType): THREE.BufferGeometry => {
+  if (type === 'diamond') return new THREE.OctahedronGeometry(0.3, 0);
+  if (type === 'bauble') return new THREE.SphereGeometry(0.25, 16, 16);
+  return new THREE.SphereGeometry(0.3, 32, 32);
+};
+
+// Hand-placed ornaments of one kind. They hang where the user put them on the
+// tree (carried onto the branches of whatever silhouette is current) and
+// otherwise behave like generated ones: a seeded spot in the cloud, samples of
+// every other formation, the same morph and picking.
+const HandPlacedGroup: React.FC<{
+  type: DecorationType;
+  items: Decoration[];
+  layout: TreeLayout;
+  formation: FormationId;
+  seed: number;
+  formationContext: FormationContext;
+  transition: TransitionController;
+  onPick: ((pick: OrnamentPick) => void) | null;
+  decorate: DecorateHandle | null;
+  wind: WindUniforms;
+}> = ({ type, items, layout, formation, seed, formationContext, transition, onPick, decorate, wind }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+
+  const data = useMemo(() => items.map((d): OrnamentInstance => {
+    // Per ornament, so adding or removing one never moves the others in the cloud
+    const random = createRandom(seed, `decoration:${d.id}`);
+    return {
+      treePos: new THREE.Vector3(...snapToSurface(tempVector.fromArray(d.position), decorationCone(type, layout), layout.silhouette)),
+      scatterPos: getRandomSpherePoint(20, random),
+      scale: d.scale,
+      rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+      rotationSpeed: type === 'bauble' ? 0 : (random() - 0.5) * 0.02
+    };
+  }), [items, type, seed, layout]);
+
+  const getTargets = useInstanceTargets(data, `placed:${type}`, seed, formationContext);
+  const notes = useMemo(
+    () => items.flatMap((d, index): OrnamentNote[] => (d.note ? [{ ...d.note, index }] : [])),
+    [items]
+  );
+
+  const geometry = useMemo(() => createDecorationGeometry(type), [type]);
+  const geometries = useMemo(() => [geometry], [geometry]);
+
+  const { uniforms, onBeforeCompile, depthMaterial } = useInstanceShader('ornaments', BAUBLE_STAGGER, TUMBLE, ORNAMENT_SWAY, transition, wind);
+  const { centerAt, scales } = useInstanceMorph(data, formation, getTargets, transition, BAUBLE_STAGGER, uniforms, geometries);
+  const picking = useInstancePicking({
+    keyOf: (i) => `${PLACED_KEY_PREFIX}${items[i].id}`,
+    geometry,
+    centerAt,
+    scales,
+    uniforms,
+    notes,
+    onPick,
+    decorate,
+    toDecoration: (i) => items[i],
+  });
+
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    items.forEach((d, i) => mesh.setColorAt(i, tempColor.set(d.color)));
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  }, [items]);
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[geometry, undefined, items.length]}
+      castShadow
+      receiveShadow
+      frustumCulled={false}
+      customDepthMaterial={depthMaterial}
+      {...picking}
+    >
+      <meshStandardMaterial
+        roughness={0.1}
+        metalness={type === 'bauble' ? 0.8 : 0.9}
+        envMapIntensity={2.0}
+        onBeforeCompile={onBeforeCompile}
+      />
+    </instancedMesh>
+  );
+};
 
 // --- POSITIONING HELPERS ---
 
-// 1. Gift Boxes: Bottom heavy piles, random angles
-const getGiftBoxPoint = (height: number, baseRadius: number, yOffset: number): THREE.Vector3 => {
-  const r = Math.random();
+// 1. Gift Boxes: Bottom heavy piles, random angles. The pile tapers like the
+// original cone, scaled to the silhouette's widest reach, so a shape on a bare
+// stem still spreads its gifts out under the branches; where the branches reach
+// further, the pile follows them out.
+const getGiftBoxPoint = (height: number, baseRadius: number, yOffset: number, silhouette: Silhouette, reach: number, random: RandomFn): THREE.Vector3 => {
+  const r = random();
   const bias = Math.pow(r, 2.8); // Very bottom heavy
   const maxRelativeHeight = 0.6;
   const y = yOffset - (height / 2) + (bias * height * maxRelativeHeight);
   
   const relativeHeight = (y - yOffset + height / 2) / height;
-  const radiusAtHeight = baseRadius * (1 - relativeHeight);
   
-  const theta = Math.random() * Math.PI * 2;
-  const dist = radiusAtHeight * (0.5 + Math.random() * 0.7); 
+  const theta = random() * Math.PI * 2;
+  const radiusAtHeight = baseRadius * Math.max(silhouette.surface(relativeHeight, theta), reach * (1 - relativeHeight));
+  const dist = radiusAtHeight * (0.5 + random() * 0.7); 
   
   const x = dist * Math.cos(theta);
   const z = dist * Math.sin(theta);
@@ -41,20 +732,20 @@ const getGiftBoxPoint = (height: number, baseRadius: number, yOffset: number): T
   return new THREE.Vector3(x, y, z);
 };
 
-// 2. Spheres: Spiral distribution
-const getSpiralPoint = (height: number, baseRadius: number, yOffset: number, phase: number): THREE.Vector3 => {
-  const t = Math.random();
-  const biasedT = Math.pow(t, 1.5); 
+// 2. Spheres: Spiral distribution, kept to where the silhouette has branches
+const getSpiralPoint = (height: number, baseRadius: number, yOffset: number, phase: number, silhouette: Silhouette, random: RandomFn): THREE.Vector3 => {
   const maxH = 0.85; 
-  const relativeHeight = biasedT * maxH;
-  const y = yOffset - (height / 2) + (relativeHeight * height);
-  const radiusAtHeight = baseRadius * (1 - relativeHeight);
-  
   const turns = 3.5;
-  const baseTheta = relativeHeight * Math.PI * 2 * turns + phase;
   const noiseSpread = 0.6;
-  const theta = baseTheta + (Math.random() - 0.5) * noiseSpread;
-  const r = radiusAtHeight * (0.95 + Math.random() * 0.15);
+  const { h: relativeHeight, theta } = drawOnBranches(silhouette, random, () => {
+    const h = Math.pow(random(), 1.5) * maxH;
+    const baseTheta = h * Math.PI * 2 * turns + phase;
+    return { h, theta: baseTheta + (random() - 0.5) * noiseSpread };
+  });
+  const y = yOffset - (height / 2) + (relativeHeight * height);
+  const radiusAtHeight = baseRadius * silhouette.surface(relativeHeight, theta);
+  
+  const r = radiusAtHeight * (0.95 + random() * 0.15);
   
   const x = r * Math.cos(theta);
   const z = r * Math.sin(theta);
@@ -62,23 +753,22 @@ const getSpiralPoint = (height: number, baseRadius: number, yOffset: number, pha
   return new THREE.Vector3(x, y, z);
 };
 
-// 3. Tiny Baubles: General distribution but bottom heavy
-const getTinyBaublePoint = (height: number, baseRadius: number, yOffset: number): THREE.Vector3 => {
-  const r = Math.random();
-  // Bias towards bottom (power > 1)
-  const bias = Math.pow(r, 2.5); 
-  
+// 3. Tiny Baubles: General distribution but bottom heavy, on the branches
+const getTinyBaublePoint = (height: number, baseRadius: number, yOffset: number, silhouette: Silhouette, random: RandomFn): THREE.Vector3 => {
   // Cap height slightly below top to avoid star collision
   const maxRelativeHeight = 0.9;
+
+  // Bias towards bottom (power > 1)
+  const { h: relativeHeight, theta } = drawOnBranches(silhouette, random, () => ({
+    h: Math.pow(random(), 2.5) * maxRelativeHeight,
+    theta: random() * Math.PI * 2,
+  }));
+
+  const y = yOffset - (height / 2) + (relativeHeight * height);
+  const radiusAtHeight = baseRadius * silhouette.surface(relativeHeight, theta);
   
-  const y = yOffset - (height / 2) + (bias * height * maxRelativeHeight);
-  
-  const relativeHeight = (y - yOffset + height / 2) / height;
-  const radiusAtHeight = baseRadius * (1 - relativeHeight);
-  
-  const theta = Math.random() * Math.PI * 2;
   // Sit on surface
-  const rad = radiusAtHeight * (0.9 + Math.random() * 0.15); 
+  const rad = radiusAtHeight * (0.9 + random() * 0.15); 
   
   const x = rad * Math.cos(theta);
   const z = rad * Math.sin(theta);
@@ -88,49 +778,52 @@ const getTinyBaublePoint = (height: number, baseRadius: number, yOffset: number)
 
 
 // --- STAR TOPPER COMPONENT ---
-const TopStar: React.FC<{ treeState: TreeState }> = ({ treeState }) => {
+const TopStar: React.FC<{
+  formation: FormationId;
+  seed: number;
+  formationContext: FormationContext;
+  settings: TopperSettings;
+  scale: number; // Follows the tree's height
+  color: THREE.Color; // Live, from the theme
+  transition: TransitionController;
+  audio: AudioUniforms;
+}> = ({ formation, seed, formationContext, settings, scale, color, transition, audio }) => {
   const meshRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
   const lightRef = useRef<THREE.PointLight>(null);
   
-  // Raised height
-  const treePos = new THREE.Vector3(0, 5.6, 0);
-  const scatterPos = useMemo(() => getRandomSpherePoint(15), []);
-  const currentPos = useRef(scatterPos.clone());
-
-  const starGeometry = useMemo(() => {
-    const shape = new THREE.Shape();
-    const points = 5;
-    const outerRadius = 0.45;
-    const innerRadius = 0.18;
-    
-    shape.moveTo(0, outerRadius);
-    for (let i = 1; i < points * 2; i++) {
-        const radius = i % 2 === 0 ? outerRadius : innerRadius;
-        const angle = (i / (points * 2)) * Math.PI * 2;
-        const x = Math.sin(i * Math.PI / points) * radius;
-        const y = Math.cos(i * Math.PI / points) * radius;
-        shape.lineTo(x, y);
-    }
-    shape.closePath();
-
-    return new THREE.ExtrudeGeometry(shape, {
-      steps: 1,
-      depth: 0.1, 
-      bevelEnabled: true,
-      bevelThickness: 0.03,
-      bevelSize: 0.03,
-      bevelSegments: 2
-    });
-  }, []);
+  const scatterPos = useMemo(() => getRandomSpherePoint(15, createRandom(seed, 'star')), [seed]);
+  // Each formation picks its own spot for the star (just above the tip on the tree)
+  const target = useMemo(
+    () => FORMATIONS[formation].topper?.(formationContext) ?? scatterPos,
+    [formation, formationContext, scatterPos]
+  );
+  const currentPos = useRef(target.clone());
+  // A new seed settles the star at once; new targets start a flight from where it is
+  const flight = useMemo(() => ({ from: target.clone(), to: target.clone() }), [scatterPos]);
+
+  useLayoutEffect(() => {
+    if (flight.to.equals(target)) return;
+    flight.from.copy(currentPos.current);
+    flight.to.copy(target);
+    transition.retarget(formation);
+  }, [formation, target, flight, transition]);
+
+  const { topper, points, innerRatio, path } = settings;
+  const starGeometry = useMemo(
+    () => createTopperGeometry({ topper, points, innerRatio, path }),
+    [topper, points, innerRatio, path]
+  );
+  useLayoutEffect(() => () => starGeometry.dispose(), [starGeometry]);
+  const look = topperLook(topper);
   
   useFrame((state, delta) => {
     if (!meshRef.current) return;
-    const target = treeState === TreeState.TREE_SHAPE ? treePos : scatterPos;
-    currentPos.current.lerp(target, delta * 1.5);
+    currentPos.current.lerpVectors(flight.from, flight.to, transition.layer('star'));
     
     meshRef.current.position.copy(currentPos.current);
     
-    if (treeState === TreeState.TREE_SHAPE) {
+    if (isAssembled(formation)) {
         // Reversed rotation direction (+=) to match tree spin
         meshRef.current.rotation.y += delta * 0.2; 
         meshRef.current.rotation.x = 0;
@@ -140,393 +833,582 @@ const TopStar: React.FC<{ treeState: TreeState }> = ({ treeState }) => {
         meshRef.current.rotation.z += delta;
     }
     
-    const scale = 1.0 + Math.sin(state.clock.elapsedTime * 2) * 0.05;
-    meshRef.current.scale.setScalar(scale);
+    const pulse = 1.0 + Math.sin(state.clock.elapsedTime * 2) * 0.05;
+    meshRef.current.scale.setScalar(scale * pulse);
+
+    // The glow pulses with the music's bass
+    const bass = audio.uAudioBass.value;
+    if (materialRef.current) {
+      materialRef.current.emissiveIntensity = look.emissive + 2.0 * bass;
+      materialRef.current.color.copy(color);
+      materialRef.current.emissive.copy(color);
+    }
+    if (lightRef.current) {
+      lightRef.current.intensity = (look.glow + 3.0 * bass) * settings.glow;
+      lightRef.current.color.copy(color);
+    }
   });
 
   return (
     <mesh ref={meshRef} geometry={starGeometry}>
       <meshStandardMaterial 
-        color="#FFD700" 
-        emissive="#FFD700" 
-        emissiveIntensity={0.5} 
+        ref={materialRef}
+        emissiveIntensity={look.emissive} 
         toneMapped={false}
-        roughness={0.1}
-        metalness={1.0}
+        roughness={look.roughness}
+        metalness={look.metalness}
       />
-      <pointLight ref={lightRef} distance={6} intensity={1.0} color="#FFD700" /> 
+      <pointLight ref={lightRef} distance={look.glowDistance * scale} intensity={look.glow * settings.glow} /> 
     </mesh>
   );
 };
 
 // --- GIFT BOX COMPONENT ---
-const GiftBoxGroup: React.FC<{ count: number; treeState: TreeState }> = ({ count, treeState }) => {
-  const boxRef = useRef<THREE.InstancedMesh>(null);
-  const ribbonRef = useRef<THREE.InstancedMesh>(null);
+const GIFT_STAGGER: Stagger = { scale: 1.3, spread: 0.3 };
+// Gifts tumble while floating and barely turn once piled under the tree
+const GIFT_SPIN: SpinRule = (assembled) => [1 - assembled, 1 - 0.9 * assembled];
 
-  const data = useMemo(() => {
-    const items = [];
-    const minDistance = 2.0; 
-    
-    // Updated palette: Mixed luxurious colors
-    // Weights: Reduced gold weight to ~6% (was 10%)
-    const boxPalette = [
-        { color: '#7a1f1f', name: 'burgundy', weight: 0.31 }, 
-        { color: '#f2e8d5', name: 'cream', weight: 0.31 }, 
-        { color: '#0f3b26', name: 'emerald', weight: 0.32 },
-        { color: '#d4af37', name: 'gold', weight: 0.06 } 
-    ];
-
-    // Helper to pick random color based on weight
-    const pickColor = () => {
-        const r = Math.random();
-        let sum = 0;
-        for (const p of boxPalette) {
-            sum += p.weight;
-            if (r <= sum) return p;
-        }
-        return boxPalette[0];
-    };
+export interface GiftInstance extends OrnamentInstance {
+  slot: number; // Entry of the gift palette; the theme colours it
+  size: THREE.Vector3; // Proportions of the box, 1 x 0.8 x 1 on average
+}
 
-    for (let i = 0; i < count; i++) {
-      const tPos = getGiftBoxPoint(12, 5.5, -1);
-      
-      let sPos = new THREE.Vector3();
-      let validPosition = false;
-      let attempts = 0;
-      while (!validPosition && attempts < 50) {
-        sPos = getRandomSpherePoint(18); 
-        validPosition = true;
-        for (const existingItem of items) {
-           if (sPos.distanceTo(existingItem.scatterPos) < minDistance) {
-               validPosition = false;
-               break;
-           }
-        }
-        attempts++;
+// The pile under the tree; the snow reads it too, to settle on the boxes
+export const createGifts = (count: number, seed: number, layout: TreeLayout, palette: GiftPaletteEntry[]): GiftInstance[] => {
+  const items: GiftInstance[] = [];
+  const minDistance = 2.0; 
+  const random = createRandom(seed, 'gifts');
+  // Proportions have their own stream, so the pile is laid out as it always was
+  const shapeRandom = createRandom(seed, 'gifts:shape');
+  const reach = widestReach(layout.silhouette);
+  
+  for (let i = 0; i < count; i++) {
+    const tPos = getGiftBoxPoint(layout.gifts.height, layout.gifts.baseRadius, layout.gifts.yOffset, layout.silhouette, reach, random);
+    
+    let sPos = new THREE.Vector3();
+    let validPosition = false;
+    let attempts = 0;
+    while (!validPosition && attempts < 50) {
+      sPos = getRandomSpherePoint(18, random); 
+      validPosition = true;
+      for (const existingItem of items) {
+         if (sPos.distanceTo(existingItem.scatterPos) < minDistance) {
+             validPosition = false;
+             break;
+         }
       }
-      if (!validPosition) sPos = getRandomSpherePoint(22);
-
-      const scale = 0.6 + Math.random() * 0.4; 
-      const paletteChoice = pickColor();
-      const boxColor = paletteChoice.color;
-      
-      // Determine ribbon color based on box color for luxury contrast
-      let ribbonColor = '#8b0000'; // Default dark red
-      if (paletteChoice.name === 'burgundy') ribbonColor = '#d4af37'; // Gold on Red
-      if (paletteChoice.name === 'emerald') ribbonColor = '#d4af37'; // Gold on Green
-      if (paletteChoice.name === 'gold') ribbonColor = '#7a1f1f'; // Red on Gold
-      if (paletteChoice.name === 'cream') ribbonColor = '#7a1f1f'; // Red on Cream
-
-      items.push({
-        treePos: tPos,
-        scatterPos: sPos,
-        currentPos: sPos.clone(),
-        scale: new THREE.Vector3(scale, scale, scale),
-        rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0),
-        rotationSpeed: (Math.random() - 0.5) * 0.02,
-        color: boxColor,
-        ribbonColor: ribbonColor
-      });
+      attempts++;
     }
-    return items;
-  }, [count]);
+    if (!validPosition) sPos = getRandomSpherePoint(22, random);
 
-  useFrame((state, delta) => {
-    if (!boxRef.current || !ribbonRef.current) return;
-    const targetIsTree = treeState === TreeState.TREE_SHAPE;
-    const lerpFactor = THREE.MathUtils.clamp(delta * 1.2, 0, 1);
-
-    data.forEach((d, i) => {
-      const target = targetIsTree ? d.treePos : d.scatterPos;
-      d.currentPos.lerp(target, lerpFactor);
-      
-      if (!targetIsTree) {
-         d.currentPos.y += Math.sin(state.clock.elapsedTime + i) * 0.005;
-         d.rotation.x += d.rotationSpeed;
-         d.rotation.y += d.rotationSpeed;
-      } else {
-         d.rotation.y += d.rotationSpeed * 0.1;
-      }
+    const scale = 0.6 + random() * 0.4; 
+    // Each palette entry pairs a box colour with a contrasting ribbon
+    const paletteChoice = pickWeighted(palette, random);
 
-      tempObject.position.copy(d.currentPos);
-      tempObject.rotation.copy(d.rotation);
-      tempObject.scale.copy(d.scale);
-      tempObject.updateMatrix();
-      
-      boxRef.current!.setMatrixAt(i, tempObject.matrix);
-      ribbonRef.current!.setMatrixAt(i, tempObject.matrix);
+    items.push({
+      treePos: tPos,
+      scatterPos: sPos,
+      scale,
+      rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+      rotationSpeed: (random() - 0.5) * 0.02,
+      slot: palette.indexOf(paletteChoice),
+      // Long, tall, flat or square
+      size: new THREE.Vector3(0.8 + shapeRandom() * 0.4, 0.8 * (0.65 + shapeRandom() * 0.7), 0.8 + shapeRandom() * 0.4)
     });
-    boxRef.current.instanceMatrix.needsUpdate = true;
-    ribbonRef.current.instanceMatrix.needsUpdate = true;
-  });
+  }
+  return items;
+};
+
+// The gift's four parts, in the order they're drawn
+const GIFT_PARTS = ['box', 'lid', 'ribbons', 'bow'] as const;
+
+const GiftBoxGroup: React.FC<{
+  data: GiftInstance[];
+  formation: FormationId;
+  seed: number;
+  formationContext: FormationContext;
+  transition: TransitionController;
+  notes: OrnamentNote[];
+  surprises: GiftSurprise[];
+  onPick: ((pick: OrnamentPick) => void) | null;
+  wind: WindUniforms;
+  theme: ThemeFader;
+}> = ({
+  data,
+  formation,
+  seed,
+  formationContext,
+  transition,
+  notes,
+  surprises,
+  onPick,
+  wind,
+  theme
+}) => {
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+
+  const getTargets = useInstanceTargets(data, 'gifts', seed, formationContext);
+
+  const parts = useMemo(() => createGiftGeometries(), []);
+  const geometries = useMemo(() => GIFT_PARTS.map((name) => parts[name]), [parts]);
+
+  const { uniforms, onBeforeCompile, programKey, depthMaterial } = useInstanceShader('gifts', GIFT_STAGGER, GIFT_SPIN, NO_SWAY, transition, wind, true);
+  const { centerAt, scales } = useInstanceMorph(data, formation, getTargets, transition, GIFT_STAGGER, uniforms, geometries);
+
+  // Opening is per gift: its proportions, and how far open it is, ride along as instance attributes
+  const openings = useMemo(() => new GiftOpenings(data.length), [data]);
+  const [unsealed, setUnsealed] = useState<number[]>([]);
+  const shownVersion = useRef(-1);
+  const giftAttributes = useMemo(() => {
+    const sizes = new Float32Array(data.length * 3);
+    data.forEach((d, i) => d.size.toArray(sizes, i * 3));
+    return {
+      aSize: new THREE.InstancedBufferAttribute(sizes, 3),
+      aOpen: new THREE.InstancedBufferAttribute(openings.progress, 1),
+    };
+  }, [data, openings]);
 
   useLayoutEffect(() => {
-    if (boxRef.current && ribbonRef.current) {
-        data.forEach((d, i) => {
-            tempColor.set(d.color);
-            boxRef.current!.setColorAt(i, tempColor);
-            tempRibbonColor.set(d.ribbonColor);
-            ribbonRef.current!.setColorAt(i, tempRibbonColor);
-            
-            tempObject.position.copy(d.scatterPos);
-            tempObject.updateMatrix();
-            boxRef.current!.setMatrixAt(i, tempObject.matrix);
-            ribbonRef.current!.setMatrixAt(i, tempObject.matrix);
-        });
-        boxRef.current.instanceMatrix.needsUpdate = true;
-        if (boxRef.current.instanceColor) boxRef.current.instanceColor.needsUpdate = true;
-        if (ribbonRef.current.instanceColor) ribbonRef.current.instanceColor.needsUpdate = true;
+    for (const geometry of geometries) {
+      for (const [name, attribute] of Object.entries(giftAttributes)) geometry.setAttribute(name, attribute);
     }
-  }, [data]);
+  }, [geometries, giftAttributes]);
+
+  // Gifts only open under the tree, and all reseal when it scatters
+  const underTree = formation === 'tree';
+  useLayoutEffect(() => {
+    if (!underTree) openings.resealAll();
+  }, [underTree, openings]);
+  // A new pile starts sealed
+  useLayoutEffect(() => {
+    shownVersion.current = openings.version;
+    setUnsealed([]);
+  }, [openings]);
+
+  useFrame((_, delta) => {
+    if (openings.tick(delta)) giftAttributes.aOpen.needsUpdate = true;
+    if (shownVersion.current !== openings.version) {
+      shownVersion.current = openings.version;
+      setUnsealed(openings.unsealed());
+    }
+  });
+
+  // A click opens a sealed gift once the pile has landed; one already open reveals its note as before
+  const onActivate = (i: number) => {
+    if (!underTree || openings.isOpen(i) || transition.layer('gifts') < 1) return false;
+    openings.open(i);
+    return true;
+  };
+
+  // The parts share the box's instances and highlight, so only the box needs picking.
+  // Gifts sit under the tree rather than hang on it, so decorate mode leaves them be.
+  const picking = useInstancePicking({
+    keyOf: (i) => `gifts:${i}`,
+    geometry: parts.box,
+    centerAt,
+    scales,
+    uniforms,
+    notes,
+    onPick,
+    onActivate,
+  });
 
-  const boxGeo = useMemo(() => new THREE.BoxGeometry(1, 0.8, 1), []);
-  const ribbonGeo = useMemo(() => new THREE.BoxGeometry(0.2, 0.82, 1.02), []);
-  const ribbonHGeo = useMemo(() => new THREE.BoxGeometry(1.02, 0.82, 0.2), []);
+  // Where a surprise climbs out: the top of the box, once it has rolled upright
+  const surpriseOrigin = useMemo(() => (index: number, out: THREE.Vector3) => {
+    const d = data[index];
+    centerAt(index, out).y += 0.5 * d.scale * d.size.y;
+    return out;
+  }, [data, centerAt]);
+  const ribbonColor = (index: number) => theme.colors.ribbons[data[index].slot];
+
+  // Colours are the only other per-instance state the CPU writes, and only while they change
+  useThemePaint(theme, data, () => {
+    const meshes = meshRefs.current;
+    if (meshes.length < GIFT_PARTS.length || meshes.some((mesh) => !mesh)) return;
+    data.forEach((d, i) => {
+      GIFT_PARTS.forEach((name, p) => {
+        const wrapping = name === 'box' || name === 'lid';
+        meshes[p]!.setColorAt(i, wrapping ? theme.colors.gifts[d.slot] : theme.colors.ribbons[d.slot]);
+      });
+    });
+    meshes.forEach((mesh) => {
+      if (mesh!.instanceColor) mesh!.instanceColor.needsUpdate = true;
+    });
+  });
 
   return (
     <group>
-      <instancedMesh ref={boxRef} args={[boxGeo, undefined, count]} castShadow receiveShadow>
-        <meshStandardMaterial roughness={0.6} metalness={0.1} />
-      </instancedMesh>
-      <instancedMesh ref={ribbonRef} args={[ribbonGeo, undefined, count]}>
-        <meshStandardMaterial roughness={0.4} metalness={0.3} /> 
-      </instancedMesh>
-      <RibbonHorizontal data={data} geometry={ribbonHGeo} treeState={treeState} />
+      {GIFT_PARTS.map((name, p) => {
+        const wrapping = name === 'box' || name === 'lid';
+        return (
+          <instancedMesh
+            key={name}
+            ref={(mesh) => (meshRefs.current[p] = mesh)}
+            args={[parts[name], undefined, data.length]}
+            castShadow={wrapping}
+            receiveShadow={wrapping}
+            frustumCulled={false}
+            customDepthMaterial={wrapping ? depthMaterial : undefined}
+            {...(name === 'box' ? picking : {})}
+          >
+            <meshStandardMaterial
+              roughness={wrapping ? 0.6 : 0.4}
+              metalness={wrapping ? 0.1 : 0.3}
+              onBeforeCompile={onBeforeCompile}
+              customProgramCacheKey={programKey}
+            />
+          </instancedMesh>
+        );
+      })}
+      <GiftSurprises
+        seed={seed}
+        openings={openings}
+        unsealed={unsealed}
+        surprises={surprises}
+        origin={surpriseOrigin}
+        color={ribbonColor}
+      />
     </group>
   );
 };
 
-const RibbonHorizontal: React.FC<{ data: any[], geometry: THREE.BufferGeometry, treeState: TreeState }> = ({ data, geometry, treeState }) => {
-    const meshRef = useRef<THREE.InstancedMesh>(null);
-    useLayoutEffect(() => {
-        if (meshRef.current) {
-            data.forEach((d, i) => {
-                tempRibbonColor.set(d.ribbonColor);
-                meshRef.current!.setColorAt(i, tempRibbonColor);
-                tempObject.position.copy(d.scatterPos);
-                tempObject.updateMatrix();
-                meshRef.current!.setMatrixAt(i, tempObject.matrix);
-            });
-            meshRef.current.instanceMatrix.needsUpdate = true;
-            if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
-        }
-    }, [data]);
-    useFrame((state, delta) => {
-        if (!meshRef.current) return;
-        data.forEach((d, i) => {
-            tempObject.position.copy(d.currentPos);
-            tempObject.rotation.copy(d.rotation);
-            tempObject.scale.copy(d.scale);
-            tempObject.updateMatrix();
-            meshRef.current!.setMatrixAt(i, tempObject.matrix);
-        });
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    });
-    return (
-        <instancedMesh ref={meshRef} args={[geometry, undefined, data.length]}>
-            <meshStandardMaterial roughness={0.4} metalness={0.3} />
-        </instancedMesh>
-    );
+// --- TINY BAUBLES COMPONENT (REPLACING BOWS) ---
+const BAUBLE_STAGGER: Stagger = { scale: 1.2, spread: 0.2 };
+
+interface BaubleInstance extends OrnamentInstance {
+  slot: number; // Entry of the bauble palette; the theme colours it
 }
 
-// --- TINY BAUBLES COMPONENT (REPLACING BOWS) ---
-const TinyBaublesGroup: React.FC<{ count: number; treeState: TreeState }> = ({ count, treeState }) => {
+const TinyBaublesGroup: React.FC<{
+  count: number;
+  formation: FormationId;
+  seed: number;
+  layout: TreeLayout;
+  formationContext: FormationContext;
+  palette: WeightedColor[];
+  transition: TransitionController;
+  notes: OrnamentNote[];
+  onPick: ((pick: OrnamentPick) => void) | null;
+  hidden: ReadonlySet<number>;
+  decorate: DecorateHandle | null;
+  wind: WindUniforms;
+  theme: ThemeFader;
+}> = ({
+    count,
+    formation,
+    seed,
+    layout,
+    formationContext,
+    palette,
+    transition,
+    notes,
+    onPick,
+    hidden,
+    decorate,
+    wind,
+    theme
+}) => {
     const meshRef = useRef<THREE.InstancedMesh>(null);
     
     const data = useMemo(() => {
-        return Array.from({ length: count }).map(() => {
+        const random = createRandom(seed, 'baubles');
+        return Array.from({ length: count }).map((): BaubleInstance => {
             // Helper that biases towards bottom
-            const tPos = getTinyBaublePoint(11, 4.6, -1);
-            const sPos = getRandomSpherePoint(20);
+            const tPos = getTinyBaublePoint(layout.baubles.height, layout.baubles.baseRadius, layout.baubles.yOffset, layout.silhouette, random);
+            const sPos = getRandomSpherePoint(20, random);
             
-            // Mix of pearl white and soft champagne
-            const color = Math.random() > 0.6 ? '#f0f0f0' : '#ffe4b5'; 
+            // Mix of pearl white and soft champagne by default
+            const slot = palette.indexOf(pickWeighted(palette, random));
             
             return {
                 treePos: tPos,
                 scatterPos: sPos,
-                currentPos: sPos.clone(),
-                scale: new THREE.Vector3(0.5, 0.5, 0.5), // Small spheres
-                rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0),
-                color: color
+                scale: 0.5, // Small spheres
+                rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+                rotationSpeed: 0,
+                slot
             };
         });
-    }, [count]);
-    
-    useLayoutEffect(() => {
-        if (meshRef.current) {
-            data.forEach((d, i) => {
-                tempColor.set(d.color);
-                meshRef.current!.setColorAt(i, tempColor);
-                tempObject.position.copy(d.scatterPos);
-                tempObject.scale.copy(d.scale);
-                tempObject.updateMatrix();
-                meshRef.current!.setMatrixAt(i, tempObject.matrix);
-            });
-            meshRef.current.instanceMatrix.needsUpdate = true;
-            if (meshRef.current.instanceColor) meshRef.current.instanceColor.needsUpdate = true;
-        }
-    }, [data]);
-
-    useFrame((state, delta) => {
-        if (!meshRef.current) return;
-        const targetIsTree = treeState === TreeState.TREE_SHAPE;
-        const lerpFactor = THREE.MathUtils.clamp(delta * 1.5, 0, 1);
-    
-        data.forEach((d, i) => {
-          const target = targetIsTree ? d.treePos : d.scatterPos;
-          d.currentPos.lerp(target, lerpFactor);
-          
-          if (!targetIsTree) {
-             d.currentPos.y += Math.sin(state.clock.elapsedTime + i) * 0.005;
-          }
-    
-          tempObject.position.copy(d.currentPos);
-          tempObject.scale.copy(d.scale);
-          tempObject.updateMatrix();
-          meshRef.current!.setMatrixAt(i, tempObject.matrix);
-        });
-        meshRef.current.instanceMatrix.needsUpdate = true;
-    });
+    }, [count, seed, layout, palette]);
+
+    const getTargets = useInstanceTargets(data, 'baubles', seed, formationContext);
 
     const geometry = useMemo(() => new THREE.SphereGeometry(0.25, 16, 16), []);
+    const geometries = useMemo(() => [geometry], [geometry]);
+
+    const { uniforms, onBeforeCompile, depthMaterial } = useInstanceShader('ornaments', BAUBLE_STAGGER, NO_SPIN, ORNAMENT_SWAY, transition, wind);
+    const { centerAt, scales } = useInstanceMorph(data, formation, getTargets, transition, BAUBLE_STAGGER, uniforms, geometries, hidden);
+    const picking = useInstancePicking({
+        keyOf: (i) => `baubles:${i}`,
+        geometry,
+        centerAt,
+        scales,
+        uniforms,
+        notes,
+        onPick,
+        decorate,
+        toDecoration: (i) => ({
+            id: createDecorationId(),
+            type: 'bauble',
+            color: `#${theme.colors.baubles[data[i].slot].getHexString()}`,
+            position: centerAt(i, tempCenter).toArray(),
+            scale: data[i].scale,
+            note: noteContent(notes, i)
+        })
+    });
+    
+    useThemePaint(theme, data, () => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        data.forEach((d, i) => mesh.setColorAt(i, theme.colors.baubles[d.slot]));
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
 
     return (
-        <instancedMesh ref={meshRef} args={[geometry, undefined, count]} castShadow receiveShadow>
-            <meshStandardMaterial roughness={0.1} metalness={0.8} />
+        <instancedMesh
+            ref={meshRef}
+            args={[geometry, undefined, count]}
+            castShadow
+            receiveShadow
+            frustumCulled={false}
+            customDepthMaterial={depthMaterial}
+            {...picking}
+        >
+            <meshStandardMaterial roughness={0.1} metalness={0.8} onBeforeCompile={onBeforeCompile} />
         </instancedMesh>
     );
 };
 
 const OrnamentGroup: React.FC<OrnamentGroupProps> = ({ 
   count, 
-  treeState, 
+  formation, 
   color, 
   type,
   weight,
   scaleMultiplier,
   roughness = 0.1,
   metalness = 0.9,
-  spiralPhase = 0
+  spiralPhase = 0,
+  seed,
+  layout,
+  formationContext,
+  transition,
+  notes,
+  onPick,
+  pickKey,
+  hidden,
+  decorate,
+  wind,
+  theme,
+  slot
 }) => {
-  const meshRef = useRef<THREE.InstancedMesh>(null);
-
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
   const data = useMemo(() => {
-    return Array.from({ length: count }).map(() => {
-      const tPos = getSpiralPoint(11, 4.8, -1, spiralPhase); 
-      const sPos = getRandomSpherePoint(20);
-      const scale = (Math.random() * 0.4 + 0.6) * scaleMultiplier;
+    const random = createRandom(seed, `ornaments:${type}:${color}`);
+    return Array.from({ length: count }).map((): OrnamentInstance => {
+      const tPos = getSpiralPoint(layout.ornaments.height, layout.ornaments.baseRadius, layout.ornaments.yOffset, spiralPhase, layout.silhouette, random); 
+      const sPos = getRandomSpherePoint(20, random);
+      const scale = (random() * 0.4 + 0.6) * scaleMultiplier;
       return {
         treePos: tPos,
         scatterPos: sPos,
-        currentPos: sPos.clone(), 
-        scale: new THREE.Vector3(scale, scale, scale),
-        rotation: new THREE.Euler(Math.random() * Math.PI, Math.random() * Math.PI, 0),
-        rotationSpeed: (Math.random() - 0.5) * 0.02
+        scale,
+        rotation: new THREE.Euler(random() * Math.PI, random() * Math.PI, 0),
+        rotationSpeed: (random() - 0.5) * 0.02
       };
     });
-  }, [count, scaleMultiplier, spiralPhase]);
-
-  useLayoutEffect(() => {
-    if (meshRef.current) {
-      data.forEach((d, i) => {
-        tempObject.position.copy(d.scatterPos);
-        tempObject.rotation.copy(d.rotation);
-        tempObject.scale.copy(d.scale);
-        tempObject.updateMatrix();
-        meshRef.current!.setMatrixAt(i, tempObject.matrix);
-      });
-      meshRef.current.instanceMatrix.needsUpdate = true;
-    }
-  }, [data]);
-
-  useFrame((state, delta) => {
-    if (!meshRef.current) return;
-    const targetIsTree = treeState === TreeState.TREE_SHAPE;
-    const lerpFactor = THREE.MathUtils.clamp(delta * (2.0 / (weight + 0.5)), 0, 1);
+  }, [count, scaleMultiplier, spiralPhase, seed, type, color, layout]);
 
-    data.forEach((d, i) => {
-      const target = targetIsTree ? d.treePos : d.scatterPos;
-      d.currentPos.lerp(target, lerpFactor);
-      if (!targetIsTree) {
-          d.currentPos.y += Math.sin(state.clock.elapsedTime + i) * 0.005;
-      }
-      d.rotation.x += d.rotationSpeed;
-      d.rotation.y += d.rotationSpeed;
-      
-      tempObject.position.copy(d.currentPos);
-      tempObject.rotation.set(d.rotation.x, d.rotation.y, d.rotation.z);
-      tempObject.scale.copy(d.scale);
-      tempObject.updateMatrix();
-      meshRef.current!.setMatrixAt(i, tempObject.matrix);
-    });
-    meshRef.current.instanceMatrix.needsUpdate = true;
-  });
+  const getTargets = useInstanceTargets(data, `ornaments:${type}:${color}`, seed, formationContext);
+  // Heavier ornaments straggle in later
+  const stagger = useMemo<Stagger>(() => ({ scale: 1 + weight, spread: weight }), [weight]);
 
   const geometry = useMemo(() => {
     if (type === 'sphere') return new THREE.SphereGeometry(0.3, 32, 32); 
     return new THREE.OctahedronGeometry(0.3, 0); 
   }, [type]);
+  const geometries = useMemo(() => [geometry], [geometry]);
+
+  const { uniforms, onBeforeCompile, depthMaterial } = useInstanceShader('ornaments', stagger, TUMBLE, ORNAMENT_SWAY, transition, wind);
+  const { centerAt, scales } = useInstanceMorph(data, formation, getTargets, transition, stagger, uniforms, geometries, hidden);
+  const picking = useInstancePicking({
+    keyOf: (i) => `${pickKey}:${i}`,
+    geometry,
+    centerAt,
+    scales,
+    uniforms,
+    notes,
+    onPick,
+    decorate,
+    toDecoration: (i) => ({
+      id: createDecorationId(),
+      type,
+      color: `#${theme.colors.ornaments[slot].getHexString()}`,
+      position: centerAt(i, tempCenter).toArray(),
+      scale: data[i].scale,
+      note: noteContent(notes, i)
+    })
+  });
+
+  useThemePaint(theme, data, () => materialRef.current?.color.copy(theme.colors.ornaments[slot]));
 
   return (
-    <instancedMesh ref={meshRef} args={[geometry, undefined, count]} castShadow receiveShadow>
+    <instancedMesh
+      args={[geometry, undefined, count]}
+      castShadow
+      receiveShadow
+      frustumCulled={false}
+      customDepthMaterial={depthMaterial}
+      {...picking}
+    >
       <meshStandardMaterial 
-        color={color} 
+        ref={materialRef}
         roughness={roughness} 
         metalness={metalness} 
         envMapIntensity={2.0} 
+        onBeforeCompile={onBeforeCompile}
       />
     </instancedMesh>
   );
 };
 
-export const Ornaments: React.FC<{ treeState: TreeState }> = ({ treeState }) => {
+interface OrnamentsProps {
+  formation: FormationId;
+  seed: number;
+  config: SceneConfig;
+  layout: TreeLayout;
+  gifts: GiftInstance[]; // Laid out once by the scene, which also settles snow on them
+  formationContext: FormationContext;
+  transition: TransitionController;
+  onPick: (pick: OrnamentPick) => void;
+  decorations: DecorationLayout;
+  decorate: DecorateControls | null; // Null outside decorate mode
+  audio: AudioUniforms;
+  wind: WindUniforms;
+  theme: ThemeFader;
+}
+
+// Instances of one generated group ("baubles", "ornaments.1", ...) that were taken off by hand
+const hiddenIn = (removed: string[], groupKey: string): ReadonlySet<number> => {
+  const hidden = new Set<number>();
+  for (const key of removed) {
+    const split = key.lastIndexOf(':');
+    if (key.slice(0, split) === groupKey) hidden.add(Number(key.slice(split + 1)));
+  }
+  return hidden;
+};
+
+export const Ornaments: React.FC<OrnamentsProps> = ({
+  formation,
+  seed,
+  config,
+  layout,
+  gifts,
+  formationContext,
+  transition,
+  onPick,
+  decorations,
+  decorate,
+  audio,
+  wind,
+  theme
+}) => {
+  const surfaceRef = useRef<THREE.Mesh>(null);
+  const handle = useDecorateHandle(decorate, surfaceRef, layout);
+  // Clicks edit instead of reveal while decorating
+  const pick = decorate ? null : onPick;
+
+  const hidden = useMemo(() => ({
+    baubles: hiddenIn(decorations.removed, 'baubles'),
+    ornaments: config.ornaments.map((_, i) => hiddenIn(decorations.removed, `ornaments.${i}`))
+  }), [decorations.removed, config.ornaments]);
+
+  const placedByType = useMemo(
+    () => DECORATION_TYPES.map((type) => ({ type, items: decorations.placed.filter((d) => d.type === type) })),
+    [decorations.placed]
+  );
+
   return (
     <group>
-      <TopStar treeState={treeState} />
-      
-      {/* Replaced Bows with Tiny Baubles (50 count, bottom heavy) */}
-      <TinyBaublesGroup count={50} treeState={treeState} />
-      
-      <OrnamentGroup 
-        count={70} 
-        treeState={treeState} 
-        color="#F3E5AB" 
-        type="sphere" 
-        weight={0.2}
-        scaleMultiplier={0.9}
-        roughness={0.05} 
-        metalness={1.0}
-        spiralPhase={0.0}
+      {decorate && <DecorateSurface controls={decorate} layout={layout} surfaceRef={surfaceRef} />}
+
+      <TopStar
+        formation={formation}
+        seed={seed}
+        formationContext={formationContext}
+        settings={config.star}
+        scale={layout.topperScale}
+        color={theme.colors.star}
+        transition={transition}
+        audio={audio}
       />
       
-      <OrnamentGroup 
-        count={40} 
-        treeState={treeState} 
-        color="#4a0404" 
-        type="sphere" 
-        weight={0.3}
-        scaleMultiplier={1.0}
-        roughness={0.1}
-        metalness={0.8}
-        spiralPhase={Math.PI}
+      {/* Replaced Bows with Tiny Baubles (bottom heavy) */}
+      <TinyBaublesGroup
+        count={config.baubles.count}
+        formation={formation}
+        seed={seed}
+        layout={layout}
+        formationContext={formationContext}
+        transition={transition}
+        palette={config.baubles.palette}
+        notes={config.baubles.notes}
+        onPick={pick}
+        hidden={hidden.baubles}
+        decorate={handle}
+        wind={wind}
+        theme={theme}
       />
+      
+      {config.ornaments.map((group: OrnamentGroupConfig, i) => (
+        <OrnamentGroup
+          key={i}
+          formation={formation}
+          seed={seed}
+          layout={layout}
+          formationContext={formationContext}
+          transition={transition}
+          onPick={pick}
+          pickKey={`ornaments.${i}`}
+          hidden={hidden.ornaments[i]}
+          decorate={handle}
+          wind={wind}
+          theme={theme}
+          slot={i}
+          {...group}
+        />
+      ))}
 
-      <OrnamentGroup 
-        count={30} 
-        treeState={treeState} 
-        color="#E5E4E2" 
-        type="diamond" 
-        weight={0.15} 
-        scaleMultiplier={0.8}
-        roughness={0.0}
-        metalness={1.0}
-        spiralPhase={Math.PI / 2}
-      />
+      {placedByType.map(({ type, items }) =>
+        items.length > 0 && (
+          <HandPlacedGroup
+            key={type}
+            type={type}
+            items={items}
+            layout={layout}
+            formation={formation}
+            seed={seed}
+            formationContext={formationContext}
+            transition={transition}
+            onPick={pick}
+            decorate={handle}
+            wind={wind}
+          />
+        )
+      )}
 
-      {/* Reduced count from 90 to 72 (approx 1/5 less) */}
-      <GiftBoxGroup count={72} treeState={treeState} />
+      <GiftBoxGroup
+        data={gifts}
+        formation={formation}
+        seed={seed}
+        formationContext={formationContext}
+        transition={transition}
+        notes={config.gifts.notes}
+        surprises={config.gifts.surprises}
+        onPick={pick}
+        wind={wind}
+        theme={theme}
+      />
     </group>
   );
-};
\ No newline at end of file
+};
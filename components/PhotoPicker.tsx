@@ -0,0 +1,36 @@
+import React from 'react';
+import { Messages } from '../utils/i18n';
+
+interface PhotoPickerProps {
+  name: string | null; // File name of the current photo
+  busy: boolean;
+  failed: boolean;
+  onPick: (file: File) => void;
+  strings: Messages;
+}
+
+export const PhotoPicker: React.FC<PhotoPickerProps> = ({ name, busy, failed, onPick, strings }) => {
+  const pick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onPick(file);
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-1 pointer-events-auto">
+      <div className="flex items-center gap-3">
+        <label
+          className={`px-4 py-1.5 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-[10px] tracking-widest uppercase cursor-pointer ${busy ? 'opacity-40 pointer-events-none' : ''}`}
+        >
+          {strings.choosePhoto}
+          <input type="file" accept="image/*" className="hidden" onChange={pick} />
+        </label>
+        {name && <span className="max-w-[12rem] truncate text-amber-100/60 text-xs font-serif">{name}</span>}
+      </div>
+      <p className={`text-[10px] tracking-widest ${failed ? 'text-red-300/70' : 'text-amber-100/30'}`}>
+        {failed ? strings.photoError : strings.photoPrivacy}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Messages } from '../utils/i18n';
+import { POSTER_LONG_SIDE, POSTER_SIZES, PosterOptions, PosterSize, PosterState } from '../utils/poster';
+
+interface PosterPanelProps {
+  initial: PosterOptions;
+  state: PosterState;
+  onExport: (options: PosterOptions) => void;
+  onClose: () => void;
+  strings: Messages;
+}
+
+const buttonClass =
+  'px-3 py-1 rounded-full border text-[10px] tracking-widest uppercase transition-colors';
+
+export const PosterPanel: React.FC<PosterPanelProps> = ({ initial, state, onExport, onClose, strings }) => {
+  const t = strings.poster;
+  const [size, setSize] = useState<PosterSize>(initial.size);
+  const [grain, setGrain] = useState(initial.grain);
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto"
+      onClick={state.busy ? undefined : onClose}
+    >
+      <div
+        className="w-full max-w-md bg-black/70 border border-amber-500/30 rounded-2xl p-6 shadow-[0_0_30px_rgba(218,165,32,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-amber-100 font-serif text-xl tracking-wider mb-1">{t.title}</h2>
+        <p className="text-amber-100/30 text-[10px] tracking-widest mb-4">{t.hint}</p>
+
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-amber-100/40 text-[10px] tracking-widest uppercase mr-2">{t.size}</span>
+          {POSTER_SIZES.map((id) => (
+            <button
+              key={id}
+              onClick={() => setSize(id)}
+              title={`${POSTER_LONG_SIDE[id]} px`}
+              className={`${buttonClass} ${
+                id === size ? 'border-amber-400/70 text-amber-100' : 'border-amber-500/20 text-amber-100/40 hover:text-amber-100/80'
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-2 text-amber-100/70 text-xs cursor-pointer">
+          <input type="checkbox" checked={grain} onChange={(e) => setGrain(e.target.checked)} className="mt-0.5 accent-amber-400" />
+          <span>
+            {t.grain}
+            <span className="block text-amber-100/30 text-[10px] tracking-widest mt-0.5">{t.grainHint}</span>
+          </span>
+        </label>
+
+        {state.error && (
+          <p className="mt-4 text-xs text-red-300/80" role="alert">
+            {t.failed}
+          </p>
+        )}
+
+        <div className="mt-5 flex justify-between items-center gap-3">
+          <button
+            onClick={onClose}
+            disabled={state.busy}
+            className="text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors disabled:opacity-30"
+          >
+            {t.close}
+          </button>
+          <button
+            onClick={() => onExport({ size, grain })}
+            disabled={state.busy}
+            className="px-4 py-2 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-xs tracking-widest uppercase disabled:opacity-50"
+          >
+            {state.busy ? t.saving : t.save}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
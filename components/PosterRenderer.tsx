@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import * as THREE from 'three';
+import { useThree } from '@react-three/fiber';
+import { EffectComposer } from 'postprocessing';
+import { PosterExporter } from '../utils/poster';
+
+interface PosterRendererProps {
+  poster: PosterExporter;
+  pixelRatio: THREE.IUniform<number>; // The point layers' shared sprite scale
+  composer: React.RefObject<EffectComposer>; // Empty when there are no effects
+}
+
+// Largest render at once. Bigger posters are split into tiles, which also
+// keeps the composer's buffers to a size the GPU can hold.
+const MAX_TILE = 8192;
+// Rendered around each tile and cropped away, so bloom near a seam sees its neighbours
+const TILE_MARGIN = 64;
+
+// Renders the current view offscreen for the poster exporter: the drawing
+// buffer is resized to each tile in turn, the camera is offset to that part
+// of the frame, and the tile is copied out before anything else can draw.
+export const PosterRenderer: React.FC<PosterRendererProps> = ({ poster, pixelRatio, composer }) => {
+  const { gl, scene, camera, size } = useThree();
+
+  useEffect(
+    () =>
+      poster.attach((longSide) => {
+        const aspect = size.width / size.height;
+        const width = aspect >= 1 ? longSide : Math.round(longSide * aspect);
+        const height = aspect >= 1 ? Math.round(longSide / aspect) : longSide;
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        // Left for the exporter to report
+        if (!ctx) return { canvas, scale: height / size.height };
+
+        const limit = Math.min(gl.capabilities.maxTextureSize, MAX_TILE);
+        const margin = width > limit || height > limit ? TILE_MARGIN : 0;
+        const cols = Math.ceil(width / (limit - margin * 2));
+        const rows = Math.ceil(height / (limit - margin * 2));
+        const tileWidth = Math.ceil(width / cols);
+        const tileHeight = Math.ceil(height / rows);
+
+        const view = camera as THREE.PerspectiveCamera;
+        const effects = composer.current;
+        const savedSize = gl.getSize(new THREE.Vector2());
+        const savedRatio = gl.getPixelRatio();
+        const savedPointRatio = pixelRatio.value;
+        const savedSamples = effects?.multisampling ?? 0;
+
+        // Sprites keep their size relative to the frame
+        pixelRatio.value = height / size.height;
+        gl.setPixelRatio(1);
+        gl.setSize(tileWidth + margin * 2, tileHeight + margin * 2, false);
+        if (effects) {
+          // Print resolution does the antialiasing; multisampled buffers this size may not fit
+          effects.multisampling = 0;
+          effects.setSize(tileWidth + margin * 2, tileHeight + margin * 2, false);
+        }
+
+        try {
+          for (let row = 0; row < rows; row++) {
+            for (let col = 0; col < cols; col++) {
+              const x = col * tileWidth;
+              const y = row * tileHeight;
+              view.setViewOffset(width, height, x - margin, y - margin, tileWidth + margin * 2, tileHeight + margin * 2);
+              if (effects) effects.render();
+              else gl.render(scene, view);
+              // The drawing buffer still holds the tile until control returns to the browser
+              const w = Math.min(tileWidth, width - x);
+              const h = Math.min(tileHeight, height - y);
+              ctx.drawImage(gl.domElement, margin, margin, w, h, x, y, w, h);
+            }
+          }
+        } finally {
+          view.clearViewOffset();
+          pixelRatio.value = savedPointRatio;
+          gl.setPixelRatio(savedRatio);
+          gl.setSize(savedSize.x, savedSize.y, false);
+          if (effects) {
+            effects.multisampling = savedSamples;
+            effects.setSize(savedSize.x, savedSize.y, false);
+          }
+        }
+        return { canvas, scale: height / size.height };
+      }),
+    [poster, gl, scene, camera, size, pixelRatio, composer]
+  );
+
+  return null;
+};
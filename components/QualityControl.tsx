@@ -0,0 +1,43 @@
+import React from 'react';
+import { Messages } from '../utils/i18n';
+import { QUALITY_TIERS, QualityState, QualityTier } from '../utils/quality';
+
+interface QualityControlProps {
+  state: QualityState;
+  onOverride: (tier: QualityTier | null) => void; // Null returns to automatic
+  strings: Messages;
+}
+
+const AUTO = 'auto';
+
+// The indicator always shows the tier actually in use; the picker only chooses who decides it
+export const QualityControl: React.FC<QualityControlProps> = ({ state, onOverride, strings }) => {
+  const pick = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    onOverride(value === AUTO ? null : (value as QualityTier));
+  };
+
+  return (
+    <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+      <span className="text-amber-100/40">{strings.quality.label}</span>
+      <span className="text-amber-100/70" aria-live="polite">
+        {strings.quality.tiers[state.tier]}
+      </span>
+      <select
+        value={state.auto ? AUTO : state.tier}
+        onChange={pick}
+        aria-label={strings.quality.label}
+        className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+      >
+        <option value={AUTO} className="bg-black">
+          {strings.quality.auto}
+        </option>
+        {QUALITY_TIERS.map((tier) => (
+          <option key={tier} value={tier} className="bg-black">
+            {strings.quality.tiers[tier]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Messages, formatMessage } from '../utils/i18n';
+import { RECORDING_ASPECTS, RecordingAspect, RecordingOptions, RecordingState, SceneRecorder } from '../utils/recorder';
+
+interface RecordPanelProps {
+  initial: RecordingOptions;
+  error: RecordingState['error'];
+  onStart: (options: RecordingOptions) => void;
+  onClose: () => void;
+  strings: Messages;
+}
+
+const buttonClass =
+  'px-3 py-1 rounded-full border text-[10px] tracking-widest uppercase transition-colors';
+
+export const RecordPanel: React.FC<RecordPanelProps> = ({ initial, error, onStart, onClose, strings }) => {
+  const t = strings.record;
+  const [aspect, setAspect] = useState<RecordingAspect>(initial.aspect);
+  const [fixedStep, setFixedStep] = useState(initial.fixedStep);
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-black/70 border border-amber-500/30 rounded-2xl p-6 shadow-[0_0_30px_rgba(218,165,32,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-amber-100 font-serif text-xl tracking-wider mb-1">{t.title}</h2>
+        <p className="text-amber-100/30 text-[10px] tracking-widest mb-4">{t.script}</p>
+
+        <div className="flex items-center gap-2 mb-4">
+          <span className="text-amber-100/40 text-[10px] tracking-widest uppercase mr-2">{t.aspect}</span>
+          {RECORDING_ASPECTS.map((id) => (
+            <button
+              key={id}
+              onClick={() => setAspect(id)}
+              className={`${buttonClass} ${
+                id === aspect ? 'border-amber-400/70 text-amber-100' : 'border-amber-500/20 text-amber-100/40 hover:text-amber-100/80'
+              }`}
+            >
+              {id}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-start gap-2 text-amber-100/70 text-xs cursor-pointer">
+          <input type="checkbox" checked={fixedStep} onChange={(e) => setFixedStep(e.target.checked)} className="mt-0.5 accent-amber-400" />
+          <span>
+            {t.fixedStep}
+            <span className="block text-amber-100/30 text-[10px] tracking-widest mt-0.5">{t.fixedStepHint}</span>
+          </span>
+        </label>
+
+        {error && (
+          <p className="mt-4 text-xs text-red-300/80" role="alert">
+            {error === 'unsupported' ? t.unsupported : t.failed}
+          </p>
+        )}
+
+        <div className="mt-5 flex justify-between items-center gap-3">
+          <button
+            onClick={onClose}
+            className="text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+          >
+            {t.close}
+          </button>
+          <button
+            onClick={() => onStart({ aspect, fixedStep })}
+            className="px-4 py-2 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-xs tracking-widest uppercase"
+          >
+            {t.start}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface RecordingBarProps {
+  recorder: SceneRecorder;
+  strings: Messages;
+}
+
+// Shown in place of the controls while recording; re-renders on its own as the recording runs
+export const RecordingBar: React.FC<RecordingBarProps> = ({ recorder, strings }) => {
+  const [state, setState] = useState(recorder.state);
+
+  useEffect(() => recorder.subscribe(setState), [recorder]);
+
+  return (
+    <div className="flex items-center gap-4 bg-black/40 backdrop-blur-md border border-red-400/30 rounded-full px-6 py-3 pointer-events-auto">
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+      <span className="text-amber-100/80 text-[10px] tracking-widest uppercase" aria-live="polite">
+        {state.status === 'preparing'
+          ? strings.record.preparing
+          : formatMessage(strings.record.recording, { percent: String(Math.round(state.progress * 100)) })}
+      </span>
+      <button
+        onClick={() => recorder.cancel()}
+        className="text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+      >
+        {strings.record.cancel}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import * as THREE from 'three';
+import { addAfterEffect, useFrame, useThree } from '@react-three/fiber';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { FormationId } from '../types';
+import { TransitionController } from '../utils/transition';
+import { cameraAt, RECORDING_FPS, RECORDING_SCRIPT, SceneRecorder } from '../utils/recorder';
+
+interface RecordingDirectorProps {
+  recorder: SceneRecorder;
+  transition: TransitionController;
+  onFormation: (formation: FormationId) => void;
+}
+
+const ORIGIN = new THREE.Vector3();
+
+// Runs the recording script inside the canvas: takes the camera from the
+// orbit controls, sets the opening shot, cues the assembly, and passes every
+// rendered frame to the recorder. With a fixed step the canvas stops its own
+// render loop (see Experience) and the director advances the scene one exact
+// frame period at a time.
+export const RecordingDirector: React.FC<RecordingDirectorProps> = ({ recorder, transition, onFormation }) => {
+  const { camera, gl, advance } = useThree();
+  const controls = useThree((s) => s.controls) as OrbitControlsImpl | null;
+  const run = useRef({ started: false, assembled: false, time: 0 });
+
+  useEffect(() => {
+    const saved = camera.position.clone();
+    if (controls) controls.enabled = false;
+    onFormation('scattered');
+
+    // The WebGL canvas still holds the frame at this point
+    const unsubscribe = addAfterEffect(() => {
+      if (run.current.started) recorder.frame(gl.domElement, run.current.time);
+    });
+
+    let stopped = false;
+    if (recorder.options.fixedStep) {
+      // Paced to real time when rendering keeps up; slower frames just stretch
+      const start = performance.now();
+      const pace = async () => {
+        for (let frame = 1; !stopped; frame++) {
+          advance(frame / RECORDING_FPS);
+          const due = start + (frame * 1000) / RECORDING_FPS;
+          // Also lets React commit formation changes between frames
+          await new Promise((resolve) => setTimeout(resolve, Math.max(0, due - performance.now())));
+        }
+      };
+      pace();
+    }
+
+    return () => {
+      stopped = true;
+      unsubscribe();
+      camera.position.copy(saved);
+      camera.lookAt(ORIGIN);
+      if (controls) controls.enabled = true;
+    };
+  }, []);
+
+  useFrame((_, delta) => {
+    const state = run.current;
+    if (!state.started) {
+      // Opens on a settled cloud rather than on whatever was on screen
+      if (transition.formation !== 'scattered') return;
+      transition.seek(1);
+      state.started = true;
+      recorder.begin();
+    } else {
+      state.time += delta;
+    }
+
+    if (state.time >= RECORDING_SCRIPT.end) {
+      recorder.finish();
+      return;
+    }
+    if (!state.assembled && state.time >= RECORDING_SCRIPT.assembleAt) {
+      state.assembled = true;
+      onFormation('tree');
+    }
+    cameraAt(state.time, camera.position);
+    camera.lookAt(ORIGIN);
+  });
+
+  return null;
+};
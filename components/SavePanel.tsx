@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Locale, Messages, formatMessage } from '../utils/i18n';
+import {
+  downloadTreeDocument,
+  readSlot,
+  readTreeDocumentFile,
+  SAVE_SLOTS,
+  TreeDocument,
+  TreeDocumentError,
+  writeSlot,
+} from '../utils/document';
+
+interface SavePanelProps {
+  snapshot: () => TreeDocument; // The tree as it is now
+  fileName: string;
+  onLoad: (doc: TreeDocument) => void;
+  onClose: () => void;
+  locale: Locale;
+  strings: Messages;
+}
+
+const buttonClass =
+  'px-3 py-1 rounded-full border border-amber-500/30 text-amber-100 text-[10px] tracking-widest uppercase hover:border-amber-400/80 transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+const formatSavedAt = (savedAt: string, locale: Locale) => {
+  const date = new Date(savedAt);
+  return Number.isNaN(date.getTime()) ? '' : date.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+export const SavePanel: React.FC<SavePanelProps> = ({ snapshot, fileName, onLoad, onClose, locale, strings }) => {
+  const t = strings.saves;
+  const [slots, setSlots] = useState(() => SAVE_SLOTS.map(readSlot));
+  const [status, setStatus] = useState<{ error: boolean; text: string } | null>(null);
+
+  const save = (index: number) => {
+    const doc = snapshot();
+    if (writeSlot(SAVE_SLOTS[index], doc)) {
+      setSlots((prev) => prev.map((slot, i) => (i === index ? doc : slot)));
+      setStatus(null);
+    } else {
+      setStatus({ error: true, text: t.storageError });
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onLoad(await readTreeDocumentFile(file));
+    } catch (err) {
+      const detail = err instanceof TreeDocumentError ? err.message : String(err);
+      setStatus({ error: true, text: `${t.importError} ${detail}` });
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-black/60 backdrop-blur-sm p-6 pointer-events-auto"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md bg-black/70 border border-amber-500/30 rounded-2xl p-6 shadow-[0_0_30px_rgba(218,165,32,0.2)]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-amber-100 font-serif text-xl tracking-wider mb-1">{t.title}</h2>
+        <p className="text-amber-100/30 text-[10px] tracking-widest mb-4">{t.autosaveNote}</p>
+
+        <ul className="flex flex-col gap-2">
+          {slots.map((doc, i) => (
+            <li key={SAVE_SLOTS[i]} className="flex items-center justify-between gap-3 border-b border-amber-500/10 pb-2">
+              <div className="flex flex-col">
+                <span className="text-amber-100/80 text-sm font-serif">{formatMessage(t.slot, { n: SAVE_SLOTS[i] })}</span>
+                <span className="text-amber-100/30 text-[10px] tracking-widest">
+                  {doc ? formatSavedAt(doc.savedAt, locale) : t.empty}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => save(i)} className={buttonClass}>
+                  {t.save}
+                </button>
+                <button onClick={() => doc && onLoad(doc)} disabled={!doc} className={buttonClass}>
+                  {t.load}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {status && (
+          <p className={`mt-4 text-xs ${status.error ? 'text-red-300/80' : 'text-amber-100/60'}`} role="alert">
+            {status.text}
+          </p>
+        )}
+
+        <div className="mt-5 flex justify-between items-center gap-3">
+          <button
+            onClick={onClose}
+            className="text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+          >
+            {t.close}
+          </button>
+          <div className="flex gap-3">
+            <label className={`${buttonClass} cursor-pointer py-2 px-4 text-xs`}>
+              {t.import}
+              <input type="file" accept="application/json,.json" className="hidden" onChange={importFile} />
+            </label>
+            <button
+              onClick={() => downloadTreeDocument(snapshot(), fileName)}
+              className="px-4 py-2 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-xs tracking-widest uppercase"
+            >
+              {t.export}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useLayoutEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Environment } from '@react-three/drei';
+import * as THREE from 'three';
+import { LightingMode } from '../types';
+import { LightingBlend, LightLook, localHour } from '../utils/lighting';
+
+interface SceneLightingProps {
+  mode: LightingMode;
+  background: string; // The configured background, for presets that keep it
+  shadowMapSize: number;
+  environmentIntensity: number; // From the quality tier; presets scale it
+}
+
+const applyLight = (light: THREE.Light | null, look: LightLook) => {
+  if (!light) return;
+  light.color.copy(look.color);
+  light.intensity = look.intensity;
+  light.position.copy(look.position);
+};
+
+// The scene's lights, environment, exposure and background, all following
+// the current lighting look as it cross-fades
+export const SceneLighting: React.FC<SceneLightingProps> = ({ mode, background, shadowMapSize, environmentIntensity }) => {
+  const [blend] = useState(() => new LightingBlend());
+  const ambientRef = useRef<THREE.AmbientLight>(null);
+  const keyRef = useRef<THREE.SpotLight>(null);
+  const fillRef = useRef<THREE.PointLight>(null);
+  const rimRef = useRef<THREE.SpotLight>(null);
+  const backgroundRef = useRef<THREE.Color>(null);
+
+  useLayoutEffect(() => blend.configure(mode, background), [blend, mode, background]);
+
+  useFrame(({ gl, scene }, delta) => {
+    blend.tick(delta, localHour(new Date()));
+    const look = blend.current;
+    applyLight(ambientRef.current, look.ambient);
+    applyLight(keyRef.current, look.key);
+    applyLight(fillRef.current, look.fill);
+    applyLight(rimRef.current, look.rim);
+    backgroundRef.current?.copy(look.background);
+    gl.toneMappingExposure = look.exposure;
+    scene.environmentIntensity = environmentIntensity * look.environment;
+  }, -1);
+
+  return (
+    <>
+      <color ref={backgroundRef} attach="background" args={[background]} />
+
+      {/* Ambient, so nothing falls fully black */}
+      <ambientLight ref={ambientRef} />
+
+      {/* Key light; keyed by shadow resolution, since a live shadow map can't be resized in place */}
+      <spotLight
+        ref={keyRef}
+        key={shadowMapSize}
+        angle={0.25}
+        penumbra={0.2}
+        castShadow
+        shadow-mapSize={[shadowMapSize, shadowMapSize]}
+        shadow-bias={-0.0001}
+      />
+
+      {/* Fill light for the shadow side */}
+      <pointLight ref={fillRef} />
+
+      {/* Rim light, to separate the tree from the background */}
+      <spotLight ref={rimRef} angle={0.5} />
+
+      <Environment preset="city" environmentIntensity={environmentIntensity} />
+    </>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { SilhouetteId } from '../types';
+import { Messages } from '../utils/i18n';
+import { SILHOUETTES } from '../utils/silhouettes';
+
+interface SilhouetteControlProps {
+  silhouette: SilhouetteId;
+  onChange: (silhouette: SilhouetteId) => void;
+  strings: Messages;
+}
+
+// Picks the tree's shape; every layer is regrown onto the new branches
+export const SilhouetteControl: React.FC<SilhouetteControlProps> = ({ silhouette, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.silhouette.label}</span>
+    <select
+      value={silhouette}
+      onChange={(e) => onChange(e.target.value as SilhouetteId)}
+      aria-label={strings.silhouette.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {SILHOUETTES.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.silhouette.shapes[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
@@ -1,40 +1,34 @@
 import React, { useMemo, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { TreeState } from '../types';
-import { easing } from 'maath';
+import { identityKey } from '../utils/keys';
+import { TransitionController } from '../utils/transition';
+import { isAssembled } from '../utils/formations';
+import { TreeLayout } from '../utils/sceneConfig';
+import { MAX_SETTLED, SnowColliders, SnowField, SnowGift } from '../utils/snow';
+import { WindUniforms } from '../utils/wind';
 
 const snowVertexShader = `
-  uniform float uTime;
-  uniform float uHeight;
-  uniform float uSpeed;
-  attribute float aRandom;
+  uniform float uPixelRatio;
   attribute float aSize;
-  
+  attribute float aAlpha;
+
   varying float vAlpha;
 
   void main() {
-    vec3 pos = position;
-    
-    // Falling logic
-    float fallOffset = uTime * uSpeed * (0.5 + aRandom);
-    pos.y = mod(pos.y - fallOffset, uHeight) - (uHeight * 0.5);
-    
-    // Gentle swaying logic
-    pos.x += sin(uTime * 0.5 + aRandom * 10.0) * 0.5;
-    pos.z += cos(uTime * 0.3 + aRandom * 10.0) * 0.5;
-
-    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    vAlpha = aAlpha;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
     gl_Position = projectionMatrix * mvPosition;
 
     // Size attenuation - reduced multiplier for smaller snow
-    gl_PointSize = aSize * (100.0 / -mvPosition.z);
+    gl_PointSize = aSize * uPixelRatio * (100.0 / -mvPosition.z);
   }
 `;
 
 const snowFragmentShader = `
   uniform float uOpacity;
-  
+  varying float vAlpha;
+
   void main() {
     // Circular particle
     vec2 center = gl_PointCoord - 0.5;
@@ -42,91 +36,192 @@ const snowFragmentShader = `
     if (dist > 0.5) discard;
 
     // Soft edge
-    float alpha = (1.0 - smoothstep(0.3, 0.5, dist)) * uOpacity;
-    
+    float alpha = (1.0 - smoothstep(0.3, 0.5, dist)) * uOpacity * vAlpha;
+
     // Snow is white
     gl_FragColor = vec4(1.0, 1.0, 1.0, alpha);
   }
 `;
 
+// The ground layer spreads this far past the gift pile, and grows this deep
+const GROUND_SPREAD = 2;
+const GROUND_DEPTH = 0.4;
+// A full cap on a gift, as a share of its width
+const CAP_DEPTH = 0.35;
+const SETTLED_SIZE = 1.2;
+// Long frames would let flakes step through what they should land on
+const MAX_STEP = 0.1;
+
 interface SnowProps {
-  treeState: TreeState;
+  seed: number;
+  count: number;
+  transition: TransitionController;
+  particleScale?: number; // Share of the particles drawn
+  pixelRatio: THREE.IUniform<number>;
+  layout: TreeLayout;
+  gifts: SnowGift[]; // Where the gifts rest under the tree
+  wind: WindUniforms;
 }
 
-export const Snow: React.FC<SnowProps> = ({ treeState }) => {
+const tempMatrix = new THREE.Matrix4();
+const tempPosition = new THREE.Vector3();
+const tempScale = new THREE.Vector3();
+const IDENTITY = new THREE.Quaternion();
+
+export const Snow: React.FC<SnowProps> = ({ seed, count, transition, particleScale = 1, pixelRatio, layout, gifts, wind }) => {
   const meshRef = useRef<THREE.Points>(null);
+  const settledRef = useRef<THREE.Points>(null);
+  const groundRef = useRef<THREE.Mesh>(null);
+  const groundMaterialRef = useRef<THREE.MeshStandardMaterial>(null);
+  const capsRef = useRef<THREE.InstancedMesh>(null);
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
-  
-  // Drastically reduced count for subtle ambience
-  const count = 300; 
-  const height = 25;
-
-  const { positions, randoms, sizes } = useMemo(() => {
-    const pos = new Float32Array(count * 3);
-    const rnd = new Float32Array(count);
-    const sz = new Float32Array(count);
-
-    for (let i = 0; i < count; i++) {
-      pos[i * 3] = (Math.random() - 0.5) * 25; // Wider x spread
-      pos[i * 3 + 1] = (Math.random() - 0.5) * height; 
-      pos[i * 3 + 2] = (Math.random() - 0.5) * 25; // Wider z spread
-
-      rnd[i] = Math.random();
-      // Size: 0.5 to 1.5 (Much smaller than foliage which is ~1.0-3.0 range visually)
-      sz[i] = 0.5 + Math.random(); 
-    }
 
-    return { positions: pos, randoms: rnd, sizes: sz };
-  }, []);
+  const field = useMemo(() => new SnowField(count, gifts.length, seed), [count, gifts.length, seed]);
+  // Falling flakes are all fully there; settled ones fade on their own
+  const { alphas, settledSizes } = useMemo(
+    () => ({ alphas: new Float32Array(count).fill(1), settledSizes: new Float32Array(MAX_SETTLED).fill(SETTLED_SIZE) }),
+    [count]
+  );
+
+  const colliders = useMemo<SnowColliders>(
+    () => ({
+      ground: layout.foliage.yOffset - layout.foliage.height / 2,
+      groundRadius: layout.gifts.baseRadius + GROUND_SPREAD,
+      cone: layout.foliage,
+      silhouette: layout.silhouette,
+      gifts,
+    }),
+    [layout, gifts]
+  );
 
   const uniforms = useMemo(() => ({
-    uTime: { value: 0 },
-    uHeight: { value: height },
-    uSpeed: { value: 1.5 }, // Slower fall
     uOpacity: { value: 0 },
-  }), [height]);
+    uPixelRatio: pixelRatio,
+  }), [pixelRatio]);
+  const settledUniforms = useMemo(() => ({
+    uOpacity: { value: 0.8 },
+    uPixelRatio: pixelRatio,
+  }), [pixelRatio]);
+
+  const capGeometry = useMemo(() => new THREE.SphereGeometry(1, 16, 8, 0, Math.PI * 2, 0, Math.PI / 2), []);
+  const groundGeometry = useMemo(() => new THREE.CylinderGeometry(1, 1, 1, 64), []);
+
+  useFrame((_, delta) => {
+    // Needles are in place; snow only sticks to a tree that is all there
+    const standing = transition.formation === 'tree' && transition.assembled('foliage') >= 1;
+    const accumulating = isAssembled(transition.formation) && transition.assembled('snow') > 0.5;
+    field.step(Math.min(delta, MAX_STEP), colliders, wind, standing, accumulating);
 
-  useFrame((state, delta) => {
     if (shaderRef.current) {
-      shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
-      
-      // Only show snow when tree is formed, max opacity reduced to 0.4 for subtlety
-      const targetOpacity = treeState === TreeState.TREE_SHAPE ? 0.4 : 0.0;
-      easing.damp(shaderRef.current.uniforms.uOpacity, 'value', targetOpacity, 2.0, delta);
+      // Only show snow once a shape is formed, max opacity reduced to 0.4 for subtlety
+      shaderRef.current.uniforms.uOpacity.value = 0.4 * transition.assembled('snow');
+    }
+    const falling = meshRef.current?.geometry;
+    if (falling) {
+      falling.attributes.position.needsUpdate = true;
+      falling.setDrawRange(0, Math.ceil(count * particleScale));
+    }
+    const settled = settledRef.current?.geometry;
+    if (settled) {
+      settled.attributes.position.needsUpdate = true;
+      settled.attributes.aAlpha.needsUpdate = true;
+    }
+
+    if (groundRef.current && groundMaterialRef.current) {
+      const depth = Math.max(field.ground * GROUND_DEPTH, 1e-3);
+      groundRef.current.visible = field.ground > 0;
+      groundRef.current.scale.set(colliders.groundRadius, depth, colliders.groundRadius);
+      groundRef.current.position.y = colliders.ground + depth / 2;
+      // A dusting before it's a layer
+      groundMaterialRef.current.opacity = Math.min(1, field.ground * 4) * 0.9;
+    }
+
+    const caps = capsRef.current;
+    if (caps) {
+      gifts.forEach((gift, g) => {
+        const width = gift.radius * 1.1;
+        tempPosition.set(gift.x, gift.top, gift.z);
+        tempScale.set(width, field.caps[g] * CAP_DEPTH * width, width);
+        caps.setMatrixAt(g, tempMatrix.compose(tempPosition, IDENTITY, tempScale));
+      });
+      caps.instanceMatrix.needsUpdate = true;
     }
   });
 
   return (
-    <points ref={meshRef}>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={positions.length / 3}
-          array={positions}
-          itemSize={3}
-        />
-        <bufferAttribute
-          attach="attributes-aRandom"
-          count={randoms.length}
-          array={randoms}
-          itemSize={1}
+    <group>
+      <points ref={meshRef} frustumCulled={false}>
+        <bufferGeometry key={identityKey(field)}>
+          <bufferAttribute
+            attach="attributes-position"
+            count={field.positions.length / 3}
+            array={field.positions}
+            itemSize={3}
+            usage={THREE.DynamicDrawUsage}
+          />
+          <bufferAttribute
+            attach="attributes-aSize"
+            count={field.sizes.length}
+            array={field.sizes}
+            itemSize={1}
+          />
+          <bufferAttribute
+            attach="attributes-aAlpha"
+            count={alphas.length}
+            array={alphas}
+            itemSize={1}
+          />
+        </bufferGeometry>
+        <shaderMaterial
+          ref={shaderRef}
+          vertexShader={snowVertexShader}
+          fragmentShader={snowFragmentShader}
+          uniforms={uniforms}
+          transparent
+          depthWrite={false}
+          blending={THREE.AdditiveBlending}
         />
-        <bufferAttribute
-          attach="attributes-aSize"
-          count={sizes.length}
-          array={sizes}
-          itemSize={1}
+      </points>
+
+      {/* Frosting on the branches, with whatever is still landing on the ground and gifts */}
+      <points ref={settledRef} frustumCulled={false}>
+        <bufferGeometry key={identityKey(field)}>
+          <bufferAttribute
+            attach="attributes-position"
+            count={MAX_SETTLED}
+            array={field.settled}
+            itemSize={3}
+            usage={THREE.DynamicDrawUsage}
+          />
+          <bufferAttribute
+            attach="attributes-aSize"
+            count={MAX_SETTLED}
+            array={settledSizes}
+            itemSize={1}
+          />
+          <bufferAttribute
+            attach="attributes-aAlpha"
+            count={MAX_SETTLED}
+            array={field.settledAlpha}
+            itemSize={1}
+            usage={THREE.DynamicDrawUsage}
+          />
+        </bufferGeometry>
+        <shaderMaterial
+          vertexShader={snowVertexShader}
+          fragmentShader={snowFragmentShader}
+          uniforms={settledUniforms}
+          transparent
+          depthWrite={false}
         />
-      </bufferGeometry>
-      <shaderMaterial
-        ref={shaderRef}
-        vertexShader={snowVertexShader}
-        fragmentShader={snowFragmentShader}
-        uniforms={uniforms}
-        transparent
-        depthWrite={false}
-        blending={THREE.AdditiveBlending}
-      />
-    </points>
+      </points>
+
+      <mesh ref={groundRef} geometry={groundGeometry} visible={false} receiveShadow>
+        <meshStandardMaterial ref={groundMaterialRef} color="#f4f8ff" roughness={1} transparent opacity={0} />
+      </mesh>
+      <instancedMesh key={gifts.length} ref={capsRef} args={[capGeometry, undefined, gifts.length]} frustumCulled={false}>
+        <meshStandardMaterial color="#f4f8ff" roughness={1} />
+      </instancedMesh>
+    </group>
   );
-};
\ No newline at end of file
+};
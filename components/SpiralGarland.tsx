@@ -1,38 +1,47 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
-import { easing } from 'maath';
-import { TreeState } from '../types';
+import { FormationId, SceneConfig } from '../types';
 import { getRandomSpherePoint } from '../utils/math';
+import { TreeLayout } from '../utils/sceneConfig';
+import { FormationContext, useFormationTargets } from '../utils/formations';
+import { Stagger, usePointMorph } from '../utils/morph';
+import { TransitionController } from '../utils/transition';
+import { createRandom } from '../utils/random';
+import { identityKey } from '../utils/keys';
+import { LightPatternEngine, lightPatternShader } from '../utils/lightPatterns';
+import { AudioUniforms } from '../utils/audio';
+import { ThemeUniforms } from '../utils/themes';
 
 const spiralVertexShader = `
+  ${lightPatternShader}
+
   uniform float uTime;
-  uniform float uProgress;
+  uniform float uProgress; // Eased layer progress: 0.0 = previous formation, 1.0 = target formation
+  uniform float uAssembled; // 0.0 = floating cloud, 1.0 = holding a shape
   uniform float uPixelRatio;
+  uniform float uAudioBeat; // Music: bulbs flare on each beat
+  uniform vec3 uWireColor;
   
-  attribute vec3 aScatterPos;
-  attribute vec3 aTreePos;
+  attribute vec3 aFromPos;
+  attribute vec3 aToPos;
   attribute float aSize;
   attribute float aRandom;
-  attribute vec3 aColor;
+  attribute float aCurve; // Bulbs: position along the wire; wire particles: -1.0
+  attribute float aSlot; // Bulbs: order along the wire
   
   varying float vAlpha;
   varying vec3 vColor;
   
-  float easeInOutCubic(float x) {
-    return x < 0.5 ? 4.0 * x * x * x : 1.0 - pow(-2.0 * x + 2.0, 3.0) / 2.0;
-  }
-
   void main() {
-    float t = easeInOutCubic(uProgress);
     // Add randomness to the transition timing per particle
-    float delayedT = clamp(t * 1.5 - (aRandom * 0.5), 0.0, 1.0);
+    float delayedT = clamp(uProgress * 1.5 - (aRandom * 0.5), 0.0, 1.0);
 
-    vec3 pos = mix(aScatterPos, aTreePos, delayedT);
+    vec3 pos = mix(aFromPos, aToPos, delayedT);
 
     // Add some organic movement when scattered
-    if (uProgress < 0.95) {
-       pos.y += sin(uTime + aRandom * 10.0) * 0.1 * (1.0 - uProgress);
+    if (uAssembled < 0.95) {
+       pos.y += sin(uTime + aRandom * 10.0) * 0.1 * (1.0 - uAssembled);
     }
 
     vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
@@ -41,8 +50,9 @@ const spiralVertexShader = `
     gl_PointSize = aSize * uPixelRatio * (100.0 / -mvPosition.z);
     
     // Fade out slightly when scattered
-    vAlpha = 0.4 + 0.6 * uProgress;
-    vColor = aColor;
+    vAlpha = 0.4 + 0.6 * uAssembled;
+    // The wire keeps its colour; bulbs take theirs from the light pattern
+    vColor = aCurve < 0.0 ? uWireColor : garlandLight(aCurve, aSlot, aRandom) * (1.0 + 1.5 * uAudioBeat);
   }
 `;
 
@@ -64,27 +74,43 @@ const spiralFragmentShader = `
 `;
 
 interface SpiralGarlandProps {
-  treeState: TreeState;
+  formation: FormationId;
+  seed: number;
+  layout: TreeLayout;
+  formationContext: FormationContext;
+  settings: SceneConfig['garland'];
+  transition: TransitionController;
+  audio: AudioUniforms;
+  pixelRatio: THREE.IUniform<number>;
+  theme: ThemeUniforms; // Wire and bulb colours
 }
 
-export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
+// Must match delayedT in the vertex shader
+const STAGGER: Stagger = { scale: 1.5, spread: 0.5 };
+
+export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ formation, seed, layout, formationContext, settings, transition, audio, pixelRatio, theme }) => {
   const shaderRef = useRef<THREE.ShaderMaterial>(null);
+  const geometryRef = useRef<THREE.BufferGeometry>(null);
+  const shape = layout.garland;
 
   // Generate data for both the core wire (dense) and the bulbs (sparse)
-  const { positions, scatterPositions, treePositions, sizes, randoms, colors } = useMemo(() => {
+  const { wireCount, bulbCount, turns } = settings;
+  const { positions, scatterPositions, treePositions, sizes, randoms, curves, slots } = useMemo(() => {
+    const random = createRandom(seed, 'garland');
+
     // 1. Generate the curve
     const points = [];
-    const yStart = -5.0;
-    const yEnd = 5.0; 
-    const turns = 3.5;
+    const { yStart, yEnd } = shape;
+    const { height, yOffset } = layout.foliage;
     const curveSteps = 150; // Used for CatmullRom calculation
     
     for (let i = 0; i <= curveSteps; i++) {
       const t = i / curveSteps;
       const y = THREE.MathUtils.lerp(yStart, yEnd, t);
-      const relativeH = (y - yStart) / (yEnd - yStart);
-      const radius = (5.5 * (1 - relativeH)) + 0.6; 
       const angle = t * Math.PI * 2 * turns;
+      // Wrapped round the silhouette, whatever its shape at this height and side
+      const relativeH = (y - yOffset + height / 2) / height;
+      const radius = (shape.baseRadius * layout.silhouette.surface(relativeH, angle)) + shape.radiusOffset; 
       const x = Math.cos(angle) * radius;
       const z = Math.sin(angle) * radius;
       points.push(new THREE.Vector3(x, y, z));
@@ -92,8 +118,7 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
     const curve = new THREE.CatmullRomCurve3(points);
     
     // 2. Define particle counts
-    const wireCount = 3500; // Dense particles to form the line
-    const bulbCount = 600;  // Surrounding glow lights
+    // Dense wire line plus surrounding glow lights
     const totalCount = wireCount + bulbCount;
 
     const pos = new Float32Array(totalCount * 3);
@@ -101,7 +126,8 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
     const tree = new Float32Array(totalCount * 3);
     const sz = new Float32Array(totalCount);
     const rnd = new Float32Array(totalCount);
-    const col = new Float32Array(totalCount * 3);
+    const crv = new Float32Array(totalCount).fill(-1);
+    const slt = new Float32Array(totalCount);
 
     // 3. Fill Wire Particles
     for (let i = 0; i < wireCount; i++) {
@@ -114,7 +140,7 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
         tree[i*3+2] = pt.z;
 
         // Scatter Position: Random
-        const sPos = getRandomSpherePoint(18);
+        const sPos = getRandomSpherePoint(18, random);
         scatter[i*3] = sPos.x;
         scatter[i*3+1] = sPos.y;
         scatter[i*3+2] = sPos.z;
@@ -127,29 +153,23 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
         // Size: Small for wire
         sz[i] = 0.3; 
         
-        // Color: Warm Luxurious Gold (Lower intensity than previous)
-        // Previous was vec3(2.5, 2.1, 0.3)
-        // New: More amber/warm, less blinding
-        col[i*3] = 1.3;
-        col[i*3+1] = 0.95;
-        col[i*3+2] = 0.4;
-        
-        rnd[i] = Math.random();
+        rnd[i] = random();
     }
 
     // 4. Fill Bulb Particles
     for (let i = wireCount; i < totalCount; i++) {
-        const t = Math.random();
+        const t = random();
         const pt = curve.getPointAt(t);
+        crv[i] = t;
         const jitter = 0.35;
         
         // Tree Position: Near curve
-        tree[i*3] = pt.x + (Math.random() - 0.5) * jitter;
-        tree[i*3+1] = pt.y + (Math.random() - 0.5) * jitter;
-        tree[i*3+2] = pt.z + (Math.random() - 0.5) * jitter;
+        tree[i*3] = pt.x + (random() - 0.5) * jitter;
+        tree[i*3+1] = pt.y + (random() - 0.5) * jitter;
+        tree[i*3+2] = pt.z + (random() - 0.5) * jitter;
 
         // Scatter Position
-        const sPos = getRandomSpherePoint(20);
+        const sPos = getRandomSpherePoint(20, random);
         scatter[i*3] = sPos.x;
         scatter[i*3+1] = sPos.y;
         scatter[i*3+2] = sPos.z;
@@ -160,45 +180,62 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
         pos[i*3+2] = sPos.z;
 
         // Size: Reduced (was 0.8 + rand*0.5)
-        sz[i] = 0.5 + Math.random() * 0.4;
-
-        // Color: Keep bulbs slightly brighter to sparkle
-        col[i*3] = 2.0;
-        col[i*3+1] = 1.7;
-        col[i*3+2] = 0.8;
+        sz[i] = 0.5 + random() * 0.4;
 
-        rnd[i] = Math.random();
+        rnd[i] = random();
     }
 
+    // Bulbs are scattered at random along the wire; number them in the order
+    // they hang, so colours alternate between neighbours
+    const bulbs = Array.from({ length: bulbCount }, (_, b) => wireCount + b).sort((a, b) => crv[a] - crv[b]);
+    bulbs.forEach((i, order) => {
+        slt[i] = order;
+    });
+
     return { 
         positions: pos, 
         scatterPositions: scatter, 
         treePositions: tree, 
         sizes: sz, 
         randoms: rnd,
-        colors: col
+        curves: crv,
+        slots: slt
     };
-  }, []);
+  }, [seed, shape, layout, wireCount, bulbCount, turns]);
+
+  // Kept across rebuilds, so a pattern change fades rather than restarts
+  const [lights] = useState(() => new LightPatternEngine());
+
+  useEffect(() => {
+    lights.configure(settings.lights, theme.uBulbColor.value);
+  }, [lights, settings.lights, theme]);
 
   const uniforms = useMemo(() => ({
     uTime: { value: 0 },
-    uProgress: { value: 0 },
-    uPixelRatio: { value: Math.min(window.devicePixelRatio, 2) }
-  }), []);
+    uProgress: { value: 1 },
+    uAssembled: { value: 0 },
+    uPixelRatio: pixelRatio,
+    uAudioBeat: audio.uAudioBeat,
+    uWireColor: theme.uWireColor,
+    ...lights.uniforms
+  }), [lights, audio, theme, pixelRatio]);
+
+  const nativeTargets = useMemo(() => ({ tree: treePositions, scattered: scatterPositions }), [treePositions, scatterPositions]);
+  const getTargets = useFormationTargets(nativeTargets, 'garland', 'garland', randoms.length, seed, formationContext);
+  const morph = usePointMorph({ formation, getTargets, randoms, stagger: STAGGER, progress: uniforms.uProgress, transition, geometryRef });
 
   useFrame((state, delta) => {
+    lights.tick(delta);
     if (shaderRef.current) {
         shaderRef.current.uniforms.uTime.value = state.clock.elapsedTime;
-        
-        const targetProgress = treeState === TreeState.TREE_SHAPE ? 1.0 : 0.0;
-        // Use smooth damping for the transition
-        easing.damp(shaderRef.current.uniforms.uProgress, 'value', targetProgress, 1.2, delta);
+        shaderRef.current.uniforms.uProgress.value = transition.layer('garland');
+        shaderRef.current.uniforms.uAssembled.value = transition.assembled('garland');
     }
   });
 
   return (
     <points>
-      <bufferGeometry>
+      <bufferGeometry ref={geometryRef} key={identityKey(morph.from)}>
         <bufferAttribute 
             attach="attributes-position" 
             count={positions.length / 3} 
@@ -206,15 +243,15 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
             itemSize={3} 
         />
         <bufferAttribute 
-            attach="attributes-aScatterPos" 
-            count={scatterPositions.length / 3} 
-            array={scatterPositions} 
+            attach="attributes-aFromPos" 
+            count={morph.from.length / 3} 
+            array={morph.from} 
             itemSize={3} 
         />
         <bufferAttribute 
-            attach="attributes-aTreePos" 
-            count={treePositions.length / 3} 
-            array={treePositions} 
+            attach="attributes-aToPos" 
+            count={morph.to.length / 3} 
+            array={morph.to} 
             itemSize={3} 
         />
         <bufferAttribute 
@@ -230,10 +267,16 @@ export const SpiralGarland: React.FC<SpiralGarlandProps> = ({ treeState }) => {
             itemSize={1} 
         />
         <bufferAttribute 
-            attach="attributes-aColor" 
-            count={colors.length / 3} 
-            array={colors} 
-            itemSize={3} 
+            attach="attributes-aCurve" 
+            count={curves.length} 
+            array={curves} 
+            itemSize={1} 
+        />
+        <bufferAttribute 
+            attach="attributes-aSlot" 
+            count={slots.length} 
+            array={slots} 
+            itemSize={1} 
         />
       </bufferGeometry>
       <shaderMaterial 
@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { Messages } from '../utils/i18n';
+import { MAX_TEXT_LENGTH } from '../utils/textPoints';
+
+interface TextPromptProps {
+  initial: string;
+  busy: boolean; // Fonts are still loading for the last submission
+  onSubmit: (text: string) => void;
+  strings: Messages;
+}
+
+export const TextPrompt: React.FC<TextPromptProps> = ({ initial, busy, onSubmit, strings }) => {
+  const [draft, setDraft] = useState(initial);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim()) onSubmit(draft);
+  };
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-2 pointer-events-auto">
+      <input
+        value={draft}
+        maxLength={MAX_TEXT_LENGTH}
+        placeholder={strings.textPlaceholder}
+        onChange={(e) => setDraft(e.target.value)}
+        className="w-56 bg-black/40 border border-amber-500/30 rounded-full px-4 py-1.5 text-amber-50 text-xs font-serif focus:outline-none focus:border-amber-400/80 placeholder:text-amber-100/20"
+      />
+      <button
+        type="submit"
+        disabled={busy || !draft.trim()}
+        className="px-4 py-1.5 rounded-full bg-gradient-to-r from-amber-700/80 to-yellow-900/80 text-amber-50 text-[10px] tracking-widest uppercase disabled:opacity-40"
+      >
+        {strings.spell}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { ThemeId } from '../types';
+import { Messages } from '../utils/i18n';
+import { THEMES } from '../utils/themes';
+
+interface ThemeControlProps {
+  theme: ThemeId;
+  onChange: (theme: ThemeId) => void;
+  strings: Messages;
+}
+
+// Picks the colour theme; the colours fade across without rebuilding anything
+export const ThemeControl: React.FC<ThemeControlProps> = ({ theme, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.theme.label}</span>
+    <select
+      value={theme}
+      onChange={(e) => onChange(e.target.value as ThemeId)}
+      aria-label={strings.theme.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {THEMES.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.theme.themes[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
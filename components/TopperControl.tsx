@@ -0,0 +1,30 @@
+import React from 'react';
+import { TopperId } from '../types';
+import { Messages } from '../utils/i18n';
+import { TOPPERS } from '../utils/toppers';
+
+interface TopperControlProps {
+  topper: TopperId;
+  hasPath: boolean; // The config supplied an SVG path to extrude
+  onChange: (topper: TopperId) => void;
+  strings: Messages;
+}
+
+// Picks what crowns the tree; the SVG shape is only offered when the config has a path
+export const TopperControl: React.FC<TopperControlProps> = ({ topper, hasPath, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.topper.label}</span>
+    <select
+      value={topper}
+      onChange={(e) => onChange(e.target.value as TopperId)}
+      aria-label={strings.topper.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {TOPPERS.filter((id) => id !== 'svg' || hasPath).map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.topper.toppers[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { Messages } from '../utils/i18n';
+import { TransitionController } from '../utils/transition';
+
+interface TransitionScrubberProps {
+  transition: TransitionController;
+  strings: Messages;
+}
+
+// Slider resolution; plenty for a few seconds of motion
+const STEPS = 1000;
+
+// Re-renders on its own as the timeline moves, so the rest of the overlay doesn't
+export const TransitionScrubber: React.FC<TransitionScrubberProps> = ({ transition, strings }) => {
+  const [progress, setProgress] = useState(transition.progress);
+  const [paused, setPaused] = useState(transition.paused);
+
+  useEffect(
+    () =>
+      transition.subscribe({
+        onProgress: setProgress,
+        onPauseChange: setPaused,
+      }),
+    [transition]
+  );
+
+  const scrub = (e: React.ChangeEvent<HTMLInputElement>) => {
+    transition.setPaused(true);
+    transition.seek(Number(e.target.value) / STEPS);
+  };
+
+  return (
+    <div className="flex items-center gap-3 pointer-events-auto">
+      <button
+        onClick={() => transition.setPaused(!paused)}
+        className="w-14 text-amber-100/40 hover:text-amber-100/80 text-[10px] tracking-widest uppercase transition-colors"
+      >
+        {paused ? strings.play : strings.pause}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={STEPS}
+        value={Math.round(progress * STEPS)}
+        onChange={scrub}
+        aria-label={strings.timeline}
+        className="w-48 accent-amber-400 opacity-60 hover:opacity-100 transition-opacity"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { WindPresetId } from '../types';
+import { Messages } from '../utils/i18n';
+import { WIND_PRESETS } from '../utils/wind';
+
+interface WindControlProps {
+  preset: WindPresetId;
+  onChange: (preset: WindPresetId) => void;
+  strings: Messages;
+}
+
+// Picks the weather; the wind eases into the new strength rather than snapping
+export const WindControl: React.FC<WindControlProps> = ({ preset, onChange, strings }) => (
+  <div className="flex items-center gap-2 pointer-events-auto text-[10px] tracking-widest uppercase">
+    <span className="text-amber-100/40">{strings.wind.label}</span>
+    <select
+      value={preset}
+      onChange={(e) => onChange(e.target.value as WindPresetId)}
+      aria-label={strings.wind.label}
+      className="bg-transparent text-amber-100/40 hover:text-amber-100/80 uppercase tracking-widest outline-none cursor-pointer transition-colors"
+    >
+      {WIND_PRESETS.map((id) => (
+        <option key={id} value={id} className="bg-black">
+          {strings.wind.presets[id]}
+        </option>
+      ))}
+    </select>
+  </div>
+);
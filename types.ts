@@ -1,7 +1,5 @@
-export enum TreeState {
-  SCATTERED = 'SCATTERED',
-  TREE_SHAPE = 'TREE_SHAPE',
-}
+// Shapes the particles can morph between (see utils/formations.ts)
+export type FormationId = 'scattered' | 'tree' | 'heart' | 'star' | 'year' | 'galaxy' | 'text' | 'image';
 
 export interface ParticleData {
   initialPos: [number, number, number];
@@ -18,3 +16,176 @@ export interface OrnamentType {
   weight: number; // 0.1 (light) to 1.0 (heavy) - affects transition lag
   scale: number;
 }
+
+// --- SCENE CONFIGURATION ---
+
+// A cone described by its full height, radius at the base and vertical centre
+export interface ConeShape {
+  height: number;
+  baseRadius: number;
+  yOffset: number;
+}
+
+// Shape generators for the tree (see utils/silhouettes.ts); 'cone' is the original
+export type SilhouetteId = 'cone' | 'fir' | 'nordmann' | 'topiary' | 'lsystem' | 'spiral';
+
+// The tree's bounding cone, and the shape the branches take inside it
+export interface TreeShape extends ConeShape {
+  silhouette: SilhouetteId;
+}
+
+// Raw shader RGB, components may exceed 1.0 so bloom picks them up
+export type RGBTriple = [number, number, number];
+
+// What clicking an ornament reveals
+export interface NoteContent {
+  to: string; // Who the note is for; empty when it's for anyone
+  message: string;
+  photo: string; // Image URL; empty for none
+}
+
+// A hidden note on one particular generated ornament
+export interface OrnamentNote extends NoteContent {
+  index: number; // Instance within its group (e.g. the 4th gift is 3)
+}
+
+// What rises out of a gift when it is opened
+export type GiftSurpriseKind = 'burst' | 'photo' | 'message' | 'object';
+
+// Small 3D keepsakes a gift can hold
+export type SurpriseObjectId = 'star' | 'heart' | 'bell';
+
+export interface GiftSurprise {
+  index: number; // Gift it is hidden in
+  kind: GiftSurpriseKind;
+  message: string; // For 'message'
+  photo: string; // Image URL, for 'photo'
+  object: SurpriseObjectId; // For 'object'
+}
+
+export interface OrnamentGroupConfig {
+  count: number;
+  color: string;
+  type: 'sphere' | 'diamond';
+  weight: number;
+  scaleMultiplier: number;
+  roughness: number;
+  metalness: number;
+  spiralPhase: number;
+  notes: OrnamentNote[];
+}
+
+// Garland bulb animations (see utils/lightPatterns.ts)
+export type LightPatternId = 'steady' | 'twinkle' | 'chase' | 'alternate' | 'breathe' | 'sparkle';
+
+export type WindPresetId = 'calm' | 'breeze' | 'gusty' | 'storm' | 'blizzard';
+
+export interface WindSettings {
+  preset: WindPresetId;
+  direction: number; // Degrees the wind blows towards: 0 = left to right as first seen, 90 = towards the viewer
+}
+
+// Scene lighting looks (see utils/lighting.ts); 'live' follows the local time of day
+export type LightingPresetId = 'studio' | 'fireplace' | 'moonlit' | 'gallery' | 'candlelight' | 'daylight' | 'night';
+export type LightingMode = LightingPresetId | 'live';
+
+// Colour themes (see utils/themes.ts); 'emerald' keeps the configured colours
+export type ThemeId = 'emerald' | 'christmas' | 'frost' | 'lunar' | 'midnight';
+
+// What sits on top of the tree (see utils/toppers.ts); 'svg' extrudes `path`
+export type TopperId = 'star' | 'moravian' | 'snowflake' | 'angel' | 'svg';
+
+export interface TopperSettings {
+  color: string;
+  topper: TopperId;
+  points: number; // Of the star
+  innerRatio: number; // The star's inner corners, as a share of its outer radius
+  path: string; // SVG path data for the 'svg' topper
+  glow: number; // Multiplier on the topper's own light
+}
+
+export interface GarlandLights {
+  pattern: LightPatternId;
+  speed: number; // Multiplier on the pattern's own pace
+  direction: 1 | -1; // Which way patterns travel along the wire: 1 = upwards
+  colors: RGBTriple[]; // Handed to the bulbs in turn along the wire; empty = bulbColor
+}
+
+export interface WeightedColor {
+  color: string;
+  weight: number; // Relative likelihood within its palette
+}
+
+export interface GiftPaletteEntry extends WeightedColor {
+  ribbon: string;
+}
+
+export interface SceneConfig {
+  tree: TreeShape;
+  background: string;
+  foliage: {
+    count: number;
+    baseColor: RGBTriple;
+    tipColor: RGBTriple;
+  };
+  garland: {
+    wireCount: number;
+    bulbCount: number;
+    turns: number;
+    wireColor: RGBTriple;
+    bulbColor: RGBTriple;
+    lights: GarlandLights;
+  };
+  ornaments: OrnamentGroupConfig[];
+  baubles: {
+    count: number;
+    palette: WeightedColor[];
+    notes: OrnamentNote[];
+  };
+  gifts: {
+    count: number;
+    palette: GiftPaletteEntry[];
+    notes: OrnamentNote[];
+    surprises: GiftSurprise[]; // Gifts without one burst into sparks
+  };
+  star: TopperSettings;
+  snow: {
+    count: number;
+  };
+  sparkles: {
+    count: number;
+  };
+  wind: WindSettings;
+  lighting: LightingMode;
+  theme: ThemeId;
+}
+
+// --- HAND DECORATION ---
+
+// Ornament kinds the decorate tray can hang
+export type DecorationType = 'sphere' | 'diamond' | 'bauble';
+
+export interface Decoration {
+  id: string;
+  type: DecorationType;
+  color: string;
+  position: [number, number, number]; // On the tree, in the same space as the generated ornaments
+  scale: number;
+  note: NoteContent | null; // Carried over when a generated ornament with a note is picked up
+}
+
+// Hand edits laid over the generated ornaments
+export interface DecorationLayout {
+  placed: Decoration[];
+  removed: string[]; // Pick keys of generated ornaments taken off the tree (see OrnamentPick)
+}
+
+// --- GREETING CARD ---
+
+export interface Greeting {
+  recipient: string;
+  sender: string;
+  message: string;
+  subtitle: string;
+  label: string;
+}
@@ -0,0 +1,233 @@
+import { getCarolUrl } from './carol';
+
+// Music and what the scene hears of it. One <audio> element plays either a
+// local file or the default carol through a WebAudio analyser; every frame
+// the analyser is reduced to a few smoothed band levels plus a beat envelope,
+// published as shader uniforms the layers share.
+//
+// Nothing is created until the first play, which always comes from a click:
+// browsers only let an AudioContext start (and media play) after a gesture.
+
+export interface AudioUniforms {
+  uAudioBass: { value: number }; // 0..1, each band normalised to its recent peak
+  uAudioMid: { value: number };
+  uAudioTreble: { value: number };
+  uAudioBeat: { value: number }; // 1.0 on an onset, decaying to 0.0
+}
+
+export type AudioSource = 'carol' | 'file';
+
+export interface AudioState {
+  source: AudioSource | null; // Null until something has been played
+  name: string; // File name; empty for the carol
+  playing: boolean;
+  volume: number; // 0..1
+  blocked: boolean; // The browser refused to start playback
+}
+
+// Band edges in Hz
+const BANDS = {
+  uAudioBass: [20, 150],
+  uAudioMid: [150, 2000],
+  uAudioTreble: [2000, 12000],
+} as const;
+
+const FFT_SIZE = 2048;
+// Seconds for a level to rise to, or fall back from, a new value
+const ATTACK = 0.04;
+const RELEASE = 0.25;
+// Per-second decay of each band's running peak; a floor keeps silence at zero
+const PEAK_DECAY = 0.85;
+const MIN_PEAK = 0.05;
+
+// Onsets: spectral flux well above its recent average, and not too close together.
+// Flux is only measured up to here, where drums and chord changes carry their energy
+const FLUX_MAX_HZ = 2000;
+const FLUX_HISTORY = 45; // Frames, about three quarters of a second
+const FLUX_SENSITIVITY = 1.5; // Standard deviations above the mean
+const MIN_FLUX = 0.02;
+const MIN_BEAT_INTERVAL = 0.2; // Seconds
+const BEAT_DECAY = 0.15; // Seconds for the envelope to fall to a third
+
+const DEFAULT_VOLUME = 0.7;
+
+const smoothTowards = (current: number, target: number, delta: number) => {
+  const time = target > current ? ATTACK : RELEASE;
+  return current + (target - current) * (1 - Math.exp(-delta / time));
+};
+
+export class AudioReactor {
+  readonly uniforms: AudioUniforms = {
+    uAudioBass: { value: 0 },
+    uAudioMid: { value: 0 },
+    uAudioTreble: { value: 0 },
+    uAudioBeat: { value: 0 },
+  };
+
+  private element: HTMLAudioElement | null = null;
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private gain: GainNode | null = null;
+  private spectrum = new Uint8Array(0);
+  private previous = new Float32Array(0);
+  private peaks = { uAudioBass: MIN_PEAK, uAudioMid: MIN_PEAK, uAudioTreble: MIN_PEAK };
+  private flux: number[] = [];
+  private sinceBeat = Infinity;
+  private current: AudioState = { source: null, name: '', playing: false, volume: DEFAULT_VOLUME, blocked: false };
+  private listeners = new Set<(state: AudioState) => void>();
+
+  get state(): AudioState {
+    return this.current;
+  }
+
+  // Both must be called from a user gesture
+  playCarol() {
+    const element = this.start();
+    getCarolUrl()
+      .then((url) => {
+        element.loop = true;
+        this.load(url, 'carol', '');
+      })
+      .catch((err) => {
+        console.warn('[audio] Could not render the carol:', err instanceof Error ? err.message : err);
+        this.update({ blocked: true });
+      });
+  }
+
+  playFile(file: File) {
+    const element = this.start();
+    element.loop = false;
+    this.load(URL.createObjectURL(file), 'file', file.name);
+  }
+
+  toggle() {
+    if (!this.element || !this.current.source) return;
+    if (this.element.paused) {
+      this.start();
+      this.play();
+    } else {
+      this.element.pause();
+    }
+  }
+
+  setVolume(volume: number) {
+    if (this.gain) this.gain.gain.value = volume;
+    this.update({ volume });
+  }
+
+  // Once per frame
+  sample(delta: number) {
+    const u = this.uniforms;
+    this.sinceBeat += delta;
+    u.uAudioBeat.value *= Math.exp(-delta / BEAT_DECAY);
+
+    const analyser = this.analyser;
+    if (!analyser || !this.current.playing) {
+      u.uAudioBass.value = smoothTowards(u.uAudioBass.value, 0, delta);
+      u.uAudioMid.value = smoothTowards(u.uAudioMid.value, 0, delta);
+      u.uAudioTreble.value = smoothTowards(u.uAudioTreble.value, 0, delta);
+      return;
+    }
+
+    analyser.getByteFrequencyData(this.spectrum);
+    const binHz = analyser.context.sampleRate / analyser.fftSize;
+
+    for (const band of Object.keys(BANDS) as (keyof typeof BANDS)[]) {
+      const [low, high] = BANDS[band];
+      const from = Math.max(1, Math.floor(low / binHz));
+      const to = Math.min(this.spectrum.length, Math.ceil(high / binHz));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += this.spectrum[i];
+      const level = to > from ? sum / (to - from) / 255 : 0;
+
+      // Normalised against the band's recent peak, so quiet tracks still move the scene
+      this.peaks[band] = Math.max(level, MIN_PEAK, this.peaks[band] * Math.pow(PEAK_DECAY, delta));
+      u[band].value = smoothTowards(u[band].value, level / this.peaks[band], delta);
+    }
+
+    if (this.detectOnset(Math.min(this.spectrum.length, Math.ceil(FLUX_MAX_HZ / binHz)))) {
+      this.sinceBeat = 0;
+      u.uAudioBeat.value = 1;
+    }
+  }
+
+  subscribe(listener: (state: AudioState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Spectral flux: how much louder the spectrum got since the last frame
+  private detectOnset(bins: number): boolean {
+    let flux = 0;
+    for (let i = 0; i < bins; i++) {
+      const value = this.spectrum[i] / 255;
+      flux += Math.max(0, value - this.previous[i]);
+      this.previous[i] = value;
+    }
+    flux /= bins;
+
+    const history = this.flux;
+    const mean = history.reduce((sum, f) => sum + f, 0) / (history.length || 1);
+    const deviation = Math.sqrt(history.reduce((sum, f) => sum + (f - mean) ** 2, 0) / (history.length || 1));
+    history.push(flux);
+    if (history.length > FLUX_HISTORY) history.shift();
+
+    return (
+      history.length >= FLUX_HISTORY &&
+      flux > MIN_FLUX &&
+      flux > mean + FLUX_SENSITIVITY * deviation &&
+      this.sinceBeat > MIN_BEAT_INTERVAL
+    );
+  }
+
+  // Builds the graph on first use and wakes a suspended context
+  private start(): HTMLAudioElement {
+    if (!this.element || !this.context) {
+      const element = new Audio();
+      const context = new AudioContext();
+      const analyser = context.createAnalyser();
+      const gain = context.createGain();
+      analyser.fftSize = FFT_SIZE;
+      analyser.smoothingTimeConstant = 0.5;
+      gain.gain.value = this.current.volume;
+      // The analyser listens before the volume, so quiet playback still drives the lights
+      context.createMediaElementSource(element).connect(analyser).connect(gain).connect(context.destination);
+
+      element.addEventListener('play', () => this.update({ playing: true, blocked: false }));
+      element.addEventListener('pause', () => this.update({ playing: false }));
+      element.addEventListener('ended', () => this.update({ playing: false }));
+
+      this.element = element;
+      this.context = context;
+      this.analyser = analyser;
+      this.gain = gain;
+      this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+      this.previous = new Float32Array(analyser.frequencyBinCount);
+    }
+    if (this.context.state === 'suspended') this.context.resume();
+    return this.element;
+  }
+
+  private load(url: string, source: AudioSource, name: string) {
+    const element = this.element!;
+    // File URLs are ours to free; the carol's is kept for the next time
+    if (this.current.source === 'file') URL.revokeObjectURL(element.src);
+    element.src = url;
+    this.update({ source, name });
+    this.play();
+  }
+
+  private play() {
+    this.element!.play().catch((err) => {
+      console.warn('[audio] Playback was refused:', err instanceof Error ? err.message : err);
+      this.update({ playing: false, blocked: true });
+    });
+  }
+
+  private update(patch: Partial<AudioState>) {
+    this.current = { ...this.current, ...patch };
+    this.listeners.forEach((listener) => listener(this.current));
+  }
+}
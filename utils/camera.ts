@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { TreeLayout } from './sceneConfig';
+import { Easing, easeInOutCubic, linear } from './transition';
+
+// Camera direction. A shot is a short list of keyframes the camera eases
+// through; a sequence is a list of shots played back to back. Poses are
+// cylindrical around the trunk and measured in tree heights, so every shot
+// frames whatever tree is configured, and an orbit stays an orbit instead of
+// cutting across the chord between two keyframes.
+//
+// Each shot starts from wherever the camera is, so sequences, interrupted
+// shots and resuming after the user lets go all blend without a jump.
+
+export interface CameraPose {
+  angle: number; // Around the trunk, radians; 0 looks from +z
+  distance: number; // From the trunk
+  height: number; // Above the base of the tree
+  target: number; // Height on the trunk the camera looks at
+}
+
+export interface CameraKeyframe extends CameraPose {
+  at: number; // Seconds into the shot
+  ease?: Easing; // Into this keyframe from the previous one; eased in and out by default
+}
+
+export interface CameraShot {
+  // Angles are relative to where the camera was when the shot started. A
+  // first keyframe after 0 is blended into from the current pose; one at 0 cuts.
+  keyframes: CameraKeyframe[];
+  // Repeats the last segment for as long as nothing else is cued, carrying the angle on
+  loop?: boolean;
+}
+
+export type ShotId = 'dolly' | 'crane' | 'orbit';
+
+export const CAMERA_SHOTS: Record<ShotId, CameraShot> = {
+  // Cuts wide and pushes in while the particles gather
+  dolly: {
+    keyframes: [
+      { at: 0, angle: -0.6, distance: 2.3, height: 0.75, target: 0.5 },
+      { at: 5, angle: 0, distance: 1.4, height: 0.85, target: 0.65 },
+    ],
+  },
+  // Rises to the star and holds on it
+  crane: {
+    keyframes: [
+      { at: 5, angle: 0.4, distance: 0.8, height: 1.1, target: 1 },
+      { at: 7, angle: 0.45, distance: 0.8, height: 1.1, target: 1 },
+    ],
+  },
+  // Circles at ornament height, once every 30 seconds
+  orbit: {
+    keyframes: [
+      { at: 3, angle: 0.3, distance: 1.3, height: 0.45, target: 0.45 },
+      { at: 33, angle: 0.3 + Math.PI * 2, distance: 1.3, height: 0.45, target: 0.45, ease: linear },
+    ],
+    loop: true,
+  },
+};
+
+// 'free' leaves the camera to the orbit controls' own auto-rotate
+export type CameraSequenceId = 'free' | 'showcase' | 'star' | 'orbit';
+
+export const CAMERA_SEQUENCES: CameraSequenceId[] = ['free', 'showcase', 'star', 'orbit'];
+
+export const SEQUENCE_SHOTS: Record<CameraSequenceId, ShotId[]> = {
+  free: [],
+  showcase: ['dolly', 'crane', 'orbit'],
+  star: ['crane', 'orbit'],
+  orbit: ['orbit'],
+};
+
+// Seconds without interaction before the director takes the camera back
+export const IDLE_RESUME = 8;
+// What it takes it back with
+const RESUME_SHOT: ShotId = 'orbit';
+
+const lerpPose = (a: CameraPose, b: CameraPose, x: number, out: CameraPose) => {
+  out.angle = THREE.MathUtils.lerp(a.angle, b.angle, x);
+  out.distance = THREE.MathUtils.lerp(a.distance, b.distance, x);
+  out.height = THREE.MathUtils.lerp(a.height, b.height, x);
+  out.target = THREE.MathUtils.lerp(a.target, b.target, x);
+};
+
+// Where a shot has the camera `time` seconds in, having started at `from`
+export const shotPose = (shot: CameraShot, time: number, from: CameraPose, out: CameraPose): CameraPose => {
+  const keyframes: CameraKeyframe[] =
+    shot.keyframes[0].at > 0 ? [{ at: 0, ...from, angle: 0 }, ...shot.keyframes] : shot.keyframes;
+  const last = keyframes[keyframes.length - 1];
+
+  let laps = 0;
+  if (shot.loop && time > last.at && keyframes.length > 1) {
+    const start = keyframes[keyframes.length - 2].at;
+    laps = Math.floor((time - start) / (last.at - start));
+    time = start + ((time - start) % (last.at - start));
+  }
+
+  let i = 1;
+  while (i < keyframes.length - 1 && time > keyframes[i].at) i++;
+  const a = keyframes[Math.max(0, i - 1)];
+  const b = keyframes[Math.min(i, keyframes.length - 1)];
+  const span = b.at - a.at;
+  const x = span > 0 ? THREE.MathUtils.clamp((time - a.at) / span, 0, 1) : 1;
+  lerpPose(a, b, (b.ease ?? easeInOutCubic)(x), out);
+
+  if (laps > 0) {
+    const segment = keyframes[keyframes.length - 2];
+    out.angle += laps * (last.angle - segment.angle);
+  }
+  out.angle += from.angle;
+  return out;
+};
+
+// --- WORLD ---
+
+// The tree's extent in world space: poses are measured from `base` in units of `span`
+export interface TreeFrame {
+  base: number;
+  span: number;
+}
+
+export const getTreeFrame = (layout: TreeLayout, offsetY: number): TreeFrame => {
+  const base = layout.foliage.yOffset - layout.foliage.height / 2;
+  return { base: offsetY + base, span: layout.starY - base };
+};
+
+// The pose of a camera looking at a point on the trunk
+export const readPose = (position: THREE.Vector3, target: THREE.Vector3, frame: TreeFrame, out: CameraPose): CameraPose => {
+  out.angle = Math.atan2(position.x, position.z);
+  out.distance = Math.hypot(position.x, position.z) / frame.span;
+  out.height = (position.y - frame.base) / frame.span;
+  out.target = (target.y - frame.base) / frame.span;
+  return out;
+};
+
+export const applyPose = (pose: CameraPose, frame: TreeFrame, position: THREE.Vector3, target: THREE.Vector3) => {
+  const radius = pose.distance * frame.span;
+  position.set(Math.sin(pose.angle) * radius, frame.base + pose.height * frame.span, Math.cos(pose.angle) * radius);
+  target.set(0, frame.base + pose.target * frame.span, 0);
+};
+
+// --- PLAYER ---
+
+// Plays shots one after another. The user taking the camera holds it; letting
+// go starts the idle countdown, after which it resumes with a slow orbit.
+export class ShotPlayer {
+  private queue: ShotId[] = [];
+  private shot: { shot: CameraShot; time: number; from: CameraPose } | null = null;
+  private held = false;
+  private idle: number | null = null; // Seconds until resuming; null when not waiting
+
+  play(shots: ShotId[]) {
+    this.queue = shots.slice();
+    this.shot = null;
+    this.held = false;
+    this.idle = null;
+  }
+
+  // The user has the camera, or it isn't the director's to move
+  hold() {
+    this.queue = [];
+    this.shot = null;
+    this.held = true;
+    this.idle = null;
+  }
+
+  // Starts the countdown to resuming
+  release() {
+    if (!this.held) return;
+    this.held = false;
+    this.idle = IDLE_RESUME;
+  }
+
+  // Writes this frame's pose to `out`; false when the camera is left alone
+  tick(delta: number, current: CameraPose, out: CameraPose): boolean {
+    if (this.held) return false;
+    if (!this.shot && this.idle !== null) {
+      this.idle -= delta;
+      if (this.idle > 0) return false;
+      this.idle = null;
+      this.queue = [RESUME_SHOT];
+    }
+
+    if (this.shot) {
+      this.shot.time += delta;
+    } else {
+      const id = this.queue.shift();
+      if (!id) return false;
+      this.shot = { shot: CAMERA_SHOTS[id], time: 0, from: { ...current } };
+    }
+
+    const { shot, time, from } = this.shot;
+    shotPose(shot, time, from, out);
+    // The next shot picks up from this pose on the following frame
+    if (!shot.loop && time >= shot.keyframes[shot.keyframes.length - 1].at) this.shot = null;
+    return true;
+  }
+}
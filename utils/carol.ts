@@ -0,0 +1,138 @@
+import { createRandom } from './random';
+
+// The default carol: the chorus of "Jingle Bells" (J. L. Pierpont, 1857,
+// public domain), synthesised offline instead of shipping an audio file.
+// Melody, bass, a soft kick on every beat and sleigh bells on the offbeats
+// give the analyser bass, beats and highs to react to.
+
+const SAMPLE_RATE = 22050;
+const BEAT = 60 / 160; // Seconds per quarter note
+
+// [note, beats]; note names are sharps-free, octave included
+type Note = [string, number];
+
+const MELODY: Note[] = [
+  ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['G5', 1], ['C5', 1.5], ['D5', 0.5],
+  ['E5', 4],
+  ['F5', 1], ['F5', 1], ['F5', 1.5], ['F5', 0.5],
+  ['F5', 1], ['E5', 1], ['E5', 1], ['E5', 0.5], ['E5', 0.5],
+  ['E5', 1], ['D5', 1], ['D5', 1], ['E5', 1],
+  ['D5', 2], ['G5', 2],
+  ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['E5', 1], ['E5', 2],
+  ['E5', 1], ['G5', 1], ['C5', 1.5], ['D5', 0.5],
+  ['E5', 4],
+  ['F5', 1], ['F5', 1], ['F5', 1.5], ['F5', 0.5],
+  ['F5', 1], ['E5', 1], ['E5', 1], ['E5', 0.5], ['E5', 0.5],
+  ['G5', 1], ['G5', 1], ['F5', 1], ['D5', 1],
+  ['C5', 4],
+];
+
+// One chord root per bar, played on beats one and three
+const BASS_ROOTS = ['C2', 'C2', 'C2', 'C2', 'F2', 'C2', 'G2', 'G2', 'C2', 'C2', 'C2', 'C2', 'F2', 'C2', 'G2', 'C2'];
+
+const SEMITONES: Record<string, number> = { C: -9, D: -7, E: -5, F: -4, G: -2, A: 0, B: 2 };
+
+const frequency = (note: string) => {
+  const octave = Number(note.slice(1));
+  return 440 * Math.pow(2, (SEMITONES[note[0]] + (octave - 4) * 12) / 12);
+};
+
+const tone = (ctx: OfflineAudioContext, type: OscillatorType, freq: number, start: number, length: number, level: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.type = type;
+  osc.frequency.value = freq;
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(level, start + 0.01);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + length);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(start);
+  osc.stop(start + length);
+};
+
+const kick = (ctx: OfflineAudioContext, start: number) => {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.setValueAtTime(120, start);
+  osc.frequency.exponentialRampToValueAtTime(45, start + 0.12);
+  gain.gain.setValueAtTime(0.5, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+  osc.connect(gain).connect(ctx.destination);
+  osc.start(start);
+  osc.stop(start + 0.2);
+};
+
+const bells = (ctx: OfflineAudioContext, noise: AudioBuffer, start: number) => {
+  const source = ctx.createBufferSource();
+  const filter = ctx.createBiquadFilter();
+  const gain = ctx.createGain();
+  source.buffer = noise;
+  filter.type = 'highpass';
+  filter.frequency.value = 6000;
+  gain.gain.setValueAtTime(0.15, start);
+  gain.gain.exponentialRampToValueAtTime(0.001, start + 0.08);
+  source.connect(filter).connect(gain).connect(ctx.destination);
+  source.start(start);
+  source.stop(start + 0.08);
+};
+
+const renderCarol = (): Promise<AudioBuffer> => {
+  const beats = MELODY.reduce((sum, [, length]) => sum + length, 0);
+  const ctx = new OfflineAudioContext(1, Math.ceil(beats * BEAT * SAMPLE_RATE), SAMPLE_RATE);
+
+  let time = 0;
+  for (const [note, length] of MELODY) {
+    tone(ctx, 'triangle', frequency(note), time, length * BEAT * 0.95, 0.25);
+    time += length * BEAT;
+  }
+  BASS_ROOTS.forEach((root, bar) => {
+    for (const beat of [0, 2]) tone(ctx, 'sine', frequency(root), (bar * 4 + beat) * BEAT, BEAT * 1.8, 0.35);
+  });
+
+  // Fixed, so the carol sounds the same every time
+  const random = createRandom(0, 'carol');
+  const noise = ctx.createBuffer(1, Math.ceil(0.1 * SAMPLE_RATE), SAMPLE_RATE);
+  const samples = noise.getChannelData(0);
+  for (let i = 0; i < samples.length; i++) samples[i] = random() * 2 - 1;
+
+  for (let beat = 0; beat < beats; beat++) {
+    kick(ctx, beat * BEAT);
+    bells(ctx, noise, (beat + 0.5) * BEAT);
+  }
+  return ctx.startRendering();
+};
+
+// 16-bit mono WAV, so the carol plays through the same <audio> element as a file
+const encodeWav = (buffer: AudioBuffer): Blob => {
+  const samples = buffer.getChannelData(0);
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const text = (offset: number, value: string) => [...value].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true); // Chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  text(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  samples.forEach((s, i) => view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, s)) * 0x7fff, true));
+
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+let carolUrl: Promise<string> | null = null;
+
+// Rendered once, on first play
+export const getCarolUrl = (): Promise<string> => {
+  if (!carolUrl) carolUrl = renderCarol().then((buffer) => URL.createObjectURL(encodeWav(buffer)));
+  return carolUrl;
+};
@@ -0,0 +1,75 @@
+import * as THREE from 'three';
+import { ConeShape, Decoration, DecorationLayout, DecorationType } from '../types';
+import { TreeLayout } from './sceneConfig';
+import { Silhouette } from './silhouettes';
+
+// Hand decoration: ornaments the user hangs, moves or takes off in decorate
+// mode. The edits are kept apart from the generated layout, so a new seed or
+// config still applies underneath them.
+
+export const EMPTY_DECORATIONS: DecorationLayout = { placed: [], removed: [] };
+
+export const DECORATION_TYPES: DecorationType[] = ['sphere', 'diamond', 'bauble'];
+
+// Hang and drag, or take ornaments off
+export type DecorateTool = 'place' | 'erase';
+
+// Tray swatches, drawn from the generated ornaments' own palette
+export const DECORATION_COLORS = ['#F3E5AB', '#4a0404', '#E5E4E2', '#d4af37', '#0f3b26', '#ffe4b5'];
+
+// Sizes the tray hangs at, matching the generated ornaments of each kind
+export const DECORATION_SCALES: Record<DecorationType, number> = { sphere: 0.85, diamond: 0.85, bauble: 0.5 };
+
+// Pick keys of hand-placed ornaments are "placed:<id>"
+export const PLACED_KEY_PREFIX = 'placed:';
+
+// Same cones the generated ornaments of each kind hang on
+export const decorationCone = (type: DecorationType, layout: TreeLayout): ConeShape =>
+  type === 'bauble' ? layout.baubles : layout.ornaments;
+
+// Keeps hand-placed ornaments clear of the star, like the generated ones
+const MAX_RELATIVE_HEIGHT = 0.9;
+
+// Moves a point onto the branches: same height (clamped to the tree) and
+// angle around the trunk, at the silhouette's radius there within the cone
+export const snapToSurface = (point: THREE.Vector3, cone: ConeShape, silhouette: Silhouette): [number, number, number] => {
+  const bottom = cone.yOffset - cone.height / 2;
+  const relativeHeight = THREE.MathUtils.clamp((point.y - bottom) / cone.height, 0, MAX_RELATIVE_HEIGHT);
+  const theta = Math.atan2(point.z, point.x);
+  const radius = cone.baseRadius * silhouette.surface(relativeHeight, theta);
+  return [radius * Math.cos(theta), bottom + relativeHeight * cone.height, radius * Math.sin(theta)];
+};
+
+let nextId = 0;
+
+// Unique within a session and across reloads, without touching the seeded streams
+export const createDecorationId = (): string => `${Date.now().toString(36)}${(nextId++).toString(36)}`;
+
+// --- EDITS ---
+// Each returns a new layout, or the same object when nothing changed.
+
+export const addDecoration = (layout: DecorationLayout, decoration: Decoration): DecorationLayout => ({
+  ...layout,
+  placed: [...layout.placed, decoration],
+});
+
+export const moveDecoration = (layout: DecorationLayout, id: string, position: [number, number, number]): DecorationLayout => ({
+  ...layout,
+  placed: layout.placed.map((d) => (d.id === id ? { ...d, position } : d)),
+});
+
+// Hand-placed ornaments are deleted; generated ones are remembered as removed
+export const eraseOrnament = (layout: DecorationLayout, key: string): DecorationLayout => {
+  if (key.startsWith(PLACED_KEY_PREFIX)) {
+    const id = key.slice(PLACED_KEY_PREFIX.length);
+    return { ...layout, placed: layout.placed.filter((d) => d.id !== id) };
+  }
+  if (layout.removed.includes(key)) return layout;
+  return { ...layout, removed: [...layout.removed, key] };
+};
+
+// Picking up a generated ornament swaps it for a hand-placed copy that can move
+export const grabOrnament = (layout: DecorationLayout, key: string, decoration: Decoration): DecorationLayout => {
+  if (key.startsWith(PLACED_KEY_PREFIX)) return layout;
+  return { placed: [...layout.placed, decoration], removed: [...layout.removed, key] };
+};
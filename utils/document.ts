@@ -0,0 +1,242 @@
+import { Decoration, DecorationLayout, Greeting, SceneConfig } from '../types';
+import { DECORATION_TYPES } from './decorations';
+import { EMPTY_GREETING, GREETING_LIMITS, normalizeGreeting } from './greeting';
+import { HEX_COLOR, isObject, Issues, validateNoteContent, validateSceneConfig } from './sceneConfig';
+import { downloadBlob } from './url';
+
+// A saved tree: everything needed to rebuild what is on screen. Generated
+// ornaments come back from the seed and config (notes included); hand edits
+// are stored as they are. The same JSON is used for autosave, the save slots
+// and exported files.
+
+const DOCUMENT_FORMAT = 'christmas-tree';
+export const DOCUMENT_VERSION = 1;
+
+export interface TreeDocument {
+  format: typeof DOCUMENT_FORMAT;
+  version: number;
+  savedAt: string; // ISO 8601
+  seed: number;
+  config: SceneConfig;
+  decorations: DecorationLayout;
+  greeting: Greeting;
+}
+
+export class TreeDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TreeDocumentError';
+  }
+}
+
+export const createTreeDocument = (state: Pick<TreeDocument, 'seed' | 'config' | 'decorations' | 'greeting'>): TreeDocument => ({
+  format: DOCUMENT_FORMAT,
+  version: DOCUMENT_VERSION,
+  savedAt: new Date().toISOString(),
+  ...state,
+});
+
+// --- MIGRATIONS ---
+// MIGRATIONS[n] upgrades a raw version-n document to version n + 1. Bump
+// DOCUMENT_VERSION and add an entry whenever the format changes; documents
+// are only ever validated in the current format.
+
+type RawDocument = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (doc: RawDocument) => RawDocument> = {};
+
+const migrate = (doc: RawDocument): RawDocument => {
+  const version = doc.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new TreeDocumentError('The file has no valid format version');
+  }
+  if (version > DOCUMENT_VERSION) {
+    throw new TreeDocumentError(`The file was saved by a newer version of the app (format ${version}, this one reads up to ${DOCUMENT_VERSION})`);
+  }
+  let current = doc;
+  for (let v = version; v < DOCUMENT_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new TreeDocumentError(`Format ${v} can no longer be read`);
+    current = { ...step(current), version: v + 1 };
+  }
+  return current;
+};
+
+// --- VALIDATION ---
+
+const MAX_DECORATIONS = 2000;
+const MAX_COORDINATE = 1000;
+const REMOVED_KEY = /^(baubles|ornaments\.\d+):\d+$/;
+
+const validateDecoration = (value: unknown, path: string, issues: Issues): Decoration | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const { id, type, color, position, scale, note } = value;
+  const problems = issues.length;
+  if (typeof id !== 'string' || !id || id.length > 64) issues.push(`${path}.id must be a short string`);
+  if (!DECORATION_TYPES.includes(type as Decoration['type'])) issues.push(`${path}.type must be one of ${DECORATION_TYPES.join(', ')}`);
+  if (typeof color !== 'string' || !HEX_COLOR.test(color)) issues.push(`${path}.color must be a hex colour like "#d4af37"`);
+  if (!Array.isArray(position) || position.length !== 3 || position.some((c) => typeof c !== 'number' || !Number.isFinite(c) || Math.abs(c) > MAX_COORDINATE)) {
+    issues.push(`${path}.position must be an [x, y, z] triple`);
+  }
+  if (typeof scale !== 'number' || !Number.isFinite(scale) || scale <= 0 || scale > 10) issues.push(`${path}.scale must be a number between 0 and 10`);
+  const content = note === null || note === undefined ? null : validateNoteContent(note, `${path}.note`, issues);
+  if (issues.length > problems) return null;
+
+  return {
+    id: id as string,
+    type: type as Decoration['type'],
+    color: color as string,
+    position: [position[0], position[1], position[2]],
+    scale: scale as number,
+    note: content,
+  };
+};
+
+const validateDecorations = (value: unknown, issues: Issues): DecorationLayout => {
+  if (!isObject(value)) {
+    issues.push('decorations must be an object');
+    return { placed: [], removed: [] };
+  }
+  const { placed, removed } = value;
+  const layout: DecorationLayout = { placed: [], removed: [] };
+
+  if (!Array.isArray(placed) || placed.length > MAX_DECORATIONS) {
+    issues.push(`decorations.placed must be an array of at most ${MAX_DECORATIONS} ornaments`);
+  } else {
+    placed.forEach((d, i) => {
+      const decoration = validateDecoration(d, `decorations.placed[${i}]`, issues);
+      if (decoration) layout.placed.push(decoration);
+    });
+    if (new Set(layout.placed.map((d) => d.id)).size !== layout.placed.length) issues.push('decorations.placed has duplicate ids');
+  }
+
+  if (!Array.isArray(removed) || removed.some((key) => typeof key !== 'string' || !REMOVED_KEY.test(key))) {
+    issues.push('decorations.removed must be a list of ornament keys like "baubles:3"');
+  } else {
+    layout.removed = [...new Set(removed as string[])];
+  }
+  return layout;
+};
+
+const validateGreeting = (value: unknown, issues: Issues): Greeting => {
+  if (!isObject(value)) {
+    issues.push('greeting must be an object');
+    return EMPTY_GREETING;
+  }
+  const greeting = { ...EMPTY_GREETING };
+  for (const field of Object.keys(EMPTY_GREETING) as (keyof Greeting)[]) {
+    const text = value[field];
+    if (text === undefined) continue;
+    if (typeof text !== 'string' || text.length > GREETING_LIMITS[field]) {
+      issues.push(`greeting.${field} must be a string of at most ${GREETING_LIMITS[field]} characters`);
+    } else {
+      greeting[field] = text;
+    }
+  }
+  return normalizeGreeting(greeting);
+};
+
+// Shown in the error; the rest only matter to whoever edits the file by hand
+const MAX_REPORTED_ISSUES = 3;
+
+// Parses, migrates and validates a document. Unlike a ?config= link, which
+// quietly falls back to defaults, a document that doesn't check out is
+// rejected as a whole, so a bad file never replaces a good tree.
+export const parseTreeDocument = (text: string): TreeDocument => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TreeDocumentError('The file is not valid JSON');
+  }
+  if (!isObject(raw) || raw.format !== DOCUMENT_FORMAT) {
+    throw new TreeDocumentError('The file is not a saved tree');
+  }
+
+  const doc = migrate(raw);
+  const issues: Issues = [];
+
+  const seed = doc.seed;
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    issues.push('seed must be a whole number between 0 and 4294967295');
+  }
+  const { config, issues: configIssues } = validateSceneConfig(doc.config);
+  issues.push(...configIssues);
+  const decorations = validateDecorations(doc.decorations, issues);
+  const greeting = validateGreeting(doc.greeting, issues);
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : '';
+    throw new TreeDocumentError(`The file has invalid fields: ${shown}${more}`);
+  }
+
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    savedAt: typeof doc.savedAt === 'string' ? doc.savedAt : '',
+    seed: seed as number,
+    config,
+    decorations,
+    greeting,
+  };
+};
+
+export const serializeTreeDocument = (doc: TreeDocument): string => JSON.stringify(doc, null, 2);
+
+// --- STORAGE ---
+// Slots live in localStorage; storage can be unavailable (private browsing)
+// or full, which is logged and otherwise treated like an empty slot.
+
+const STORAGE_PREFIX = 'christmas-tree:';
+export const AUTOSAVE_SLOT = 'autosave';
+export const SAVE_SLOTS = ['1', '2', '3'];
+
+export const readSlot = (slot: string): TreeDocument | null => {
+  let text: string | null;
+  try {
+    text = localStorage.getItem(STORAGE_PREFIX + slot);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+  try {
+    return parseTreeDocument(text);
+  } catch (err) {
+    console.warn(`[document] Ignoring slot "${slot}":`, err instanceof Error ? err.message : err);
+    return null;
+  }
+};
+
+export const writeSlot = (slot: string, doc: TreeDocument): boolean => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + slot, serializeTreeDocument(doc));
+    return true;
+  } catch (err) {
+    console.warn(`[document] Could not save slot "${slot}":`, err instanceof Error ? err.message : err);
+    return false;
+  }
+};
+
+// --- FILES ---
+
+export const downloadTreeDocument = (doc: TreeDocument, fileName: string) =>
+  downloadBlob(new Blob([serializeTreeDocument(doc)], { type: 'application/json' }), fileName);
+
+// Far beyond any real tree; anything larger is not worth parsing
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+
+// Rejects with a TreeDocumentError for anything that can't be loaded
+export const readTreeDocumentFile = async (file: File): Promise<TreeDocument> => {
+  if (file.size > MAX_FILE_SIZE) throw new TreeDocumentError('The file is too large to be a saved tree');
+  let text: string;
+  try {
+    text = await file.text();
+  } catch {
+    throw new TreeDocumentError('The file could not be read');
+  }
+  return parseTreeDocument(text);
+};
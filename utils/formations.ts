@@ -0,0 +1,372 @@
+import { useCallback, useMemo } from 'react';
+import * as THREE from 'three';
+import { FormationId } from '../types';
+import { createRandom, RandomFn } from './random';
+import { ImageShape, paintImageShape, sampleImageShape } from './imagePoints';
+import { TreeLayout } from './sceneConfig';
+import { sampleTextShape, TextShape } from './textPoints';
+
+// A formation is a shape every particle layer can morph into.
+//
+// 'tree' and 'scattered' are native formations: each layer already knows how it
+// looks on the tree (needles on the cone, garland on its spiral, gifts piled at
+// the base) and floating in the cloud, so it supplies those targets itself.
+// Every other formation samples its targets here, from one shared outline, so
+// foliage, garland and ornaments all land on the same figure.
+
+export type FormationLayer = 'foliage' | 'garland' | 'ornaments';
+
+// Everything a formation may size itself against: the tree it replaces, plus
+// inputs that only exist at runtime (the text the user typed, the photo they picked).
+export interface FormationContext {
+  layout: TreeLayout;
+  text: TextShape | null;
+  image: ImageShape | null;
+}
+
+type Point2 = [number, number];
+
+export interface Formation {
+  id: FormationId;
+  floating: boolean; // Particles drift freely instead of holding a shape
+  readable?: boolean; // Has to face the viewer, so the camera stops auto-rotating
+  sample?: (layer: FormationLayer, count: number, random: RandomFn, context: FormationContext) => Float32Array;
+  topper?: (context: FormationContext) => THREE.Vector3; // Where the star sits; undefined = it floats too
+  // RGBA per point laid over the foliage's own colours (alpha = how much); undefined = keep them
+  paint?: (positions: Float32Array, context: FormationContext) => Float32Array;
+}
+
+// --- 2D SAMPLING HELPERS ---
+
+const insidePolygon = (x: number, y: number, polygon: Point2[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Random point on a set of polylines, uniform by length
+const createStrokeSampler = (strokes: Point2[][]) => {
+  const segments: { a: Point2; b: Point2; length: number }[] = [];
+  for (const stroke of strokes) {
+    for (let i = 1; i < stroke.length; i++) {
+      const a = stroke[i - 1];
+      const b = stroke[i];
+      segments.push({ a, b, length: Math.hypot(b[0] - a[0], b[1] - a[1]) });
+    }
+  }
+  const total = segments.reduce((sum, s) => sum + s.length, 0);
+
+  return (random: RandomFn): Point2 => {
+    let d = random() * total;
+    for (const s of segments) {
+      if (d <= s.length) {
+        const t = s.length > 0 ? d / s.length : 0;
+        return [s.a[0] + (s.b[0] - s.a[0]) * t, s.a[1] + (s.b[1] - s.a[1]) * t];
+      }
+      d -= s.length;
+    }
+    const last = segments[segments.length - 1].b;
+    return [last[0], last[1]];
+  };
+};
+
+const createFillSampler = (polygon: Point2[]) => {
+  const xs = polygon.map((p) => p[0]);
+  const ys = polygon.map((p) => p[1]);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  return (random: RandomFn): Point2 => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const x = minX + random() * (maxX - minX);
+      const y = minY + random() * (maxY - minY);
+      if (insidePolygon(x, y, polygon)) return [x, y];
+    }
+    return [(minX + maxX) / 2, (minY + maxY) / 2];
+  };
+};
+
+// Places unit-sized 2D points into the scene: centred on the tree, sized to its
+// height, with some depth so the figure reads as a volume rather than a card.
+const placeFlat = (
+  count: number,
+  random: RandomFn,
+  layout: TreeLayout,
+  size: number,
+  depth: number,
+  pick: (random: RandomFn) => Point2
+): Float32Array => {
+  const { height, yOffset } = layout.foliage;
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const [x, y] = pick(random);
+    out[i * 3] = x * height * size;
+    out[i * 3 + 1] = yOffset + y * height * size;
+    out[i * 3 + 2] = (random() - 0.5) * height * depth;
+  }
+  return out;
+};
+
+// Foliage fills the figure, the garland traces its outline and ornaments sit
+// in between, slightly in front so they are not buried in needles.
+const flatFormation = (outline: Point2[], size: number) => {
+  const fill = createFillSampler(outline);
+  const edge = createStrokeSampler([[...outline, outline[0]]]);
+
+  return (layer: FormationLayer, count: number, random: RandomFn, { layout }: FormationContext) => {
+    if (layer === 'garland') return placeFlat(count, random, layout, size, 0.01, edge);
+    const depth = layer === 'ornaments' ? 0.04 : 0.08;
+    const points = placeFlat(count, random, layout, size, depth, fill);
+    if (layer === 'ornaments') {
+      for (let i = 0; i < count; i++) points[i * 3 + 2] += layout.foliage.height * 0.04;
+    }
+    return points;
+  };
+};
+
+// --- SHAPES (unit-sized, centred on the origin) ---
+
+const HEART_OUTLINE: Point2[] = Array.from({ length: 96 }, (_, i) => {
+  const t = (i / 96) * Math.PI * 2;
+  const x = 16 * Math.pow(Math.sin(t), 3);
+  const y = 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t);
+  return [x / 17, (y + 2.5) / 17];
+});
+
+const starOutline = (points: number, outer: number, inner: number): Point2[] =>
+  Array.from({ length: points * 2 }, (_, i) => {
+    const radius = i % 2 === 0 ? outer : inner;
+    const angle = (i / (points * 2)) * Math.PI * 2;
+    return [Math.sin(angle) * radius, Math.cos(angle) * radius];
+  });
+
+const STAR_OUTLINE = starOutline(5, 1, 0.42);
+
+// Digits as strokes in a 0.6 x 1 cell
+const DIGIT_STROKES: Record<string, Point2[][]> = {
+  '0': [[[0.15, 0], [0.45, 0], [0.6, 0.15], [0.6, 0.85], [0.45, 1], [0.15, 1], [0, 0.85], [0, 0.15], [0.15, 0]]],
+  '1': [[[0.15, 0.8], [0.35, 1], [0.35, 0]], [[0.1, 0], [0.6, 0]]],
+  '2': [[[0, 0.8], [0.15, 1], [0.45, 1], [0.6, 0.8], [0.6, 0.62], [0, 0], [0.6, 0]]],
+  '3': [
+    [[0, 0.9], [0.15, 1], [0.45, 1], [0.6, 0.85], [0.6, 0.65], [0.45, 0.5], [0.2, 0.5]],
+    [[0.45, 0.5], [0.6, 0.35], [0.6, 0.15], [0.45, 0], [0.15, 0], [0, 0.1]],
+  ],
+  '4': [[[0.45, 0], [0.45, 1], [0, 0.3], [0.6, 0.3]]],
+  '5': [[[0.6, 1], [0, 1], [0, 0.55], [0.45, 0.55], [0.6, 0.4], [0.6, 0.15], [0.45, 0], [0.15, 0], [0, 0.1]]],
+  '6': [[[0.55, 0.95], [0.35, 1], [0.15, 1], [0, 0.8], [0, 0.2], [0.15, 0], [0.45, 0], [0.6, 0.15], [0.6, 0.4], [0.45, 0.55], [0.15, 0.55], [0, 0.4]]],
+  '7': [[[0, 1], [0.6, 1], [0.2, 0]]],
+  '8': [
+    [[0.3, 0.5], [0.05, 0.62], [0.05, 0.88], [0.3, 1], [0.55, 0.88], [0.55, 0.62], [0.3, 0.5]],
+    [[0.3, 0.5], [0, 0.35], [0, 0.12], [0.3, 0], [0.6, 0.12], [0.6, 0.35], [0.3, 0.5]],
+  ],
+  '9': [[[0.05, 0.05], [0.25, 0], [0.45, 0], [0.6, 0.2], [0.6, 0.8], [0.45, 1], [0.15, 1], [0, 0.85], [0, 0.6], [0.15, 0.45], [0.45, 0.45], [0.6, 0.6]]],
+};
+
+// Lays digits out on one line, centred, with each digit one unit tall
+const numeralStrokes = (text: string): Point2[][] => {
+  const advance = 0.85;
+  const width = (text.length - 1) * advance + 0.6;
+  const strokes: Point2[][] = [];
+  [...text].forEach((char, i) => {
+    for (const stroke of DIGIT_STROKES[char] ?? []) {
+      strokes.push(stroke.map(([x, y]) => [x + i * advance - width / 2, y - 0.5] as Point2));
+    }
+  });
+  return strokes;
+};
+
+const numeralFormation = (text: string, size: number) => {
+  const along = createStrokeSampler(numeralStrokes(text));
+  return (layer: FormationLayer, count: number, random: RandomFn, { layout }: FormationContext) => {
+    // Needles get a thick brush; the garland runs down the middle of each stroke
+    const brush = layer === 'garland' ? 0 : layer === 'ornaments' ? 0.06 : 0.12;
+    const thick = (r: RandomFn): Point2 => {
+      const [x, y] = along(r);
+      const angle = r() * Math.PI * 2;
+      const radius = Math.sqrt(r()) * brush;
+      return [x + Math.cos(angle) * radius, y + Math.sin(angle) * radius];
+    };
+    return placeFlat(count, random, layout, size, layer === 'garland' ? 0.01 : 0.05, thick);
+  };
+};
+
+const galaxyFormation = (arms: number) => (layer: FormationLayer, count: number, random: RandomFn, { layout }: FormationContext) => {
+  const { height, yOffset } = layout.foliage;
+  const radius = height * 0.55;
+  const tilt = new THREE.Euler(-1.1, 0, 0.25);
+  const point = new THREE.Vector3();
+  const out = new Float32Array(count * 3);
+  // Garland lights stay on the arms; needles also fill a bright central bulge
+  const bulgeShare = layer === 'foliage' ? 0.2 : 0;
+
+  for (let i = 0; i < count; i++) {
+    if (random() < bulgeShare) {
+      const r = Math.pow(random(), 2) * radius * 0.18;
+      const theta = random() * Math.PI * 2;
+      const phi = Math.acos(2 * random() - 1);
+      point.set(r * Math.sin(phi) * Math.cos(theta), r * Math.cos(phi) * 0.6, r * Math.sin(phi) * Math.sin(theta));
+    } else {
+      const arm = Math.floor(random() * arms);
+      const d = Math.sqrt(random());
+      const spread = layer === 'garland' ? 0.05 : 0.35 * (1 - d * 0.5);
+      const angle = (arm / arms) * Math.PI * 2 + d * Math.PI * 2.2 + (random() - 0.5) * spread;
+      const r = radius * (0.08 + d * 0.92);
+      point.set(Math.cos(angle) * r, (random() - 0.5) * height * 0.03, Math.sin(angle) * r);
+    }
+    point.applyEuler(tilt);
+    out[i * 3] = point.x;
+    out[i * 3 + 1] = yOffset + point.y;
+    out[i * 3 + 2] = point.z;
+  }
+  return out;
+};
+
+// Stand-in for runtime formations whose input is missing (nothing typed or
+// picked yet): a small glowing knot at the centre
+const placeholderKnot = (count: number, random: RandomFn, layout: TreeLayout) =>
+  placeFlat(count, random, layout, 0.04, 0.04, (r) => [r() - 0.5, r() - 0.5]);
+
+// The typed text, rasterised and fitted by textPoints. Needles fill the glyphs,
+// garland lights and ornaments are sprinkled over them, ornaments in front.
+const textFormation = (layer: FormationLayer, count: number, random: RandomFn, { layout, text }: FormationContext) => {
+  const { height } = layout.foliage;
+  if (!text) return placeholderKnot(count, random, layout);
+  if (layer === 'garland') return sampleTextShape(text, count, random, height * 0.01);
+  if (layer === 'ornaments') return sampleTextShape(text, count, random, height * 0.02, height * 0.04);
+  return sampleTextShape(text, count, random, height * 0.05);
+};
+
+// The picked photo, weighted towards its bright areas. Needles take on the
+// photo's colours (see `paint`); lights and ornaments keep their own.
+const imageFormation = (layer: FormationLayer, count: number, random: RandomFn, { layout, image }: FormationContext) => {
+  const { height } = layout.foliage;
+  if (!image) return placeholderKnot(count, random, layout);
+  if (layer === 'garland') return sampleImageShape(image, count, random, height * 0.01);
+  if (layer === 'ornaments') return sampleImageShape(image, count, random, height * 0.02, height * 0.04);
+  return sampleImageShape(image, count, random, height * 0.03);
+};
+
+// --- REGISTRY ---
+
+const HEART_SIZE = 0.42;
+const STAR_SIZE = 0.45;
+const YEAR_SIZE = 0.26;
+
+export const FORMATIONS: Record<FormationId, Formation> = {
+  scattered: { id: 'scattered', floating: true },
+  tree: {
+    id: 'tree',
+    floating: false,
+    topper: ({ layout }) => new THREE.Vector3(0, layout.starY, 0),
+  },
+  heart: {
+    id: 'heart',
+    floating: false,
+    sample: flatFormation(HEART_OUTLINE, HEART_SIZE),
+    // In the dip between the two lobes
+    topper: ({ layout }) => new THREE.Vector3(0, layout.foliage.yOffset + layout.foliage.height * HEART_SIZE * 0.44, 0.6),
+  },
+  star: {
+    id: 'star',
+    floating: false,
+    sample: flatFormation(STAR_OUTLINE, STAR_SIZE),
+    topper: ({ layout }) => new THREE.Vector3(0, layout.foliage.yOffset, layout.foliage.height * 0.06),
+  },
+  year: {
+    id: 'year',
+    floating: false,
+    sample: numeralFormation('2026', YEAR_SIZE),
+    // Just above the digits
+    topper: ({ layout }) => new THREE.Vector3(0, layout.foliage.yOffset + layout.foliage.height * YEAR_SIZE * 0.8, 0),
+  },
+  galaxy: {
+    id: 'galaxy',
+    floating: false,
+    sample: galaxyFormation(3),
+    // The galactic core
+    topper: ({ layout }) => new THREE.Vector3(0, layout.foliage.yOffset, 0),
+  },
+  text: {
+    id: 'text',
+    floating: false,
+    readable: true,
+    sample: textFormation,
+    // Centred just above the first line
+    topper: ({ layout, text }) =>
+      new THREE.Vector3(0, text ? text.centerY + text.height / 2 + layout.foliage.height * 0.05 : layout.foliage.yOffset, 0),
+  },
+  image: {
+    id: 'image',
+    floating: false,
+    readable: true,
+    sample: imageFormation,
+    // Above the picture's top edge
+    topper: ({ layout, image }) =>
+      new THREE.Vector3(0, image ? image.centerY + image.height / 2 + layout.foliage.height * 0.05 : layout.foliage.yOffset, 0),
+    paint: (positions, { image }) => (image ? paintImageShape(image, positions) : new Float32Array((positions.length / 3) * 4)),
+  },
+};
+
+// Selectable shapes, in the order the UI lists them
+export const SHAPE_FORMATIONS: FormationId[] = ['tree', 'heart', 'star', 'year', 'galaxy', 'text', 'image'];
+
+export const isAssembled = (formation: FormationId) => !FORMATIONS[formation].floating;
+
+// Target positions of one particle layer for any formation, computed lazily and
+// cached until the layer's data or the formation context changes. `native` holds
+// the layer's own tree and scattered targets; `stream` keeps each layer's
+// samples independent.
+export const useFormationTargets = (
+  native: Pick<Record<FormationId, Float32Array>, 'tree' | 'scattered'>,
+  layer: FormationLayer,
+  stream: string,
+  count: number,
+  seed: number,
+  context: FormationContext
+) => {
+  const cache = useMemo(() => new Map<FormationId, Float32Array>(), [native, layer, stream, count, seed, context]);
+
+  return useCallback(
+    (id: FormationId): Float32Array => {
+      if (id === 'tree' || id === 'scattered') return native[id];
+      let targets = cache.get(id);
+      if (!targets) {
+        targets = FORMATIONS[id].sample!(layer, count, createRandom(seed, `${stream}:${id}`), context);
+        cache.set(id, targets);
+      }
+      return targets;
+    },
+    [cache, native, layer, stream, count, seed, context]
+  );
+};
+
+// Per-point tints matching `getTargets`, for formations that paint the layer.
+// Formations without `paint` share one all-zero buffer, i.e. untinted.
+export const useFormationTints = (
+  getTargets: (id: FormationId) => Float32Array,
+  count: number,
+  context: FormationContext
+) => {
+  const cache = useMemo(() => new Map<FormationId, Float32Array>(), [getTargets, context]);
+  const untinted = useMemo(() => new Float32Array(count * 4), [count]);
+
+  return useCallback(
+    (id: FormationId): Float32Array => {
+      const paint = FORMATIONS[id].paint;
+      if (!paint) return untinted;
+      let tints = cache.get(id);
+      if (!tints) {
+        tints = paint(getTargets(id), context);
+        cache.set(id, tints);
+      }
+      return tints;
+    },
+    [cache, untinted, getTargets, context]
+  );
+};
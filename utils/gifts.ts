@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { GiftSurpriseKind, SurpriseObjectId } from '../types';
+
+// Gifts that open. Each box is drawn in parts (the box, its lid, the ribbons
+// round the box, and the lid's ribbons and bow) which the instance shader
+// moves apart by one per-gift opening amount: the gift rolls upright, the lid
+// pops off and the ribbons slacken, and whatever the gift holds rises out.
+// Everything reseals when the tree scatters.
+
+export const GIFT_SURPRISE_KINDS: GiftSurpriseKind[] = ['burst', 'photo', 'message', 'object'];
+export const SURPRISE_OBJECTS: SurpriseObjectId[] = ['star', 'heart', 'bell'];
+
+// Seconds for a lid to come off, and to go back on
+const OPEN_TIME = 1.4;
+const RESEAL_TIME = 0.7;
+
+// --- PARTS ---
+// Unit boxes, sized per gift in the shader (see GiftInstance.size). `aPart`
+// tells the shader which part a vertex belongs to.
+
+export const GIFT_PART = { box: 0, lid: 1, ribbon: 2 } as const;
+
+// The lid's share of the box's height, from the top
+const LID_DEPTH = 0.15;
+const RIBBON_WIDTH = 0.2;
+
+const part = (geometry: THREE.BufferGeometry, id: number): THREE.BufferGeometry => {
+  const count = geometry.getAttribute('position').count;
+  geometry.setAttribute('aPart', new THREE.Float32BufferAttribute(new Float32Array(count).fill(id), 1));
+  return geometry;
+};
+
+const slab = (width: number, height: number, depth: number, y: number) =>
+  new THREE.BoxGeometry(width, height, depth).translate(0, y, 0);
+
+// A bow of two loops and a knot, sitting on the lid
+const createBow = (): THREE.BufferGeometry[] => {
+  const top = 0.5 + 0.02;
+  const loops = [-1, 1].map((side) =>
+    new THREE.TorusGeometry(0.12, 0.03, 6, 16)
+      .scale(1, 0.7, 1)
+      .rotateZ(side * 0.6)
+      .translate(side * 0.1, top + 0.07, 0)
+  );
+  const knot = new THREE.SphereGeometry(0.05, 8, 6).translate(0, top + 0.02, 0);
+  return [...loops, knot];
+};
+
+export interface GiftGeometries {
+  box: THREE.BufferGeometry;
+  lid: THREE.BufferGeometry;
+  ribbons: THREE.BufferGeometry; // Round the box
+  bow: THREE.BufferGeometry; // The lid's ribbons and bow
+}
+
+export const createGiftGeometries = (): GiftGeometries => {
+  const body = 1 - LID_DEPTH;
+  const bodyY = -0.5 + body / 2;
+  const lidY = 0.5 - LID_DEPTH / 2;
+  // Lids overhang the box a little, and ribbons stand proud of what they wrap
+  return {
+    box: part(slab(1, body, 1, bodyY), GIFT_PART.box),
+    lid: part(slab(1.04, LID_DEPTH, 1.04, lidY), GIFT_PART.lid),
+    ribbons: part(
+      mergeGeometries([slab(RIBBON_WIDTH, body, 1.02, bodyY), slab(1.02, body, RIBBON_WIDTH, bodyY)])!,
+      GIFT_PART.ribbon
+    ),
+    bow: part(
+      mergeGeometries([
+        slab(RIBBON_WIDTH, LID_DEPTH + 0.02, 1.06, lidY),
+        slab(1.06, LID_DEPTH + 0.02, RIBBON_WIDTH, lidY),
+        ...createBow(),
+      ])!,
+      GIFT_PART.lid
+    ),
+  };
+};
+
+// --- OPENING ---
+
+export class GiftOpenings {
+  // Per gift, 0 sealed to 1 open; uploaded as the aOpen attribute
+  readonly progress: Float32Array;
+  // Moves on whenever a gift starts opening or finishes resealing
+  version = 0;
+
+  private opened: Uint8Array;
+
+  constructor(count: number) {
+    this.progress = new Float32Array(count);
+    this.opened = new Uint8Array(count);
+  }
+
+  isOpen(index: number) {
+    return this.opened[index] === 1;
+  }
+
+  open(index: number) {
+    if (this.opened[index]) return;
+    if (this.progress[index] === 0) this.version++;
+    this.opened[index] = 1;
+  }
+
+  resealAll() {
+    this.opened.fill(0);
+  }
+
+  // Gifts that aren't fully sealed, so their surprises are showing
+  unsealed(): number[] {
+    const out: number[] = [];
+    this.progress.forEach((p, i) => {
+      if (p > 0 || this.opened[i]) out.push(i);
+    });
+    return out;
+  }
+
+  // True when any gift moved
+  tick(delta: number): boolean {
+    let moved = false;
+    for (let i = 0; i < this.progress.length; i++) {
+      const p = this.progress[i];
+      const next = this.opened[i] ? Math.min(1, p + delta / OPEN_TIME) : Math.max(0, p - delta / RESEAL_TIME);
+      if (next === p) continue;
+      this.progress[i] = next;
+      moved = true;
+      if (next === 0) this.version++;
+    }
+    return moved;
+  }
+}
@@ -0,0 +1,116 @@
+import { Greeting } from '../types';
+import { containsCJK } from './i18n';
+
+// Blank fields mean "use the default", which comes from the viewer's locale
+// (see Messages.defaultGreeting), so an unedited card reads naturally in any language.
+export const EMPTY_GREETING: Greeting = {
+  recipient: '',
+  sender: '',
+  message: '',
+  subtitle: '',
+  label: '',
+};
+
+// Field order is part of the link format: never reorder, only append
+const FIELDS: (keyof Greeting)[] = ['recipient', 'sender', 'message', 'subtitle', 'label'];
+
+export const GREETING_LIMITS: Record<keyof Greeting, number> = {
+  recipient: 40,
+  sender: 40,
+  message: 120,
+  subtitle: 60,
+  label: 40,
+};
+
+// Trims fields and enforces the length limits
+export const normalizeGreeting = (greeting: Greeting): Greeting => {
+  const result = { ...EMPTY_GREETING };
+  for (const field of FIELDS) {
+    result[field] = (greeting[field] ?? '').trim().slice(0, GREETING_LIMITS[field]);
+  }
+  return result;
+};
+
+// Fills blank fields from the given defaults for display
+export const resolveGreeting = (greeting: Greeting, defaults: Greeting): Greeting => {
+  const result = { ...defaults };
+  for (const field of FIELDS) {
+    if (greeting[field]) result[field] = greeting[field];
+  }
+  return result;
+};
+
+export const isEmptyGreeting = (greeting: Greeting): boolean => FIELDS.every((field) => !greeting[field].trim());
+
+const LINK_VERSION = '1';
+const MAX_PARAM_LENGTH = 2048;
+
+// --- BASE64URL (UTF-8 safe) ---
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  // fatal: reject byte sequences that are not valid UTF-8
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+};
+
+// --- LINK FORMAT ---
+// "<version>.<base64url of a JSON array of the fields>"
+// Blank fields stay blank, so the viewer sees their own locale's default.
+
+export const encodeGreeting = (greeting: Greeting): string => {
+  const normalized = normalizeGreeting(greeting);
+  const values = FIELDS.map((field) => normalized[field]);
+  // Drop trailing defaults
+  while (values.length > 0 && values[values.length - 1] === '') values.pop();
+  return `${LINK_VERSION}.${toBase64Url(JSON.stringify(values))}`;
+};
+
+// Returns null for anything malformed or oversized, so callers fall back to the default card
+export const decodeGreeting = (param: string | null): Greeting | null => {
+  if (!param || param.length > MAX_PARAM_LENGTH) return null;
+  const [version, payload] = param.split('.', 2);
+  if (version !== LINK_VERSION || !payload) return null;
+
+  let values: unknown;
+  try {
+    values = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(values) || values.length > FIELDS.length) return null;
+
+  const greeting: Greeting = { ...EMPTY_GREETING };
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    const field = FIELDS[i];
+    if (typeof value !== 'string' || value.length > GREETING_LIMITS[field]) return null;
+    greeting[field] = value.trim();
+  }
+  return greeting;
+};
+
+export const buildShareLink = (greeting: Greeting): string => {
+  const url = new URL(window.location.href);
+  url.searchParams.set('card', encodeGreeting(greeting));
+  return url.toString();
+};
+
+// Chinese reads "小杨祝您…" with no gap; Latin text needs a space between name and message
+
+export const joinSenderMessage = (sender: string, message: string): string => {
+  if (!sender) return message;
+  if (!message) return sender;
+  const tight = containsCJK(sender[sender.length - 1]) || containsCJK(message[0]);
+  return tight ? `${sender}${message}` : `${sender} ${message}`;
+};
@@ -0,0 +1,88 @@
+import { useCallback, useMemo, useReducer } from 'react';
+
+// Undo/redo over immutable snapshots. Edits either commit (one undo step each)
+// or preview (live updates during a drag, no step); `settle` then turns
+// everything since the drag began into a single step.
+
+// Older steps are dropped beyond this
+const MAX_STEPS = 100;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type Update<T> = (prev: T) => T;
+
+type HistoryAction<T> =
+  | { type: 'commit'; update: Update<T> }
+  | { type: 'preview'; update: Update<T> }
+  | { type: 'settle'; base: T }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset'; value: T };
+
+const pushStep = <T>(past: T[], step: T): T[] => [...past, step].slice(-MAX_STEPS);
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      return { past: pushStep(state.past, state.present), present: next, future: [] };
+    }
+    case 'preview':
+      return { ...state, present: action.update(state.present) };
+    case 'settle':
+      // A drag that ended where it started leaves no step behind
+      if (action.base === state.present) return state;
+      return { past: pushStep(state.past, action.base), present: state.present, future: [] };
+    case 'undo':
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: state.past[state.past.length - 1],
+        future: [state.present, ...state.future],
+      };
+    case 'redo':
+      if (state.future.length === 0) return state;
+      return {
+        past: pushStep(state.past, state.present),
+        present: state.future[0],
+        future: state.future.slice(1),
+      };
+    case 'reset':
+      return { past: [], present: action.value, future: [] };
+  }
+};
+
+export const useHistory = <T>(initial: T) => {
+  const [state, dispatch] = useReducer(historyReducer as (s: HistoryState<T>, a: HistoryAction<T>) => HistoryState<T>, {
+    past: [],
+    present: initial,
+    future: [],
+  });
+
+  const commit = useCallback((update: Update<T>) => dispatch({ type: 'commit', update }), []);
+  const preview = useCallback((update: Update<T>) => dispatch({ type: 'preview', update }), []);
+  const settle = useCallback((base: T) => dispatch({ type: 'settle', base }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+  const reset = useCallback((value: T) => dispatch({ type: 'reset', value }), []);
+
+  return useMemo(
+    () => ({
+      present: state.present,
+      canUndo: state.past.length > 0,
+      canRedo: state.future.length > 0,
+      commit,
+      preview,
+      settle,
+      undo,
+      redo,
+      reset,
+    }),
+    [state, commit, preview, settle, undo, redo, reset]
+  );
+};
@@ -0,0 +1,507 @@
+import { DecorationType, FormationId, Greeting, LightingMode, LightPatternId, SilhouetteId, ThemeId, TopperId, WindPresetId } from '../types';
+import { getUrlParam } from './url';
+import { QualityTier } from './quality';
+import { CameraSequenceId } from './camera';
+
+export type Locale = 'zh-CN' | 'en';
+
+export const LOCALES: Locale[] = ['zh-CN', 'en'];
+
+export interface Messages {
+  languageName: string; // Shown on the switcher, in the language itself
+  headline: string; // {recipient}
+  assembleTree: string;
+  assembleShape: string; // {shape}
+  formations: Record<FormationId, string>;
+  textPlaceholder: string;
+  spell: string;
+  choosePhoto: string;
+  photoPrivacy: string;
+  photoError: string;
+  play: string;
+  pause: string;
+  timeline: string;
+  quality: {
+    label: string;
+    auto: string;
+    tiers: Record<QualityTier, string>;
+  };
+  lights: {
+    label: string;
+    patterns: Record<LightPatternId, string>;
+  };
+  camera: {
+    label: string;
+    sequences: Record<CameraSequenceId, string>;
+  };
+  wind: {
+    label: string;
+    presets: Record<WindPresetId, string>;
+  };
+  lighting: {
+    label: string;
+    modes: Record<LightingMode, string>;
+  };
+  theme: {
+    label: string;
+    themes: Record<ThemeId, string>;
+  };
+  silhouette: {
+    label: string;
+    shapes: Record<SilhouetteId, string>;
+  };
+  topper: {
+    label: string;
+    toppers: Record<TopperId, string>;
+  };
+  record: {
+    open: string;
+    title: string;
+    script: string; // What the video shows
+    aspect: string;
+    fixedStep: string;
+    fixedStepHint: string;
+    start: string;
+    close: string;
+    preparing: string;
+    recording: string; // {percent}
+    cancel: string;
+    unsupported: string;
+    failed: string;
+  };
+  poster: {
+    open: string;
+    title: string;
+    hint: string; // What the poster shows
+    size: string;
+    grain: string;
+    grainHint: string;
+    save: string;
+    saving: string;
+    close: string;
+    failed: string;
+  };
+  music: {
+    label: string;
+    carol: string; // The built-in song
+    openFile: string;
+    volume: string;
+    blocked: string;
+  };
+  releaseMagic: string;
+  hintTree: string;
+  hintScattered: string;
+  collection: string;
+  reroll: string;
+  rerollTitle: string;
+  createCard: string;
+  ornament: {
+    blessing: string; // Heading for ornaments without a configured note
+    forRecipient: string; // {to}
+    close: string;
+  };
+  decorate: {
+    enter: string;
+    place: string;
+    erase: string;
+    types: Record<DecorationType, string>;
+    color: string;
+    placeHint: string;
+    eraseHint: string;
+    undo: string;
+    redo: string;
+    done: string;
+  };
+  saves: {
+    open: string;
+    title: string;
+    autosaveNote: string;
+    slot: string; // {n}
+    empty: string;
+    save: string;
+    load: string;
+    import: string;
+    export: string;
+    close: string;
+    importError: string; // Followed by the reason
+    storageError: string;
+  };
+  // One is revealed by any ornament without a note of its own
+  blessings: string[];
+  card: {
+    title: string;
+    to: string;
+    from: string;
+    message: string;
+    subtitle: string;
+    label: string;
+    reset: string;
+    copyLink: string;
+    copied: string;
+    apply: string;
+  };
+  // Used for any greeting field the card leaves blank
+  defaultGreeting: Greeting;
+}
+
+export const MESSAGES: Record<Locale, Messages> = {
+  'zh-CN': {
+    languageName: '中文',
+    headline: '圣诞快乐，{recipient}',
+    assembleTree: '聚成圣诞树',
+    assembleShape: '聚成{shape}',
+    formations: {
+      scattered: '散开',
+      tree: '圣诞树',
+      heart: '爱心',
+      star: '星星',
+      year: '2026',
+      galaxy: '星系',
+      text: '文字',
+      image: '照片',
+    },
+    textPlaceholder: '输入名字或祝福',
+    spell: '拼出',
+    choosePhoto: '选择照片',
+    photoPrivacy: '照片仅在本机处理，不会上传',
+    photoError: '无法读取这张图片',
+    play: '播放',
+    pause: '暂停',
+    timeline: '变换进度',
+    quality: {
+      label: '画质',
+      auto: '自动',
+      tiers: { low: '低', medium: '中', high: '高', ultra: '极致' },
+    },
+    lights: {
+      label: '彩灯',
+      patterns: { steady: '常亮', twinkle: '闪烁', chase: '追逐', alternate: '变色', breathe: '呼吸', sparkle: '星闪' },
+    },
+    camera: {
+      label: '镜头',
+      sequences: { free: '自由', showcase: '巡礼', star: '星光', orbit: '环绕' },
+    },
+    wind: {
+      label: '风',
+      presets: { calm: '无风', breeze: '微风', gusty: '阵风', storm: '大风', blizzard: '暴风雪' },
+    },
+    lighting: {
+      label: '光照',
+      modes: {
+        studio: '影棚',
+        fireplace: '壁炉',
+        moonlit: '月光雪夜',
+        gallery: '展厅',
+        candlelight: '烛光',
+        daylight: '日光',
+        night: '夜晚',
+        live: '跟随时间',
+      },
+    },
+    theme: {
+      label: '配色',
+      themes: { emerald: '翡翠金', christmas: '经典红绿', frost: '银霜', lunar: '新春红金', midnight: '午夜蓝' },
+    },
+    silhouette: {
+      label: '树形',
+      shapes: { cone: '圆锥', fir: '分层冷杉', nordmann: '诺曼冷杉', topiary: '球形修剪', lsystem: '分形枝', spiral: '螺旋' },
+    },
+    topper: {
+      label: '树顶',
+      toppers: { star: '星星', moravian: '摩拉维亚星', snowflake: '雪花', angel: '天使', svg: '自定义' },
+    },
+    record: {
+      open: '录制视频',
+      title: '录制视频',
+      script: '粒子汇聚成树，镜头环绕一周，最后停在贺卡上',
+      aspect: '画幅',
+      fixedStep: '固定帧步长',
+      fixedStepHint: '卡顿时放慢而不跳帧，画面更流畅',
+      start: '开始录制',
+      close: '关闭',
+      preparing: '准备中…',
+      recording: '录制中 {percent}%',
+      cancel: '取消',
+      unsupported: '这个浏览器不支持录制视频',
+      failed: '录制没能开始，请重试',
+    },
+    poster: {
+      open: '保存海报',
+      title: '保存海报',
+      hint: '以打印分辨率渲染当前画面，并附上你的贺卡',
+      size: '尺寸',
+      grain: '胶片颗粒',
+      grainHint: '与页面相同的细微质感',
+      save: '保存 PNG',
+      saving: '渲染中…',
+      close: '关闭',
+      failed: '海报没能渲染，请试试较小的尺寸',
+    },
+    music: {
+      label: '音乐',
+      carol: '铃儿响叮当',
+      openFile: '本地音乐',
+      volume: '音量',
+      blocked: '浏览器阻止了播放，请再点一次',
+    },
+    releaseMagic: '释放魔法',
+    hintTree: '滑动旋转 • 双指缩放',
+    hintScattered: '粒子在失重中漂浮',
+    collection: '典藏系列',
+    reroll: '换一棵',
+    rerollTitle: '随机生成新的布局',
+    createCard: '制作贺卡',
+    ornament: {
+      blessing: '一份祝福',
+      forRecipient: '给 {to}',
+      close: '关闭',
+    },
+    decorate: {
+      enter: '装饰',
+      place: '挂饰品',
+      erase: '取下',
+      types: { sphere: '彩球', diamond: '钻饰', bauble: '小珠' },
+      color: '颜色',
+      placeHint: '点击树挂上 • 拖动移位',
+      eraseHint: '点击饰品将其取下',
+      undo: '撤销',
+      redo: '重做',
+      done: '完成',
+    },
+    saves: {
+      open: '存档',
+      title: '保存与读取',
+      autosaveNote: '当前的树会自动保存在本机',
+      slot: '存档 {n}',
+      empty: '空',
+      save: '保存',
+      load: '读取',
+      import: '导入',
+      export: '导出',
+      close: '关闭',
+      importError: '无法打开这个文件：',
+      storageError: '浏览器存储不可用或已满',
+    },
+    blessings: [
+      '愿你被温柔以待',
+      '新的一年，万事胜意',
+      '平安喜乐，岁岁无忧',
+      '愿所有的美好如约而至',
+      '灯火可亲，家人团圆',
+      '心有暖阳，何惧风霜',
+    ],
+    card: {
+      title: '制作贺卡',
+      to: '收件人',
+      from: '寄件人',
+      message: '祝福语',
+      subtitle: '副标题',
+      label: '角标',
+      reset: '重置',
+      copyLink: '复制链接',
+      copied: '已复制',
+      apply: '应用',
+    },
+    defaultGreeting: {
+      recipient: '家人们',
+      sender: '小杨',
+      message: '祝您身体健康，事事顺意',
+      subtitle: '平安喜乐',
+      label: '2025 佳节',
+    },
+  },
+  en: {
+    languageName: 'EN',
+    headline: 'Merry Christmas, {recipient}',
+    assembleTree: 'Assemble Tree',
+    assembleShape: 'Assemble {shape}',
+    formations: {
+      scattered: 'Scattered',
+      tree: 'Tree',
+      heart: 'Heart',
+      star: 'Star',
+      year: '2026',
+      galaxy: 'Galaxy',
+      text: 'Text',
+      image: 'Photo',
+    },
+    textPlaceholder: 'Type a name or message',
+    spell: 'Spell',
+    choosePhoto: 'Choose Photo',
+    photoPrivacy: 'Processed on this device, never uploaded',
+    photoError: 'Could not read that image',
+    play: 'Play',
+    pause: 'Pause',
+    timeline: 'Transition timeline',
+    quality: {
+      label: 'Quality',
+      auto: 'Auto',
+      tiers: { low: 'Low', medium: 'Medium', high: 'High', ultra: 'Ultra' },
+    },
+    lights: {
+      label: 'Lights',
+      patterns: { steady: 'Steady', twinkle: 'Twinkle', chase: 'Chase', alternate: 'Alternate', breathe: 'Breathe', sparkle: 'Sparkle' },
+    },
+    camera: {
+      label: 'Camera',
+      sequences: { free: 'Free', showcase: 'Showcase', star: 'Star', orbit: 'Orbit' },
+    },
+    wind: {
+      label: 'Wind',
+      presets: { calm: 'Calm', breeze: 'Breeze', gusty: 'Gusty', storm: 'Storm', blizzard: 'Blizzard' },
+    },
+    lighting: {
+      label: 'Lighting',
+      modes: {
+        studio: 'Studio',
+        fireplace: 'Fireplace',
+        moonlit: 'Moonlit Snow',
+        gallery: 'Gallery',
+        candlelight: 'Candlelight',
+        daylight: 'Daylight',
+        night: 'Night',
+        live: 'Time of Day',
+      },
+    },
+    theme: {
+      label: 'Colours',
+      themes: { emerald: 'Emerald & Gold', christmas: 'Red & Green', frost: 'Silver Frost', lunar: 'Lunar New Year', midnight: 'Midnight Blue' },
+    },
+    silhouette: {
+      label: 'Shape',
+      shapes: { cone: 'Cone', fir: 'Tiered Fir', nordmann: 'Nordmann', topiary: 'Topiary', lsystem: 'Branching', spiral: 'Spiral' },
+    },
+    topper: {
+      label: 'Topper',
+      toppers: { star: 'Star', moravian: 'Moravian Star', snowflake: 'Snowflake', angel: 'Angel', svg: 'Custom' },
+    },
+    record: {
+      open: 'Record Video',
+      title: 'Record a Video',
+      script: 'The particles gather into the tree, the camera circles it once, then holds on your card',
+      aspect: 'Format',
+      fixedStep: 'Fixed frame step',
+      fixedStepHint: 'Slow frames stretch instead of skipping, so motion stays smooth',
+      start: 'Start Recording',
+      close: 'Close',
+      preparing: 'Preparing…',
+      recording: 'Recording {percent}%',
+      cancel: 'Cancel',
+      unsupported: 'This browser cannot record video',
+      failed: 'Recording could not start; please try again',
+    },
+    poster: {
+      open: 'Save Poster',
+      title: 'Save a Poster',
+      hint: 'The current view at print resolution, with your card',
+      size: 'Size',
+      grain: 'Film grain',
+      grainHint: 'The same subtle texture the page has',
+      save: 'Save PNG',
+      saving: 'Rendering…',
+      close: 'Close',
+      failed: 'The poster could not be rendered; try the smaller size',
+    },
+    music: {
+      label: 'Music',
+      carol: 'Jingle Bells',
+      openFile: 'Open file',
+      volume: 'Volume',
+      blocked: 'The browser blocked playback; click again',
+    },
+    releaseMagic: 'Release Magic',
+    hintTree: 'Swipe to rotate • Pinch to zoom',
+    hintScattered: 'Particles floating in zero gravity',
+    collection: 'Luxury Collection',
+    reroll: 'Reroll',
+    rerollTitle: 'Generate a new layout',
+    createCard: 'Create Card',
+    ornament: {
+      blessing: 'A Blessing',
+      forRecipient: 'For {to}',
+      close: 'Close',
+    },
+    decorate: {
+      enter: 'Decorate',
+      place: 'Hang',
+      erase: 'Remove',
+      types: { sphere: 'Sphere', diamond: 'Diamond', bauble: 'Bauble' },
+      color: 'Colour',
+      placeHint: 'Click the tree to hang • Drag to move',
+      eraseHint: 'Click an ornament to take it off',
+      undo: 'Undo',
+      redo: 'Redo',
+      done: 'Done',
+    },
+    saves: {
+      open: 'Saves',
+      title: 'Save & Load',
+      autosaveNote: 'The current tree is saved on this device automatically',
+      slot: 'Slot {n}',
+      empty: 'Empty',
+      save: 'Save',
+      load: 'Load',
+      import: 'Import',
+      export: 'Export',
+      close: 'Close',
+      importError: 'Could not open this file:',
+      storageError: 'Browser storage is unavailable or full',
+    },
+    blessings: [
+      'May your days be merry and bright',
+      'Peace on earth, and in your heart',
+      'May the new year bring you everything you hope for',
+      'Warmth, laughter and the people you love',
+      'May every window you pass glow for you',
+      'Wishing you quiet joy this season',
+    ],
+    card: {
+      title: 'Create Card',
+      to: 'To',
+      from: 'From',
+      message: 'Message',
+      subtitle: 'Subtitle',
+      label: 'Corner label',
+      reset: 'Reset',
+      copyLink: 'Copy Link',
+      copied: 'Copied',
+      apply: 'Apply',
+    },
+    defaultGreeting: {
+      recipient: 'my family',
+      sender: 'Xiao Yang',
+      message: 'wishes you good health and every success',
+      subtitle: "Season's Greetings",
+      label: 'Holiday 2025',
+    },
+  },
+};
+
+// Maps a BCP 47 tag ("zh-TW", "en-GB", ...) onto a supported locale
+export const matchLocale = (tag: string | null | undefined): Locale | null => {
+  if (!tag) return null;
+  const lower = tag.toLowerCase();
+  if (lower.startsWith('zh')) return 'zh-CN';
+  if (lower.startsWith('en')) return 'en';
+  return null;
+};
+
+// ?lang= wins, then the browser's preferred languages, then English
+export const detectLocale = (): Locale => {
+  const fromUrl = matchLocale(getUrlParam('lang'));
+  if (fromUrl) return fromUrl;
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const tag of preferred) {
+    const locale = matchLocale(tag);
+    if (locale) return locale;
+  }
+  return 'en';
+};
+
+// Chinese, Japanese and Korean ideographs, kana, hangul and full-width punctuation
+const CJK = /[\u1100-\u11ff\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+export const containsCJK = (text: string): boolean => CJK.test(text);
+
+export const formatMessage = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { RandomFn } from './random';
+import { TreeLayout } from './sceneConfig';
+
+// Image-to-particles: a local photo is decoded and downsampled in the browser
+// (nothing leaves the device), then particles are scattered over it in
+// proportion to brightness and pick up the colour of the pixel they land on.
+
+// Plenty for 15k particles, and keeps decoding large photos cheap
+const MAX_SAMPLE_SIZE = 200;
+// Dark areas still get a few particles so the portrait keeps its shadows
+const DARK_WEIGHT = 0.08;
+
+export interface ImageSample {
+  name: string;
+  width: number;
+  height: number;
+  colors: Float32Array; // Linear RGB per pixel, row-major
+  cumulative: Float32Array; // Running sum of pixel weights, for weighted picking
+}
+
+export const loadImageSample = async (file: File): Promise<ImageSample | null> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    console.warn(`[image] Could not decode "${file.name}"`);
+    return null;
+  }
+
+  const scale = Math.min(1, MAX_SAMPLE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const colors = new Float32Array(width * height * 3);
+  const cumulative = new Float32Array(width * height);
+  const color = new THREE.Color();
+  let total = 0;
+
+  for (let i = 0; i < width * height; i++) {
+    // Pixels are sRGB; the point shaders work in linear space
+    color.setRGB(data[i * 4] / 255, data[i * 4 + 1] / 255, data[i * 4 + 2] / 255, THREE.SRGBColorSpace);
+    color.toArray(colors, i * 3);
+
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = (0.2126 * data[i * 4] + 0.7152 * data[i * 4 + 1] + 0.0722 * data[i * 4 + 2]) / 255;
+    total += alpha * (DARK_WEIGHT + luminance);
+    cumulative[i] = total;
+  }
+  if (total <= 0) return null; // Fully transparent
+
+  return { name: file.name, width, height, colors, cumulative };
+};
+
+// --- FITTING INTO THE SCENE ---
+
+export interface ImageShape {
+  sample: ImageSample;
+  width: number; // World units
+  height: number;
+  centerY: number;
+}
+
+// Same footprint the text uses, so photos replace the tree at a similar scale
+export const fitImageShape = (sample: ImageSample, layout: TreeLayout): ImageShape => {
+  const { height: treeHeight, yOffset } = layout.foliage;
+  const aspect = sample.width / sample.height;
+  const width = Math.min(treeHeight * 0.9, treeHeight * 0.75 * aspect);
+  return { sample, width, height: width / aspect, centerY: yOffset };
+};
+
+const pickPixel = (cumulative: Float32Array, random: RandomFn): number => {
+  const target = random() * cumulative[cumulative.length - 1];
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export const sampleImageShape = (shape: ImageShape, count: number, random: RandomFn, depth: number, zOffset = 0): Float32Array => {
+  const { sample, width, height, centerY } = shape;
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const pixel = pickPixel(sample.cumulative, random);
+    const px = (pixel % sample.width) + random();
+    const py = Math.floor(pixel / sample.width) + random();
+    out[i * 3] = (px / sample.width - 0.5) * width;
+    out[i * 3 + 1] = centerY + (0.5 - py / sample.height) * height;
+    out[i * 3 + 2] = zOffset + (random() - 0.5) * depth;
+  }
+  return out;
+};
+
+// RGBA tint for points sampled from the image: the colour of the pixel under
+// each point, fully replacing the layer's own colour
+export const paintImageShape = (shape: ImageShape, positions: Float32Array): Float32Array => {
+  const { sample, width, height, centerY } = shape;
+  const count = positions.length / 3;
+  const out = new Float32Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    const px = THREE.MathUtils.clamp(Math.floor((positions[i * 3] / width + 0.5) * sample.width), 0, sample.width - 1);
+    const py = THREE.MathUtils.clamp(Math.floor((0.5 - (positions[i * 3 + 1] - centerY) / height) * sample.height), 0, sample.height - 1);
+    const pixel = py * sample.width + px;
+    out[i * 4] = sample.colors[pixel * 3];
+    out[i * 4 + 1] = sample.colors[pixel * 3 + 1];
+    out[i * 4 + 2] = sample.colors[pixel * 3 + 2];
+    out[i * 4 + 3] = 1;
+  }
+  return out;
+};
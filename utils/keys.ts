@@ -0,0 +1,16 @@
+// Stable React keys for generated data.
+// R3F swaps a bufferAttribute's array in place without re-uploading it, so a
+// geometry whose buffers were regenerated (new seed, count or shape) is keyed
+// on the new array to get a fresh GPU upload.
+
+const keys = new WeakMap<object, number>();
+let nextKey = 0;
+
+export const identityKey = (value: object): number => {
+  let key = keys.get(value);
+  if (key === undefined) {
+    key = ++nextKey;
+    keys.set(value, key);
+  }
+  return key;
+};
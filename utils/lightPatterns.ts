@@ -0,0 +1,123 @@
+import * as THREE from 'three';
+import { GarlandLights, LightPatternId } from '../types';
+
+// Fairy-light patterns for the garland bulbs. Every pattern is a GLSL branch
+// of one function, evaluated per bulb from its place along the wire; the
+// engine below feeds it a phase clock and cross-fades between two patterns so
+// switching never pops.
+
+// Order is the pattern's index in the shader
+export const LIGHT_PATTERNS: LightPatternId[] = ['steady', 'twinkle', 'chase', 'alternate', 'breathe', 'sparkle'];
+
+// Size of the colour uniform array
+export const MAX_LIGHT_COLORS = 8;
+
+// Seconds a pattern change cross-fades over
+const PATTERN_FADE = 0.8;
+
+// Expects `aCurve` (0 at the bottom of the wire, 1 at the top) and `aSlot`
+// (the bulb's order along the wire) from the caller.
+export const lightPatternShader = `
+  #define MAX_LIGHT_COLORS ${MAX_LIGHT_COLORS}
+
+  uniform float uLightPhase; // Pattern time, already scaled by speed
+  uniform float uLightDirection;
+  uniform float uPatternFrom;
+  uniform float uPatternTo;
+  uniform float uPatternFade; // 0.0 = uPatternFrom, 1.0 = uPatternTo
+  uniform vec3 uLightColors[MAX_LIGHT_COLORS];
+  uniform float uLightColorCount;
+
+  vec3 lightColor(float slot) {
+    return uLightColors[int(mod(slot, uLightColorCount))];
+  }
+
+  // Colour in rgb, brightness in a
+  vec4 lightPattern(float pattern, float curve, float slot, float rnd) {
+    float t = uLightPhase;
+    vec3 color = lightColor(slot);
+    float level = 1.0;
+
+    if (pattern < 0.5) {
+      // Steady
+    } else if (pattern < 1.5) {
+      // Twinkle: every bulb on its own slow, uneven flicker
+      level = 0.25 + 0.75 * pow(0.5 + 0.5 * sin(t * 3.0 + rnd * 62.83), 3.0);
+    } else if (pattern < 2.5) {
+      // Chase: bright heads with fading tails running along the wire
+      float head = fract(curve * 6.0 - t * 0.5 * uLightDirection);
+      level = 0.1 + 0.9 * pow(uLightDirection > 0.0 ? head : 1.0 - head, 6.0);
+    } else if (pattern < 3.5) {
+      // Alternate: each colour steps on to the next bulb
+      float shift = t * 0.5 * uLightDirection;
+      float base = slot - floor(shift) * uLightDirection;
+      color = mix(lightColor(base), lightColor(base - uLightDirection), smoothstep(0.8, 1.0, fract(shift)));
+    } else if (pattern < 4.5) {
+      // Breathe: the whole string swells and dims together
+      level = 0.2 + 0.8 * (0.5 - 0.5 * cos(t * 1.5));
+    } else {
+      // Sparkle: dim bulbs with brief white flashes at random
+      float clock = t * 4.0 + rnd * 17.0;
+      float flash = step(0.93, fract(sin(floor(clock) * 12.9898 + rnd * 78.233) * 43758.5453)) * (1.0 - fract(clock));
+      level = 0.3 + 2.5 * flash;
+      color = mix(color, vec3(2.0), flash * 0.5);
+    }
+    return vec4(color, level);
+  }
+
+  vec3 garlandLight(float curve, float slot, float rnd) {
+    vec4 from = lightPattern(uPatternFrom, curve, slot, rnd);
+    vec4 to = lightPattern(uPatternTo, curve, slot, rnd);
+    vec4 light = mix(from, to, uPatternFade);
+    return light.rgb * light.a;
+  }
+`;
+
+const patternIndex = (pattern: LightPatternId) => LIGHT_PATTERNS.indexOf(pattern);
+
+export class LightPatternEngine {
+  readonly uniforms = {
+    uLightPhase: { value: 0 },
+    uLightDirection: { value: 1 },
+    uPatternFrom: { value: 0 },
+    uPatternTo: { value: 0 },
+    uPatternFade: { value: 1 },
+    uLightColors: { value: Array.from({ length: MAX_LIGHT_COLORS }, () => new THREE.Vector3()) },
+    uLightColorCount: { value: 1 },
+  };
+
+  private speed = 1;
+  private bulbColor: THREE.Vector3 | null = null; // Followed live while the lights list no colours
+
+  // Takes effect gradually for the pattern and at once for everything else;
+  // the phase carries on, so a speed change doesn't jump
+  configure(lights: GarlandLights, bulbColor: THREE.Vector3) {
+    const u = this.uniforms;
+    const next = patternIndex(lights.pattern);
+    if (next !== u.uPatternTo.value) {
+      if (next === u.uPatternFrom.value) {
+        // Heading back mid-fade: reverse it
+        u.uPatternFrom.value = u.uPatternTo.value;
+        u.uPatternFade.value = 1 - u.uPatternFade.value;
+      } else {
+        // Fade out from whichever pattern currently dominates
+        u.uPatternFrom.value = u.uPatternFade.value < 0.5 ? u.uPatternFrom.value : u.uPatternTo.value;
+        u.uPatternFade.value = 0;
+      }
+      u.uPatternTo.value = next;
+    }
+    u.uLightDirection.value = lights.direction;
+    this.speed = lights.speed;
+
+    lights.colors.forEach((c, i) => u.uLightColors.value[i].set(c[0], c[1], c[2]));
+    u.uLightColorCount.value = Math.max(1, lights.colors.length);
+    this.bulbColor = lights.colors.length > 0 ? null : bulbColor;
+  }
+
+  tick(delta: number) {
+    const u = this.uniforms;
+    if (this.bulbColor) u.uLightColors.value[0].copy(this.bulbColor);
+    u.uLightPhase.value += delta * this.speed;
+    u.uPatternFade.value = Math.min(1, u.uPatternFade.value + delta / PATTERN_FADE);
+  }
+}
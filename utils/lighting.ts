@@ -0,0 +1,213 @@
+import * as THREE from 'three';
+import { LightingMode, LightingPresetId } from '../types';
+
+// Lighting looks. A preset sets the four scene lights, how much the
+// environment map reflects, the exposure and the background; switching
+// presets cross-fades every one of them. 'live' follows the viewer's clock
+// through a day of presets: daylight in the afternoon, the fire in the
+// evening, and at night a dark room left to the garland and the star.
+
+export const LIGHTING_PRESETS: LightingPresetId[] = ['studio', 'fireplace', 'moonlit', 'gallery', 'candlelight', 'daylight', 'night'];
+export const LIGHTING_MODES: LightingMode[] = [...LIGHTING_PRESETS, 'live'];
+
+interface LightSetting {
+  color: string;
+  intensity: number;
+  position: [number, number, number]; // Ignored for the ambient light
+}
+
+interface LightingPreset {
+  ambient: LightSetting;
+  key: LightSetting; // Casts the shadows
+  fill: LightSetting;
+  rim: LightSetting; // From behind, separating the tree from the background
+  environment: number; // Multiplier on the quality tier's environment intensity
+  exposure: number;
+  background: string | null; // Null keeps the configured background
+}
+
+const NO_POSITION: [number, number, number] = [0, 0, 0];
+
+const PRESETS: Record<LightingPresetId, LightingPreset> = {
+  // Bright and neutral, the original look
+  studio: {
+    ambient: { color: '#ffffff', intensity: 1.5, position: NO_POSITION },
+    key: { color: '#fff0dd', intensity: 200, position: [10, 20, 10] },
+    fill: { color: '#dbeaff', intensity: 50, position: [-10, 5, -10] },
+    rim: { color: '#ffd700', intensity: 100, position: [0, 10, -10] },
+    environment: 1,
+    exposure: 1.5,
+    background: null,
+  },
+  // Low orange light from one side, the room falling away into brown
+  fireplace: {
+    ambient: { color: '#ffcf9e', intensity: 0.6, position: NO_POSITION },
+    key: { color: '#ff9a4a', intensity: 260, position: [12, 4, 8] },
+    fill: { color: '#6b4a8a', intensity: 15, position: [-10, 5, -10] },
+    rim: { color: '#ff7a2a', intensity: 60, position: [0, 10, -10] },
+    environment: 0.4,
+    exposure: 1.3,
+    background: '#1a0c06',
+  },
+  // Cold light from high up through a window, blue shadows
+  moonlit: {
+    ambient: { color: '#9fb4ff', intensity: 0.5, position: NO_POSITION },
+    key: { color: '#cfe0ff', intensity: 160, position: [-8, 22, 6] },
+    fill: { color: '#5a78c8', intensity: 30, position: [10, 3, -8] },
+    rim: { color: '#e6f0ff', intensity: 140, position: [0, 10, -10] },
+    environment: 0.5,
+    exposure: 1.2,
+    background: '#050a18',
+  },
+  // Even white light from overhead, nothing tinted
+  gallery: {
+    ambient: { color: '#ffffff', intensity: 2, position: NO_POSITION },
+    key: { color: '#ffffff', intensity: 240, position: [0, 24, 12] },
+    fill: { color: '#ffffff', intensity: 70, position: [-10, 8, 10] },
+    rim: { color: '#ffffff', intensity: 60, position: [0, 10, -10] },
+    environment: 1.3,
+    exposure: 1.6,
+    background: '#1c1c1e',
+  },
+  // A few small flames close in front; the lights on the tree carry the rest
+  candlelight: {
+    ambient: { color: '#ffb070', intensity: 0.3, position: NO_POSITION },
+    key: { color: '#ffb366', intensity: 120, position: [4, 6, 10] },
+    fill: { color: '#3a2030', intensity: 8, position: [-10, 5, -10] },
+    rim: { color: '#ffaa44', intensity: 40, position: [0, 10, -10] },
+    environment: 0.2,
+    exposure: 1.2,
+    background: '#080403',
+  },
+  // Afternoon sun in a bright room
+  daylight: {
+    ambient: { color: '#f4f8ff', intensity: 2.2, position: NO_POSITION },
+    key: { color: '#fffaf0', intensity: 220, position: [15, 25, 5] },
+    fill: { color: '#cfe3ff', intensity: 80, position: [-10, 5, -10] },
+    rim: { color: '#fff4d6', intensity: 80, position: [0, 10, -10] },
+    environment: 1.5,
+    exposure: 1.6,
+    background: '#2a3442',
+  },
+  // Lights out: the garland and the star light the tree
+  night: {
+    ambient: { color: '#8090c0', intensity: 0.1, position: NO_POSITION },
+    key: { color: '#aab8ff', intensity: 10, position: [-8, 20, 6] },
+    fill: { color: '#404a70', intensity: 5, position: [-10, 5, -10] },
+    rim: { color: '#ffd27a', intensity: 10, position: [0, 10, -10] },
+    environment: 0.1,
+    exposure: 1.1,
+    background: '#010104',
+  },
+};
+
+// The day 'live' follows, by local hour; between two entries it blends
+const DAY: { hour: number; preset: LightingPresetId }[] = [
+  { hour: 0, preset: 'night' },
+  { hour: 6, preset: 'night' },
+  { hour: 9, preset: 'studio' },
+  { hour: 12, preset: 'daylight' },
+  { hour: 16, preset: 'daylight' },
+  { hour: 18.5, preset: 'fireplace' },
+  { hour: 21, preset: 'candlelight' },
+  { hour: 23, preset: 'night' },
+  { hour: 24, preset: 'night' },
+];
+
+// Seconds a switch takes to cross-fade
+const LIGHTING_FADE = 1.5;
+
+// --- LOOK ---
+
+export interface LightLook {
+  color: THREE.Color;
+  intensity: number;
+  position: THREE.Vector3;
+}
+
+// A preset resolved to values the lights take, so two can be blended
+export interface LightingLook {
+  ambient: LightLook;
+  key: LightLook;
+  fill: LightLook;
+  rim: LightLook;
+  environment: number;
+  exposure: number;
+  background: THREE.Color;
+}
+
+const LIGHTS = ['ambient', 'key', 'fill', 'rim'] as const;
+
+const createLook = (): LightingLook => {
+  const light = (): LightLook => ({ color: new THREE.Color(), intensity: 0, position: new THREE.Vector3() });
+  return { ambient: light(), key: light(), fill: light(), rim: light(), environment: 1, exposure: 1, background: new THREE.Color() };
+};
+
+const readPreset = (preset: LightingPreset, background: string, out: LightingLook): LightingLook => {
+  for (const name of LIGHTS) {
+    out[name].color.set(preset[name].color);
+    out[name].intensity = preset[name].intensity;
+    out[name].position.fromArray(preset[name].position);
+  }
+  out.environment = preset.environment;
+  out.exposure = preset.exposure;
+  out.background.set(preset.background ?? background);
+  return out;
+};
+
+// Moves `out` a share `x` of the way from where it is to `to`
+const blendLook = (out: LightingLook, to: LightingLook, x: number): LightingLook => {
+  for (const name of LIGHTS) {
+    out[name].color.lerp(to[name].color, x);
+    out[name].intensity += (to[name].intensity - out[name].intensity) * x;
+    out[name].position.lerp(to[name].position, x);
+  }
+  out.environment += (to.environment - out.environment) * x;
+  out.exposure += (to.exposure - out.exposure) * x;
+  out.background.lerp(to.background, x);
+  return out;
+};
+
+const tempLook = createLook();
+
+// The look 'live' has at a local hour, 0..24
+export const lookAtHour = (hour: number, background: string, out: LightingLook): LightingLook => {
+  let i = 1;
+  while (i < DAY.length - 1 && hour > DAY[i].hour) i++;
+  const a = DAY[i - 1];
+  const b = DAY[i];
+  const x = THREE.MathUtils.clamp((hour - a.hour) / (b.hour - a.hour), 0, 1);
+  readPreset(PRESETS[a.preset], background, out);
+  return blendLook(out, readPreset(PRESETS[b.preset], background, tempLook), THREE.MathUtils.smoothstep(x, 0, 1));
+};
+
+// --- BLEND ---
+
+// The look on screen, easing towards the chosen preset (or the hour's look in
+// 'live') every frame
+export class LightingBlend {
+  readonly current: LightingLook = createLook();
+
+  private target: LightingLook = createLook();
+  private mode: LightingMode = 'studio';
+  private background = '#000000';
+  private started = false;
+
+  // `background` stands in for presets that keep the configured one
+  configure(mode: LightingMode, background: string) {
+    this.mode = mode;
+    this.background = background;
+    if (mode !== 'live') readPreset(PRESETS[mode], background, this.target);
+  }
+
+  // `hour` is the local time, 0..24
+  tick(delta: number, hour: number) {
+    if (this.mode === 'live') lookAtHour(hour, this.background, this.target);
+    // The first look is cut to, not faded in from black
+    blendLook(this.current, this.target, this.started ? Math.min(1, delta / LIGHTING_FADE) : 1);
+    this.started = true;
+  }
+}
+
+// Hours since local midnight
+export const localHour = (date: Date) => date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600;
@@ -1,12 +1,14 @@
 import * as THREE from 'three';
+import { RandomFn } from './random';
+import { Silhouette } from './silhouettes';
 
 // Random point in sphere
-export const getRandomSpherePoint = (radius: number): THREE.Vector3 => {
-  const u = Math.random();
-  const v = Math.random();
+export const getRandomSpherePoint = (radius: number, random: RandomFn): THREE.Vector3 => {
+  const u = random();
+  const v = random();
   const theta = 2 * Math.PI * u;
   const phi = Math.acos(2 * v - 1);
-  const r = Math.cbrt(Math.random()) * radius;
+  const r = Math.cbrt(random()) * radius;
   
   const sinPhi = Math.sin(phi);
   return new THREE.Vector3(
@@ -16,15 +18,15 @@ export const getRandomSpherePoint = (radius: number): THREE.Vector3 => {
   );
 };
 
-// Point on a cone surface (Christmas Tree shape)
-export const getConePoint = (height: number, baseRadius: number, yOffset: number): THREE.Vector3 => {
-  const y = (Math.random() * height) - (height / 2) + yOffset;
+// Point on a tree's surface, within its cone (Christmas Tree shape)
+export const getConePoint = (height: number, baseRadius: number, yOffset: number, silhouette: Silhouette, random: RandomFn): THREE.Vector3 => {
+  const y = (random() * height) - (height / 2) + yOffset;
   const relativeHeight = (y - yOffset + height / 2) / height; // 0 to 1
-  const radiusAtHeight = baseRadius * (1 - relativeHeight);
   
-  const theta = Math.random() * Math.PI * 2;
+  const theta = random() * Math.PI * 2;
+  const radiusAtHeight = baseRadius * silhouette.surface(relativeHeight, theta);
   // Add some volume thickness
-  const r = radiusAtHeight * (0.8 + Math.random() * 0.2); 
+  const r = radiusAtHeight * (0.8 + random() * 0.2); 
   
   const x = r * Math.cos(theta);
   const z = r * Math.sin(theta);
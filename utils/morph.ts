@@ -0,0 +1,103 @@
+import { RefObject, useLayoutEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { FormationId } from '../types';
+import { TransitionController } from './transition';
+
+// Per-particle timing used by the point shaders:
+//   delayedT = clamp(uProgress * scale - aRandom * spread, 0, 1)
+// where uProgress is the layer's eased progress from the transition
+// controller, so some particles leave early and some arrive late.
+export interface Stagger {
+  scale: number;
+  spread: number;
+}
+
+export const staggeredProgress = (progress: number, random: number, stagger: Stagger): number =>
+  THREE.MathUtils.clamp(progress * stagger.scale - random * stagger.spread, 0, 1);
+
+// CPU mirror of the shader blend; `out` may alias `from`
+export const blendAttribute = (
+  out: Float32Array,
+  from: Float32Array,
+  to: Float32Array,
+  randoms: Float32Array,
+  progress: number,
+  stagger: Stagger,
+  itemSize = 3
+) => {
+  for (let i = 0; i < randoms.length; i++) {
+    const t = staggeredProgress(progress, randoms[i], stagger);
+    for (let k = i * itemSize; k < (i + 1) * itemSize; k++) {
+      out[k] = from[k] + (to[k] - from[k]) * t;
+    }
+  }
+};
+
+interface PointMorphOptions {
+  formation: FormationId;
+  getTargets: (id: FormationId) => Float32Array;
+  getTints?: (id: FormationId) => Float32Array; // RGBA per particle, morphed alongside positions
+  randoms: Float32Array;
+  stagger: Stagger;
+  progress: { value: number }; // The layer's uProgress, i.e. what is on screen right now
+  transition: TransitionController;
+  geometryRef: RefObject<THREE.BufferGeometry>;
+}
+
+// Keeps a geometry's aFromPos / aToPos pair (per vertex for points, per instance
+// for instanced ornaments; plus aFromTint / aToTint when tinted) in step with
+// the requested formation. Whenever the target changes
+// (another formation, or new text for the same one) mid-morph, the particles'
+// current state becomes the new start so they never jump, and the shared
+// timeline restarts.
+export const usePointMorph = ({
+  formation,
+  getTargets,
+  getTints,
+  randoms,
+  stagger,
+  progress,
+  transition,
+  geometryRef,
+}: PointMorphOptions) => {
+  // Fresh data (new seed, count or shape) starts settled in the current formation.
+  // `randoms` is regenerated with the data, so it doubles as the data's identity.
+  const buffers = useMemo(() => {
+    const target = getTargets(formation);
+    const tint = getTints?.(formation);
+    return {
+      from: new Float32Array(target),
+      to: new Float32Array(target),
+      fromTint: tint ? new Float32Array(tint) : null,
+      toTint: tint ? new Float32Array(tint) : null,
+      target,
+    };
+  }, [randoms]);
+
+  useLayoutEffect(() => {
+    const target = getTargets(formation);
+    if (buffers.target === target) return;
+
+    blendAttribute(buffers.from, buffers.from, buffers.to, randoms, progress.value, stagger);
+    buffers.to.set(target);
+    if (buffers.fromTint && buffers.toTint && getTints) {
+      blendAttribute(buffers.fromTint, buffers.fromTint, buffers.toTint, randoms, progress.value, stagger, 4);
+      buffers.toTint.set(getTints(formation));
+    }
+    buffers.target = target;
+    transition.retarget(formation);
+    progress.value = 0;
+
+    const geometry = geometryRef.current;
+    if (geometry) {
+      geometry.attributes.aFromPos.needsUpdate = true;
+      geometry.attributes.aToPos.needsUpdate = true;
+      if (geometry.attributes.aFromTint) {
+        geometry.attributes.aFromTint.needsUpdate = true;
+        geometry.attributes.aToTint.needsUpdate = true;
+      }
+    }
+  }, [formation, getTargets, getTints, buffers, randoms, stagger, progress, transition, geometryRef]);
+
+  return buffers;
+};
@@ -0,0 +1,116 @@
+import { containsCJK } from './i18n';
+import { FONT_FAMILY } from './textPoints';
+
+// The page's greeting and film grain are DOM and never reach the WebGL
+// canvas. Exports that want them (videos, posters) draw them again here, laid
+// out like the page.
+
+// Pre-defined noise texture to ensure clean string parsing
+export const NOISE_SVG = `data:image/svg+xml,%3Csvg viewBox='0 0 200 200' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noiseFilter'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.65' numOctaves='3' stitchTiles='stitch'/%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noiseFilter)'/%3E%3C/svg%3E`;
+
+// As the page applies it
+const GRAIN_OPACITY = 0.04;
+
+// The greeting as the overlay shows it
+export interface GreetingOverlay {
+  headline: string;
+  line: string; // Sender and message
+  subtitle: string;
+}
+
+const HEADLINE_COLOR = '#fef3c7';
+const LINE_COLOR = 'rgba(252, 211, 77, 0.8)';
+const SUBTITLE_COLOR = 'rgba(253, 230, 138, 0.5)';
+const RULE_COLOR = 'rgba(245, 158, 11, 0.5)';
+
+// Largest size up to `size` at which the text fits the width
+const fitFont = (ctx: CanvasRenderingContext2D, text: string, style: string, size: number, maxWidth: number) => {
+  ctx.font = `${style} ${size}px ${FONT_FAMILY}`;
+  const width = ctx.measureText(text).width;
+  if (width > maxWidth) ctx.font = `${style} ${Math.floor((size * maxWidth) / width)}px ${FONT_FAMILY}`;
+};
+
+const subtitleStyle = (text: string) => (containsCJK(text) ? '' : 'italic');
+
+// Web fonts load lazily; a canvas silently draws with a fallback until they have
+export const loadOverlayFonts = async (overlay: GreetingOverlay) => {
+  try {
+    await Promise.all([
+      document.fonts.load(`bold 16px ${FONT_FAMILY}`, overlay.headline),
+      document.fonts.load(`16px ${FONT_FAMILY}`, overlay.line),
+      document.fonts.load(`${subtitleStyle(overlay.subtitle)} 16px ${FONT_FAMILY}`, overlay.subtitle),
+    ]);
+  } catch {
+    // Fall through to whatever the system provides
+  }
+};
+
+// The corner greeting, laid out like the page header; `unit` is output pixels per CSS pixel
+export const drawGreetingHeader = (ctx: CanvasRenderingContext2D, overlay: GreetingOverlay, unit: number, alpha: number) => {
+  const { width } = ctx.canvas;
+  const left = 40 * unit;
+  const maxWidth = width - left * 2;
+  ctx.globalAlpha = alpha;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = 12 * unit;
+  ctx.fillStyle = HEADLINE_COLOR;
+  fitFont(ctx, overlay.headline, 'bold', 44 * unit, maxWidth);
+  ctx.fillText(overlay.headline, left, left);
+  ctx.shadowBlur = 0;
+
+  const top = left + 64 * unit;
+  ctx.fillStyle = RULE_COLOR;
+  ctx.fillRect(left, top, 2 * unit, 46 * unit);
+  ctx.fillStyle = LINE_COLOR;
+  fitFont(ctx, overlay.line, '', 18 * unit, maxWidth - 16 * unit);
+  ctx.fillText(overlay.line, left + 16 * unit, top);
+  ctx.fillStyle = SUBTITLE_COLOR;
+  fitFont(ctx, overlay.subtitle, subtitleStyle(overlay.subtitle), 14 * unit, maxWidth - 16 * unit);
+  ctx.fillText(overlay.subtitle, left + 16 * unit, top + 28 * unit);
+};
+
+// The closing card: the same greeting, centred over a dimmed tree
+export const drawGreetingCard = (ctx: CanvasRenderingContext2D, overlay: GreetingOverlay, unit: number, alpha: number) => {
+  const { width, height } = ctx.canvas;
+  const maxWidth = width * 0.85;
+  ctx.globalAlpha = alpha;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.shadowColor = 'rgba(218, 165, 32, 0.6)';
+  ctx.shadowBlur = 24 * unit;
+  ctx.fillStyle = HEADLINE_COLOR;
+  fitFont(ctx, overlay.headline, 'bold', 72 * unit, maxWidth);
+  ctx.fillText(overlay.headline, width / 2, height * 0.45);
+  ctx.shadowBlur = 0;
+
+  ctx.fillStyle = LINE_COLOR;
+  fitFont(ctx, overlay.line, '', 26 * unit, maxWidth);
+  ctx.fillText(overlay.line, width / 2, height * 0.45 + 70 * unit);
+  ctx.fillStyle = SUBTITLE_COLOR;
+  fitFont(ctx, overlay.subtitle, subtitleStyle(overlay.subtitle), 18 * unit, maxWidth);
+  ctx.fillText(overlay.subtitle, width / 2, height * 0.45 + 110 * unit);
+};
+
+// The film grain. The SVG has no size of its own, so the page's background
+// draws it as a square tile the size of the shorter side; this matches.
+export const drawGrain = async (ctx: CanvasRenderingContext2D) => {
+  const image = new Image();
+  image.src = NOISE_SVG;
+  await image.decode();
+
+  const { width, height } = ctx.canvas;
+  const tile = Math.min(width, height);
+  ctx.save();
+  ctx.globalAlpha = GRAIN_OPACITY;
+  ctx.globalCompositeOperation = 'overlay';
+  for (let y = 0; y < height; y += tile) {
+    for (let x = 0; x < width; x += tile) ctx.drawImage(image, x, y, tile, tile);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,94 @@
+import { drawGrain, drawGreetingHeader, GreetingOverlay, loadOverlayFonts } from './overlay';
+import { downloadBlob } from './url';
+
+// Poster export. The current view is rendered once more, offscreen and at
+// print resolution, straight from whatever state the scene is in (mid-morph
+// included, since nothing advances while it renders). The greeting and,
+// optionally, the film grain are then drawn over it the way the page lays
+// them out, and the result is saved as a PNG.
+//
+// The exporter owns the compositing; a renderer inside the <Canvas> does the
+// WebGL side and attaches itself here.
+
+export type PosterSize = '4k' | '8k';
+
+export const POSTER_SIZES: PosterSize[] = ['4k', '8k'];
+
+// Pixels along the longer side; the other follows the view's aspect
+export const POSTER_LONG_SIDE: Record<PosterSize, number> = {
+  '4k': 3840,
+  '8k': 7680,
+};
+
+export interface PosterOptions {
+  size: PosterSize;
+  grain: boolean;
+}
+
+// Renders the current view `longSide` pixels across; `scale` is output pixels per CSS pixel
+export type PosterRenderer = (longSide: number) => { canvas: HTMLCanvasElement; scale: number };
+
+export interface PosterState {
+  busy: boolean;
+  error: 'failed' | null; // Why the last attempt didn't produce a poster
+}
+
+export class PosterExporter {
+  options: PosterOptions = { size: '4k', grain: true };
+
+  private renderer: PosterRenderer | null = null;
+  private current: PosterState = { busy: false, error: null };
+  private listeners = new Set<(state: PosterState) => void>();
+
+  get state(): PosterState {
+    return this.current;
+  }
+
+  // Called by the renderer inside the <Canvas>; returns the detach
+  attach(renderer: PosterRenderer): () => void {
+    this.renderer = renderer;
+    return () => {
+      if (this.renderer === renderer) this.renderer = null;
+    };
+  }
+
+  // Renders, composites and downloads; `fileName` is without extension
+  async export(options: PosterOptions, overlay: GreetingOverlay, fileName: string) {
+    if (this.current.busy) return;
+    this.options = options;
+    this.update({ busy: true, error: null });
+
+    try {
+      await loadOverlayFonts(overlay);
+      // Lets the busy state paint before the render blocks the page
+      await new Promise((resolve) => requestAnimationFrame(() => setTimeout(resolve)));
+      if (!this.renderer) throw new Error('No scene to render');
+
+      const { canvas, scale } = this.renderer(POSTER_LONG_SIDE[options.size]);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Canvas too large for this browser');
+      drawGreetingHeader(ctx, overlay, scale, 1);
+      if (options.grain) await drawGrain(ctx);
+
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!blob) throw new Error('Could not encode the image');
+      downloadBlob(blob, `${fileName}.png`);
+      this.update({ busy: false });
+    } catch (err) {
+      console.warn('[poster] Could not export poster:', err instanceof Error ? err.message : err);
+      this.update({ busy: false, error: 'failed' });
+    }
+  }
+
+  subscribe(listener: (state: PosterState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(patch: Partial<PosterState>) {
+    this.current = { ...this.current, ...patch };
+    this.listeners.forEach((listener) => listener(this.current));
+  }
+}
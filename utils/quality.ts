@@ -0,0 +1,163 @@
+// Adaptive quality: a governor samples frame times and steps through tiers,
+// dropping quickly when frames run long and climbing back slowly when there is
+// headroom, so it settles instead of flickering between two tiers.
+
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+
+// Cheapest first
+export const QUALITY_TIERS: QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export interface QualitySettings {
+  particleScale: number; // Share of foliage, snow and sparkle particles drawn
+  dpr: number; // Upper bound; the canvas never exceeds the device's own ratio
+  shadowMapSize: number; // Key light shadow map
+  contactShadows: number; // Ground shadow resolution; 0 = off
+  bloom: boolean;
+  vignette: boolean;
+  noise: boolean;
+  environmentIntensity: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: {
+    particleScale: 0.35,
+    dpr: 1,
+    shadowMapSize: 512,
+    contactShadows: 0,
+    bloom: false,
+    vignette: false,
+    noise: false,
+    environmentIntensity: 0.5,
+  },
+  medium: {
+    particleScale: 0.6,
+    dpr: 1.25,
+    shadowMapSize: 1024,
+    contactShadows: 256,
+    bloom: true,
+    vignette: true,
+    noise: false,
+    environmentIntensity: 0.75,
+  },
+  high: {
+    particleScale: 0.85,
+    dpr: 1.5,
+    shadowMapSize: 1024,
+    contactShadows: 512,
+    bloom: true,
+    vignette: true,
+    noise: true,
+    environmentIntensity: 1,
+  },
+  // The full original look
+  ultra: {
+    particleScale: 1,
+    dpr: 2,
+    shadowMapSize: 2048,
+    contactShadows: 512,
+    bloom: true,
+    vignette: true,
+    noise: true,
+    environmentIntensity: 1,
+  },
+};
+
+// Frame-time budget, in milliseconds, averaged over one sample window
+const WINDOW_FRAMES = 60;
+const SLOW_FRAME_MS = 1000 / 45; // Below ~45 fps: step down
+const FAST_FRAME_MS = 1000 / 57; // Above ~57 fps: candidate for stepping up
+// Consecutive windows needed before acting; climbing is deliberately slower
+const WINDOWS_TO_DROP = 2;
+const WINDOWS_TO_CLIMB = 5;
+// After this many drops from the same tier, stop trying to climb back into it
+const MAX_DROPS_PER_TIER = 2;
+// Longer frames are tab switches or hitches, not load
+const MAX_SAMPLE_MS = 250;
+
+export interface QualityState {
+  tier: QualityTier;
+  auto: boolean; // False while a manual override is in place
+}
+
+export class QualityGovernor {
+  private autoTier: QualityTier;
+  private override: QualityTier | null = null;
+  private samples: number[] = [];
+  private slowWindows = 0;
+  private fastWindows = 0;
+  private drops: Record<QualityTier, number> = { low: 0, medium: 0, high: 0, ultra: 0 };
+  private listeners = new Set<(state: QualityState) => void>();
+
+  constructor(initial: QualityTier = 'ultra') {
+    this.autoTier = initial;
+  }
+
+  get state(): QualityState {
+    return { tier: this.override ?? this.autoTier, auto: this.override === null };
+  }
+
+  // Null hands control back to the governor
+  setOverride(tier: QualityTier | null) {
+    if (this.override === tier) return;
+    this.override = tier;
+    this.resetWindow();
+    this.emit();
+  }
+
+  sample(deltaSeconds: number) {
+    if (this.override) return;
+    const ms = deltaSeconds * 1000;
+    if (ms <= 0 || ms > MAX_SAMPLE_MS) return;
+
+    this.samples.push(ms);
+    if (this.samples.length < WINDOW_FRAMES) return;
+
+    const average = this.samples.reduce((sum, s) => sum + s, 0) / this.samples.length;
+    this.samples = [];
+
+    if (average > SLOW_FRAME_MS) {
+      this.slowWindows++;
+      this.fastWindows = 0;
+    } else if (average < FAST_FRAME_MS) {
+      this.fastWindows++;
+      this.slowWindows = 0;
+    } else {
+      this.slowWindows = 0;
+      this.fastWindows = 0;
+    }
+
+    const index = QUALITY_TIERS.indexOf(this.autoTier);
+    if (this.slowWindows >= WINDOWS_TO_DROP && index > 0) {
+      this.drops[this.autoTier]++;
+      this.step(QUALITY_TIERS[index - 1]);
+    } else if (this.fastWindows >= WINDOWS_TO_CLIMB && index < QUALITY_TIERS.length - 1) {
+      const next = QUALITY_TIERS[index + 1];
+      if (this.drops[next] < MAX_DROPS_PER_TIER) this.step(next);
+    }
+  }
+
+  subscribe(listener: (state: QualityState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private step(tier: QualityTier) {
+    this.autoTier = tier;
+    this.resetWindow();
+    this.emit();
+  }
+
+  // The frames right after a change include recompiles and reallocations
+  private resetWindow() {
+    this.samples = [];
+    this.slowWindows = 0;
+    this.fastWindows = 0;
+  }
+
+  private emit() {
+    const state = this.state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,60 @@
+// Seeded randomness for scene generation.
+// Every generator takes a RandomFn instead of calling Math.random(), so a
+// single seed reproduces the whole layout bit for bit.
+
+export type RandomFn = () => number;
+
+// FNV-1a, used to turn seed strings and stream names into 32-bit integers
+export const hashString = (str: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32 - tiny, fast and identical across browsers.
+// `stream` gives each generator its own sequence, so the order in which
+// components mount (or StrictMode re-running a memo) never shifts the layout.
+export const createRandom = (seed: number, stream = ''): RandomFn => {
+  let a = hashString(`${seed >>> 0}:${stream}`);
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for "reroll" - the only place allowed to use Math.random
+export const randomSeed = (): number => Math.floor(Math.random() * 0xffffffff) >>> 0;
+
+// Seeds are shown and shared in base36 ("?seed=k3x9a")
+export const formatSeed = (seed: number): string => (seed >>> 0).toString(36);
+
+// Accepts a seed exactly as formatSeed shows it, or any other text, which is
+// hashed ("?seed=merry christmas"). Short words are already valid base36 seeds
+// ("?seed=noel" is seed "noel"), so either way the same text gives the same tree.
+export const parseSeed = (value: string | null): number | null => {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+  const parsed = /^[0-9a-z]{1,7}$/.test(trimmed) ? parseInt(trimmed, 36) : NaN;
+  // Out of range or padded ("zzzzzzz", "007") would collide with other seeds
+  if (parsed <= 0xffffffff && formatSeed(parsed) === trimmed) return parsed;
+  return hashString(trimmed);
+};
+
+// Weighted pick, e.g. from a colour palette; weights need not sum to 1
+export const pickWeighted = <T extends { weight: number }>(items: T[], random: RandomFn): T => {
+  const total = items.reduce((sum, item) => sum + item.weight, 0);
+  const r = random() * total;
+  let sum = 0;
+  for (const item of items) {
+    sum += item.weight;
+    if (r <= sum) return item;
+  }
+  return items[0];
+};
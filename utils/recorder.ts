@@ -0,0 +1,202 @@
+import * as THREE from 'three';
+import { drawGreetingCard, drawGreetingHeader, GreetingOverlay } from './overlay';
+import { easeInOutCubic } from './transition';
+import { downloadBlob } from './url';
+
+// Video export. A short scripted sequence (scattered, assemble, one orbit,
+// then a hold on the greeting) is played while every rendered frame is copied
+// into a 2D canvas at the chosen output size, with the greeting drawn over it
+// (the on-screen greeting is DOM and never reaches the WebGL canvas), and that
+// canvas is recorded through MediaRecorder.
+//
+// The recorder owns the capture; a director inside the <Canvas> runs the
+// script and hands it frames.
+
+export type RecordingAspect = '16:9' | '1:1' | '9:16';
+
+export const RECORDING_ASPECTS: RecordingAspect[] = ['16:9', '1:1', '9:16'];
+
+export const RECORDING_PRESETS: Record<RecordingAspect, { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '1:1': { width: 1080, height: 1080 },
+  '9:16': { width: 720, height: 1280 },
+};
+
+export const RECORDING_FPS = 30;
+
+export interface RecordingOptions {
+  aspect: RecordingAspect;
+  // Every frame advances the scene by exactly 1 / RECORDING_FPS. A slow frame
+  // then holds the picture a moment longer instead of skipping motion.
+  fixedStep: boolean;
+}
+
+// --- SCRIPT ---
+// Seconds from the first recorded frame
+
+export const RECORDING_SCRIPT = {
+  assembleAt: 1.5, // The scattered cloud holds this long
+  orbit: [1.5, 11] as const, // One turn around the tree while it assembles and settles
+  greetingAt: 11, // The greeting fades in for the final hold
+  greetingFade: 1,
+  end: 14,
+};
+
+const CAMERA_HEIGHT = 2;
+const CAMERA_DISTANCE: [number, number] = [20, 15]; // Pushes in during the orbit
+
+// Camera position along the scripted move; it always looks at the origin
+export const cameraAt = (time: number, target: THREE.Vector3): THREE.Vector3 => {
+  const [from, to] = RECORDING_SCRIPT.orbit;
+  const x = easeInOutCubic(THREE.MathUtils.clamp((time - from) / (to - from), 0, 1));
+  const angle = x * Math.PI * 2;
+  const distance = THREE.MathUtils.lerp(CAMERA_DISTANCE[0], CAMERA_DISTANCE[1], x);
+  return target.set(Math.sin(angle) * distance, CAMERA_HEIGHT, Math.cos(angle) * distance);
+};
+
+const greetingAt = (time: number) =>
+  THREE.MathUtils.clamp((time - RECORDING_SCRIPT.greetingAt) / RECORDING_SCRIPT.greetingFade, 0, 1);
+
+// --- COMPOSITING ---
+
+const drawFrame = (ctx: CanvasRenderingContext2D, source: HTMLCanvasElement, overlay: GreetingOverlay, time: number) => {
+  const { width, height } = ctx.canvas;
+  // Cover: the centre of the view, cropped to the output's aspect
+  const scale = Math.max(width / source.width, height / source.height);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  ctx.globalAlpha = 1;
+  ctx.drawImage(source, (source.width - cropWidth) / 2, (source.height - cropHeight) / 2, cropWidth, cropHeight, 0, 0, width, height);
+
+  // Type is sized against a 720p frame
+  const unit = Math.min(width, height) / 720;
+  const greeting = greetingAt(time);
+  if (greeting < 1) drawGreetingHeader(ctx, overlay, unit, 1 - greeting);
+  if (greeting > 0) drawGreetingCard(ctx, overlay, unit, greeting);
+};
+
+// --- RECORDER ---
+
+// First one the browser can record; WebM almost everywhere, MP4 on Safari
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+const VIDEO_BITRATE = 8_000_000;
+
+export type RecordingStatus = 'idle' | 'preparing' | 'recording';
+
+export interface RecordingState {
+  status: RecordingStatus; // Preparing: waiting for the director to set the opening shot
+  progress: number; // 0..1 through the script
+  error: 'unsupported' | 'failed' | null; // Why the last attempt didn't produce a video
+}
+
+export class SceneRecorder {
+  options: RecordingOptions = { aspect: '16:9', fixedStep: true };
+
+  private overlay: GreetingOverlay = { headline: '', line: '', subtitle: '' };
+  private fileName = '';
+  private ctx: CanvasRenderingContext2D | null = null;
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private current: RecordingState = { status: 'idle', progress: 0, error: null };
+  private listeners = new Set<(state: RecordingState) => void>();
+
+  get state(): RecordingState {
+    return this.current;
+  }
+
+  // Hands over to the director; `fileName` is without extension
+  start(options: RecordingOptions, overlay: GreetingOverlay, fileName: string) {
+    if (this.current.status !== 'idle') return;
+    const canRecord = typeof MediaRecorder !== 'undefined' && typeof HTMLCanvasElement.prototype.captureStream === 'function';
+    if (!canRecord || !MIME_TYPES.some((t) => MediaRecorder.isTypeSupported(t))) {
+      this.update({ error: 'unsupported' });
+      return;
+    }
+    this.options = options;
+    this.overlay = overlay;
+    this.fileName = fileName;
+    this.update({ status: 'preparing', progress: 0, error: null });
+  }
+
+  // Called by the director once the opening shot is set
+  begin() {
+    if (this.current.status !== 'preparing') return;
+    const { width, height } = RECORDING_PRESETS[this.options.aspect];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const mimeType = MIME_TYPES.find((t) => MediaRecorder.isTypeSupported(t))!;
+
+    try {
+      // With a fixed step, frames are pushed one by one rather than sampled
+      const stream = canvas.captureStream(this.options.fixedStep ? 0 : RECORDING_FPS);
+      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITRATE });
+      // The last chunk arrives after stop(), so it goes to this recording's own list
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      recorder.start();
+      this.ctx = canvas.getContext('2d');
+      this.track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+      this.recorder = recorder;
+      this.chunks = chunks;
+      this.update({ status: 'recording' });
+    } catch (err) {
+      console.warn('[recorder] Could not start recording:', err instanceof Error ? err.message : err);
+      this.reset('failed');
+    }
+  }
+
+  // Called by the director after each rendered frame
+  frame(source: HTMLCanvasElement, time: number) {
+    if (!this.ctx || !this.track) return;
+    drawFrame(this.ctx, source, this.overlay, time);
+    if (this.options.fixedStep) this.track.requestFrame();
+
+    // Listeners hear about whole percents only
+    const progress = Math.min(1, Math.floor((time / RECORDING_SCRIPT.end) * 100) / 100);
+    if (progress !== this.current.progress) this.update({ progress });
+  }
+
+  // Stops and downloads what was recorded
+  finish() {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    const chunks = this.chunks;
+    const extension = recorder.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+    const fileName = `${this.fileName}.${extension}`;
+    recorder.onstop = () => downloadBlob(new Blob(chunks, { type: recorder.mimeType }), fileName);
+    recorder.stop();
+    this.reset(null);
+  }
+
+  cancel() {
+    if (this.recorder) {
+      this.recorder.onstop = null;
+      this.recorder.stop();
+    }
+    this.reset(null);
+  }
+
+  subscribe(listener: (state: RecordingState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private reset(error: RecordingState['error']) {
+    this.ctx = null;
+    this.track = null;
+    this.recorder = null;
+    this.chunks = [];
+    this.update({ status: 'idle', progress: 0, error });
+  }
+
+  private update(patch: Partial<RecordingState>) {
+    this.current = { ...this.current, ...patch };
+    this.listeners.forEach((listener) => listener(this.current));
+  }
+}
@@ -0,0 +1,557 @@
+import { ConeShape, GarlandLights, GiftPaletteEntry, GiftSurprise, GiftSurpriseKind, LightingMode, LightPatternId, NoteContent, OrnamentGroupConfig, OrnamentNote, RGBTriple, SceneConfig, SilhouetteId, SurpriseObjectId, ThemeId, TopperId, TopperSettings, TreeShape, WeightedColor, WindPresetId, WindSettings } from '../types';
+import { getUrlParam } from './url';
+import { LIGHT_PATTERNS, MAX_LIGHT_COLORS } from './lightPatterns';
+import { WIND_PRESETS } from './wind';
+import { LIGHTING_MODES } from './lighting';
+import { THEMES } from './themes';
+import { createSilhouette, Silhouette, SILHOUETTES } from './silhouettes';
+import { GIFT_SURPRISE_KINDS, SURPRISE_OBJECTS } from './gifts';
+import { TOPPERS } from './toppers';
+
+// --- DEFAULTS ---
+// These reproduce the original hand-tuned tree exactly.
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = {
+  tree: { height: 12, baseRadius: 4.5, yOffset: -1, silhouette: 'cone' },
+  background: '#010301',
+  foliage: {
+    count: 15000,
+    baseColor: [0.005, 0.02, 0.01],
+    tipColor: [0.02, 0.15, 0.06],
+  },
+  garland: {
+    wireCount: 3500,
+    bulbCount: 600,
+    turns: 3.5,
+    wireColor: [1.3, 0.95, 0.4],
+    bulbColor: [2.0, 1.7, 0.8],
+    lights: { pattern: 'steady', speed: 1, direction: 1, colors: [] },
+  },
+  ornaments: [
+    { count: 70, color: '#F3E5AB', type: 'sphere', weight: 0.2, scaleMultiplier: 0.9, roughness: 0.05, metalness: 1.0, spiralPhase: 0, notes: [] },
+    { count: 40, color: '#4a0404', type: 'sphere', weight: 0.3, scaleMultiplier: 1.0, roughness: 0.1, metalness: 0.8, spiralPhase: Math.PI, notes: [] },
+    { count: 30, color: '#E5E4E2', type: 'diamond', weight: 0.15, scaleMultiplier: 0.8, roughness: 0.0, metalness: 1.0, spiralPhase: Math.PI / 2, notes: [] },
+  ],
+  baubles: {
+    count: 50,
+    palette: [
+      { color: '#f0f0f0', weight: 0.4 }, // Pearl white
+      { color: '#ffe4b5', weight: 0.6 }, // Soft champagne
+    ],
+    notes: [],
+  },
+  gifts: {
+    count: 72,
+    palette: [
+      { color: '#7a1f1f', ribbon: '#d4af37', weight: 0.31 }, // Gold on burgundy
+      { color: '#f2e8d5', ribbon: '#7a1f1f', weight: 0.31 }, // Red on cream
+      { color: '#0f3b26', ribbon: '#d4af37', weight: 0.32 }, // Gold on emerald
+      { color: '#d4af37', ribbon: '#7a1f1f', weight: 0.06 }, // Red on gold
+    ],
+    notes: [],
+    surprises: [],
+  },
+  star: {
+    color: '#FFD700',
+    topper: 'star',
+    points: 5,
+    innerRatio: 0.4,
+    path: '',
+    glow: 1,
+  },
+  snow: {
+    count: 300,
+  },
+  sparkles: {
+    count: 400,
+  },
+  wind: { preset: 'calm', direction: 0 },
+  lighting: 'studio',
+  theme: 'emerald',
+};
+
+// --- DERIVED LAYOUT ---
+// Every layer is fitted relative to the one tree cone, so changing the
+// tree's height or radius moves foliage, ornaments, garland and star together.
+// The silhouette shapes all of them but the star alike within their cones.
+
+export interface GarlandShape {
+  yStart: number;
+  yEnd: number;
+  baseRadius: number; // At the base of the tree, scaled by the silhouette's surface
+  radiusOffset: number; // Keeps the wire clear of the needles near the tip
+}
+
+export interface TreeLayout {
+  foliage: ConeShape;
+  ornaments: ConeShape;
+  baubles: ConeShape;
+  gifts: ConeShape;
+  garland: GarlandShape;
+  foliageGradient: [number, number]; // Heights where needles blend from base to tip colour
+  starY: number;
+  topperScale: number; // The topper is sized for the original 12-unit tree
+  silhouette: Silhouette;
+}
+
+const scaleCone = (tree: ConeShape, heightScale: number, radiusScale: number): ConeShape => ({
+  height: tree.height * heightScale,
+  baseRadius: tree.baseRadius * radiusScale,
+  yOffset: tree.yOffset,
+});
+
+export const getTreeLayout = (tree: TreeShape): TreeLayout => {
+  const silhouette = createSilhouette(tree.silhouette);
+  const bottom = tree.yOffset - tree.height / 2;
+  const top = tree.yOffset + tree.height / 2;
+  // The garland and the needle gradient skip the bottom sixth, where the gifts are piled
+  const crownStart = bottom + tree.height / 6;
+
+  return {
+    foliage: scaleCone(tree, 1, 1),
+    // Spheres hang just outside the needles
+    ornaments: scaleCone(tree, 11 / 12, 4.8 / 4.5),
+    baubles: scaleCone(tree, 11 / 12, 4.6 / 4.5),
+    // Gift piles spread wider than the branches
+    gifts: scaleCone(tree, 1, 5.5 / 4.5),
+    garland: {
+      yStart: crownStart,
+      yEnd: top,
+      // 5.5 where the garland starts, a sixth of the way up
+      baseRadius: tree.baseRadius * (5.5 / 4.5) * (6 / 5),
+      radiusOffset: tree.baseRadius * (0.6 / 4.5),
+    },
+    foliageGradient: [crownStart, top],
+    starY: top + tree.height * 0.05,
+    topperScale: tree.height / 12,
+    silhouette,
+  };
+};
+
+// --- VALIDATION ---
+
+export class SceneConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SceneConfigError';
+  }
+}
+
+export type Issues = string[];
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const readNumber = (src: Record<string, unknown>, key: string, fallback: number, min: number, max: number, path: string, issues: Issues): number => {
+  const value = src[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    issues.push(`${path}.${key} must be a number between ${min} and ${max}`);
+    return fallback;
+  }
+  return value;
+};
+
+const readCount = (src: Record<string, unknown>, key: string, fallback: number, max: number, path: string, issues: Issues): number =>
+  Math.round(readNumber(src, key, fallback, 0, max, path, issues));
+
+const readColor = (src: Record<string, unknown>, key: string, fallback: string, path: string, issues: Issues): string => {
+  const value = src[key];
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !HEX_COLOR.test(value)) {
+    issues.push(`${path}.${key} must be a hex colour like "#d4af37"`);
+    return fallback;
+  }
+  return value;
+};
+
+const isRGB = (value: unknown): value is RGBTriple =>
+  Array.isArray(value) && value.length === 3 && value.every((c) => typeof c === 'number' && Number.isFinite(c) && c >= 0 && c <= 10);
+
+const readRGB = (src: Record<string, unknown>, key: string, fallback: RGBTriple, path: string, issues: Issues): RGBTriple => {
+  const value = src[key];
+  if (value === undefined) return fallback;
+  if (!isRGB(value)) {
+    issues.push(`${path}.${key} must be an [r, g, b] triple with components between 0 and 10`);
+    return fallback;
+  }
+  return [value[0], value[1], value[2]];
+};
+
+const readLights = (src: Record<string, unknown>, fallback: GarlandLights, path: string, issues: Issues): GarlandLights => {
+  let pattern = fallback.pattern;
+  if (src.pattern !== undefined) {
+    if (LIGHT_PATTERNS.includes(src.pattern as LightPatternId)) {
+      pattern = src.pattern as LightPatternId;
+    } else {
+      issues.push(`${path}.pattern must be one of ${LIGHT_PATTERNS.join(', ')}`);
+    }
+  }
+  let direction = fallback.direction;
+  if (src.direction !== undefined) {
+    if (src.direction === 1 || src.direction === -1) {
+      direction = src.direction;
+    } else {
+      issues.push(`${path}.direction must be 1 (upwards) or -1 (downwards)`);
+    }
+  }
+  let colors = fallback.colors;
+  if (src.colors !== undefined) {
+    if (Array.isArray(src.colors) && src.colors.length <= MAX_LIGHT_COLORS && src.colors.every(isRGB)) {
+      colors = src.colors.map((c: RGBTriple): RGBTriple => [c[0], c[1], c[2]]);
+    } else {
+      issues.push(`${path}.colors must be a list of at most ${MAX_LIGHT_COLORS} [r, g, b] triples with components between 0 and 10`);
+    }
+  }
+  return {
+    pattern,
+    speed: readNumber(src, 'speed', fallback.speed, 0, 10, path, issues),
+    direction,
+    colors,
+  };
+};
+
+const readChoice = <T extends string>(src: Record<string, unknown>, key: string, choices: T[], fallback: T, path: string, issues: Issues): T => {
+  const value = src[key];
+  if (value === undefined) return fallback;
+  if (choices.includes(value as T)) return value as T;
+  issues.push(`${path}.${key} must be one of ${choices.join(', ')}`);
+  return fallback;
+};
+
+const readWind = (src: Record<string, unknown>, fallback: WindSettings, path: string, issues: Issues): WindSettings => ({
+  preset: readChoice<WindPresetId>(src, 'preset', WIND_PRESETS, fallback.preset, path, issues),
+  direction: readNumber(src, 'direction', fallback.direction, -360, 360, path, issues),
+});
+
+const MAX_TOPPER_PATH = 10000;
+const SVG_PATH = /^[MmLlHhVvCcSsQqTtAaZz0-9eE.,+\-\s]+$/;
+
+const readTopper = (src: Record<string, unknown>, fallback: TopperSettings, path: string, issues: Issues): TopperSettings => {
+  let svgPath = fallback.path;
+  if (src.path !== undefined) {
+    // Empty is no path, which is what the defaults (and so every save) carry
+    if (typeof src.path === 'string' && src.path.length <= MAX_TOPPER_PATH && (!src.path.trim() || SVG_PATH.test(src.path))) {
+      svgPath = src.path.trim();
+    } else {
+      issues.push(`${path}.path must be SVG path data (like "M0 0 L10 0 L5 8 Z") of at most ${MAX_TOPPER_PATH} characters`);
+    }
+  }
+  let topper = readChoice<TopperId>(src, 'topper', TOPPERS, fallback.topper, path, issues);
+  if (topper === 'svg' && !svgPath) {
+    issues.push(`${path}.topper "svg" needs a "path"`);
+    topper = fallback.topper;
+  }
+  return {
+    color: readColor(src, 'color', fallback.color, path, issues),
+    topper,
+    points: Math.round(readNumber(src, 'points', fallback.points, 3, 12, path, issues)),
+    innerRatio: readNumber(src, 'innerRatio', fallback.innerRatio, 0.1, 0.9, path, issues),
+    path: svgPath,
+    glow: readNumber(src, 'glow', fallback.glow, 0, 10, path, issues),
+  };
+};
+
+const readSection = (src: Record<string, unknown>, key: string, path: string, issues: Issues): Record<string, unknown> => {
+  const value = src[key];
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    issues.push(`${path}.${key} must be an object`);
+    return {};
+  }
+  return value;
+};
+
+const MAX_PARTICLES = 200000;
+const MAX_INSTANCES = 5000;
+// Flakes are simulated on the CPU, each tested against the tree and gifts every frame
+const MAX_SNOW = 5000;
+
+const NOTE_LIMITS = { to: 40, message: 280, photo: 2000 };
+
+const readText = (src: Record<string, unknown>, key: keyof typeof NOTE_LIMITS, path: string, issues: Issues): string => {
+  const value = src[key];
+  if (value === undefined) return '';
+  if (typeof value !== 'string' || value.length > NOTE_LIMITS[key]) {
+    issues.push(`${path}.${key} must be a string of at most ${NOTE_LIMITS[key]} characters`);
+    return '';
+  }
+  return value.trim();
+};
+
+// Shared with saved documents, where hand-placed ornaments carry notes too
+export const validateNoteContent = (value: unknown, path: string, issues: Issues): NoteContent | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const note = {
+    to: readText(value, 'to', path, issues),
+    message: readText(value, 'message', path, issues),
+    photo: readText(value, 'photo', path, issues),
+  };
+  if (!note.message && !note.photo) {
+    issues.push(`${path} needs a "message" or a "photo"`);
+    return null;
+  }
+  return note;
+};
+
+// The instance a note or surprise belongs to
+const readIndex = (src: Record<string, unknown>, count: number, path: string, issues: Issues): number | null => {
+  const index = src.index;
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= count) {
+    issues.push(`${path}.index must be a whole number below the group's count (${count})`);
+    return null;
+  }
+  return index;
+};
+
+const validateNote = (value: unknown, count: number, path: string, issues: Issues): OrnamentNote | null => {
+  const content = validateNoteContent(value, path, issues);
+  if (!content) return null;
+  const index = readIndex(value as Record<string, unknown>, count, path, issues);
+  return index === null ? null : { ...content, index };
+};
+
+// Per-instance notes; a later note for the same instance replaces an earlier one
+const readNotes = (src: Record<string, unknown>, count: number, path: string, issues: Issues): OrnamentNote[] => {
+  const value = src.notes;
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.notes must be an array`);
+    return [];
+  }
+  const byIndex = new Map<number, OrnamentNote>();
+  value.forEach((n, i) => {
+    const note = validateNote(n, count, `${path}.notes[${i}]`, issues);
+    if (note) byIndex.set(note.index, note);
+  });
+  return [...byIndex.values()];
+};
+
+const validateSurprise = (value: unknown, count: number, path: string, issues: Issues): GiftSurprise | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const index = readIndex(value, count, path, issues);
+  if (index === null) return null;
+  const surprise: GiftSurprise = {
+    index,
+    kind: readChoice<GiftSurpriseKind>(value, 'kind', GIFT_SURPRISE_KINDS, 'burst', path, issues),
+    message: readText(value, 'message', path, issues),
+    photo: readText(value, 'photo', path, issues),
+    object: readChoice<SurpriseObjectId>(value, 'object', SURPRISE_OBJECTS, 'star', path, issues),
+  };
+  if (surprise.kind === 'message' && !surprise.message) {
+    issues.push(`${path} needs a "message"`);
+    return null;
+  }
+  if (surprise.kind === 'photo' && !surprise.photo) {
+    issues.push(`${path} needs a "photo"`);
+    return null;
+  }
+  return surprise;
+};
+
+// One surprise per gift; a later one for the same gift replaces an earlier one
+const readSurprises = (src: Record<string, unknown>, count: number, path: string, issues: Issues): GiftSurprise[] => {
+  const value = src.surprises;
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.surprises must be an array`);
+    return [];
+  }
+  const byIndex = new Map<number, GiftSurprise>();
+  value.forEach((s, i) => {
+    const surprise = validateSurprise(s, count, `${path}.surprises[${i}]`, issues);
+    if (surprise) byIndex.set(surprise.index, surprise);
+  });
+  return [...byIndex.values()];
+};
+
+const validateOrnamentGroup = (value: unknown, fallback: OrnamentGroupConfig, path: string, issues: Issues): OrnamentGroupConfig | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  let type = fallback.type;
+  if (value.type !== undefined) {
+    if (value.type === 'sphere' || value.type === 'diamond') {
+      type = value.type;
+    } else {
+      issues.push(`${path}.type must be "sphere" or "diamond"`);
+    }
+  }
+  const count = readCount(value, 'count', fallback.count, MAX_INSTANCES, path, issues);
+  return {
+    count,
+    color: readColor(value, 'color', fallback.color, path, issues),
+    type,
+    weight: readNumber(value, 'weight', fallback.weight, 0, 1, path, issues),
+    scaleMultiplier: readNumber(value, 'scaleMultiplier', fallback.scaleMultiplier, 0.05, 10, path, issues),
+    roughness: readNumber(value, 'roughness', fallback.roughness, 0, 1, path, issues),
+    metalness: readNumber(value, 'metalness', fallback.metalness, 0, 1, path, issues),
+    spiralPhase: readNumber(value, 'spiralPhase', fallback.spiralPhase, -100, 100, path, issues),
+    notes: readNotes(value, count, path, issues),
+  };
+};
+
+const validateWeightedColor = (value: unknown, path: string, issues: Issues): WeightedColor | null => {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  const color = readColor(value, 'color', '', path, issues);
+  if (!color) {
+    issues.push(`${path} needs a "color"`);
+    return null;
+  }
+  return { color, weight: readNumber(value, 'weight', 1, 0, 1000, path, issues) };
+};
+
+const validateGiftEntry = (value: unknown, path: string, issues: Issues): GiftPaletteEntry | null => {
+  const entry = validateWeightedColor(value, path, issues);
+  if (!entry) return null;
+  const ribbon = readColor(value as Record<string, unknown>, 'ribbon', '', path, issues);
+  if (!ribbon) {
+    issues.push(`${path} needs a "ribbon" colour`);
+    return null;
+  }
+  return { ...entry, ribbon };
+};
+
+// Palettes must keep at least one entry that can actually be picked
+const readPalette = <T extends WeightedColor>(
+  src: Record<string, unknown>,
+  fallback: T[],
+  path: string,
+  validate: (value: unknown, path: string, issues: Issues) => T | null,
+  issues: Issues
+): T[] => {
+  const value = src.palette;
+  if (value === undefined) return fallback;
+  const entries = Array.isArray(value)
+    ? value.map((p, i) => validate(p, `${path}.palette[${i}]`, issues)).filter((p): p is T => p !== null)
+    : [];
+  if (entries.length === 0 || !entries.some((p) => p.weight > 0)) {
+    issues.push(`${path}.palette must contain at least one entry with a positive weight`);
+    return fallback;
+  }
+  return entries;
+};
+
+// Merges a partial, untrusted config over the defaults.
+// Invalid fields keep their default value and are reported in `issues`.
+export const validateSceneConfig = (input: unknown): { config: SceneConfig; issues: string[] } => {
+  const issues: Issues = [];
+  const d = DEFAULT_SCENE_CONFIG;
+
+  if (!isObject(input)) {
+    return { config: d, issues: ['Scene config must be a JSON object'] };
+  }
+
+  const tree = readSection(input, 'tree', 'config', issues);
+  const foliage = readSection(input, 'foliage', 'config', issues);
+  const garland = readSection(input, 'garland', 'config', issues);
+  const baubles = readSection(input, 'baubles', 'config', issues);
+  const gifts = readSection(input, 'gifts', 'config', issues);
+  const star = readSection(input, 'star', 'config', issues);
+  const snow = readSection(input, 'snow', 'config', issues);
+  const sparkles = readSection(input, 'sparkles', 'config', issues);
+
+  let ornaments = d.ornaments;
+  if (input.ornaments !== undefined) {
+    if (Array.isArray(input.ornaments)) {
+      // Entries without a matching default inherit from the first default group
+      ornaments = input.ornaments
+        .map((o, i) => validateOrnamentGroup(o, d.ornaments[i] ?? d.ornaments[0], `config.ornaments[${i}]`, issues))
+        .filter((o): o is OrnamentGroupConfig => o !== null);
+    } else {
+      issues.push('config.ornaments must be an array');
+    }
+  }
+
+  // Notes are checked against the counts they index into
+  const baubleCount = readCount(baubles, 'count', d.baubles.count, MAX_INSTANCES, 'config.baubles', issues);
+  const giftCount = readCount(gifts, 'count', d.gifts.count, MAX_INSTANCES, 'config.gifts', issues);
+
+  const config: SceneConfig = {
+    tree: {
+      height: readNumber(tree, 'height', d.tree.height, 1, 100, 'config.tree', issues),
+      baseRadius: readNumber(tree, 'baseRadius', d.tree.baseRadius, 0.5, 50, 'config.tree', issues),
+      yOffset: readNumber(tree, 'yOffset', d.tree.yOffset, -50, 50, 'config.tree', issues),
+      silhouette: readChoice<SilhouetteId>(tree, 'silhouette', SILHOUETTES, d.tree.silhouette, 'config.tree', issues),
+    },
+    background: readColor(input, 'background', d.background, 'config', issues),
+    foliage: {
+      count: readCount(foliage, 'count', d.foliage.count, MAX_PARTICLES, 'config.foliage', issues),
+      baseColor: readRGB(foliage, 'baseColor', d.foliage.baseColor, 'config.foliage', issues),
+      tipColor: readRGB(foliage, 'tipColor', d.foliage.tipColor, 'config.foliage', issues),
+    },
+    garland: {
+      wireCount: readCount(garland, 'wireCount', d.garland.wireCount, MAX_PARTICLES, 'config.garland', issues),
+      bulbCount: readCount(garland, 'bulbCount', d.garland.bulbCount, MAX_PARTICLES, 'config.garland', issues),
+      turns: readNumber(garland, 'turns', d.garland.turns, 0.5, 20, 'config.garland', issues),
+      wireColor: readRGB(garland, 'wireColor', d.garland.wireColor, 'config.garland', issues),
+      bulbColor: readRGB(garland, 'bulbColor', d.garland.bulbColor, 'config.garland', issues),
+      lights: readLights(readSection(garland, 'lights', 'config.garland', issues), d.garland.lights, 'config.garland.lights', issues),
+    },
+    ornaments,
+    baubles: {
+      count: baubleCount,
+      palette: readPalette(baubles, d.baubles.palette, 'config.baubles', validateWeightedColor, issues),
+      notes: readNotes(baubles, baubleCount, 'config.baubles', issues),
+    },
+    gifts: {
+      count: giftCount,
+      palette: readPalette(gifts, d.gifts.palette, 'config.gifts', validateGiftEntry, issues),
+      notes: readNotes(gifts, giftCount, 'config.gifts', issues),
+      surprises: readSurprises(gifts, giftCount, 'config.gifts', issues),
+    },
+    star: readTopper(star, d.star, 'config.star', issues),
+    snow: {
+      count: readCount(snow, 'count', d.snow.count, MAX_SNOW, 'config.snow', issues),
+    },
+    sparkles: {
+      count: readCount(sparkles, 'count', d.sparkles.count, MAX_PARTICLES, 'config.sparkles', issues),
+    },
+    wind: readWind(readSection(input, 'wind', 'config', issues), d.wind, 'config.wind', issues),
+    lighting: readChoice<LightingMode>(input, 'lighting', LIGHTING_MODES, d.lighting, 'config', issues),
+    theme: readChoice<ThemeId>(input, 'theme', THEMES, d.theme, 'config', issues),
+  };
+
+  return { config, issues };
+};
+
+// --- LOADING ---
+
+// `?config=` takes either inline JSON ("?config={"tree":{"height":14}}")
+// or the URL of a JSON file ("?config=./trees/tall.json").
+export const loadSceneConfig = async (): Promise<SceneConfig> => {
+  const param = getUrlParam('config');
+  if (!param) return DEFAULT_SCENE_CONFIG;
+
+  let raw: unknown;
+  try {
+    if (param.trim().startsWith('{')) {
+      raw = JSON.parse(param);
+    } else {
+      const response = await fetch(param);
+      if (!response.ok) throw new SceneConfigError(`Could not fetch scene config (${response.status})`);
+      raw = await response.json();
+    }
+  } catch (err) {
+    console.warn('[scene-config] Falling back to defaults:', err instanceof Error ? err.message : err);
+    return DEFAULT_SCENE_CONFIG;
+  }
+
+  const { config, issues } = validateSceneConfig(raw);
+  if (issues.length > 0) {
+    console.warn(`[scene-config] ${issues.length} invalid field(s) replaced with defaults:\n  ${issues.join('\n  ')}`);
+  }
+  return config;
+};
@@ -0,0 +1,277 @@
+import * as THREE from 'three';
+import { ConeShape, SilhouetteId } from '../types';
+import { createRandom, RandomFn } from './random';
+
+// Tree silhouettes. The config's tree still gives the height, base radius and
+// centre; the silhouette gives the shape within them as a surface (how far out
+// the branches reach at each height and angle) and a density (how thickly
+// they're clothed there). Needles, ornaments, the garland, falling snow and
+// hand decoration all read the same two functions, so whatever the shape,
+// ornaments sit on its branches and the garland wraps it.
+//
+// Heights are relative, 0 at the base of the tree and 1 at its tip; angles go
+// round the trunk as atan2(z, x). Surfaces are shares of the base radius.
+// Every shape reaches the tip, so the star sits where it always has.
+
+export const SILHOUETTES: SilhouetteId[] = ['cone', 'fir', 'nordmann', 'topiary', 'lsystem', 'spiral'];
+
+export interface Silhouette {
+  surface: (h: number, theta: number) => number;
+  density: (h: number, theta: number) => number; // 0..1
+  heightBias: number; // Exponent on the height needles are drawn at; bigger piles them towards the base
+}
+
+// --- GENERATORS ---
+
+const cone: Silhouette = {
+  surface: (h) => 1 - h,
+  density: () => 1,
+  heightBias: 6,
+};
+
+// Distinct whorls of branches, each flaring out and down from the trunk
+const FIR_TIERS = 6;
+const FIR_BRANCHES = 7;
+
+const fir: Silhouette = {
+  surface: (h, theta) => {
+    const tier = Math.min(Math.floor(h * FIR_TIERS), FIR_TIERS - 1);
+    const t = h * FIR_TIERS - tier; // Up through the whorl
+    const lobes = 0.85 + 0.15 * Math.cos(theta * FIR_BRANCHES + tier * 1.3);
+    return (1 - h) * (1 - 0.4 * t) * lobes;
+  },
+  // Thickest along each whorl's lower rim
+  density: (h) => 0.35 + 0.65 * (1 - (h * FIR_TIERS - Math.floor(h * FIR_TIERS))),
+  heightBias: 4,
+};
+
+// Slim and full, with a slightly rounded flank
+const nordmann: Silhouette = {
+  surface: (h, theta) => 0.62 * Math.pow(1 - h, 0.9) * (0.94 + 0.06 * Math.sin(theta * 5 + h * 17)),
+  density: () => 1,
+  heightBias: 4,
+};
+
+// A clipped ball on a bare stem
+const BALL_CENTRE = 0.62;
+const BALL_HALF_HEIGHT = 0.38;
+const STEM = 0.06;
+
+const topiary: Silhouette = {
+  surface: (h) => {
+    const e = (h - BALL_CENTRE) / BALL_HALF_HEIGHT;
+    return e > -1 ? 0.85 * Math.sqrt(Math.max(0, 1 - e * e)) : STEM;
+  },
+  density: (h) => (h > BALL_CENTRE - BALL_HALF_HEIGHT ? 1 : 0.08),
+  heightBias: 1,
+};
+
+// Foliage climbs the cone in a raised ridge
+const SPIRAL_TURNS = 3;
+
+const spiralRidge = (h: number, theta: number) => 0.5 + 0.5 * Math.cos(theta - h * SPIRAL_TURNS * Math.PI * 2);
+
+const spiral: Silhouette = {
+  surface: (h, theta) => (1 - h) * (0.55 + 0.45 * spiralRidge(h, theta)),
+  density: (h, theta) => 0.1 + 0.9 * Math.pow(spiralRidge(h, theta), 3),
+  heightBias: 4,
+};
+
+// --- L-SYSTEM ---
+// Grown from one production, A -> F [&A] [&A] [&A] A: every bud grows a
+// segment, then sprouts three side shoots turned a third of the way round from
+// each other and pitched outwards, and carries on up a little shorter. The
+// branches are then binned by height and angle into the surface (the furthest
+// reach) and density (how much wood) grids the other silhouettes compute
+// directly.
+
+const LSYSTEM_DEPTH = 5;
+const LSYSTEM_TRUNK = 0.28; // First segment, as a share of the height
+const LSYSTEM_APEX = 0.75; // Each leader segment against the one below it
+const LSYSTEM_SHOOT = 0.55; // Side shoots against the segment they grow from
+const LSYSTEM_PITCH = 1.1; // Radians off their parent's axis
+const GRID_HEIGHTS = 48;
+const GRID_ANGLES = 48;
+
+type Segment = [THREE.Vector3, THREE.Vector3];
+
+const growBranches = (random: RandomFn): Segment[] => {
+  const segments: Segment[] = [];
+  const side = new THREE.Vector3();
+  const axis = new THREE.Vector3();
+
+  const grow = (start: THREE.Vector3, dir: THREE.Vector3, length: number, depth: number, roll: number) => {
+    const end = start.clone().addScaledVector(dir, length);
+    segments.push([start, end]);
+    if (depth === 0) return;
+
+    // Any direction square to the branch, to turn the shoots round it
+    axis.set(0, 1, 0);
+    if (Math.abs(dir.y) > 0.9) axis.set(1, 0, 0);
+    const across = new THREE.Vector3().crossVectors(dir, axis).normalize();
+    for (let k = 0; k < 3; k++) {
+      const turn = roll + (k * Math.PI * 2) / 3 + (random() - 0.5) * 0.6;
+      side.copy(across).applyAxisAngle(dir, turn);
+      const pitch = LSYSTEM_PITCH * (0.85 + random() * 0.3);
+      const shoot = dir.clone().multiplyScalar(Math.cos(pitch)).addScaledVector(side, Math.sin(pitch)).normalize();
+      grow(end, shoot, length * LSYSTEM_SHOOT * (0.85 + random() * 0.3), depth - 1, turn + 1);
+    }
+    grow(end, dir, length * LSYSTEM_APEX, depth - 1, roll + 2.4);
+  };
+
+  grow(new THREE.Vector3(), new THREE.Vector3(0, 1, 0), LSYSTEM_TRUNK, LSYSTEM_DEPTH, 0);
+  return segments;
+};
+
+// Spreads each cell a little into its neighbours, wrapping round the trunk
+const blurGrid = (grid: Float32Array) => {
+  const out = new Float32Array(grid.length);
+  for (let i = 0; i < GRID_HEIGHTS; i++) {
+    for (let j = 0; j < GRID_ANGLES; j++) {
+      let sum = 0;
+      let weight = 0;
+      for (let di = -1; di <= 1; di++) {
+        const row = i + di;
+        if (row < 0 || row >= GRID_HEIGHTS) continue;
+        for (let dj = -1; dj <= 1; dj++) {
+          const w = di === 0 && dj === 0 ? 2 : 1;
+          sum += grid[row * GRID_ANGLES + ((j + dj + GRID_ANGLES) % GRID_ANGLES)] * w;
+          weight += w;
+        }
+      }
+      out[i * GRID_ANGLES + j] = sum / weight;
+    }
+  }
+  return out;
+};
+
+// Bilinear, wrapping in angle
+const sampleGrid = (grid: Float32Array, h: number, theta: number) => {
+  const y = THREE.MathUtils.clamp(h, 0, 1) * (GRID_HEIGHTS - 1);
+  const x = THREE.MathUtils.euclideanModulo(theta / (Math.PI * 2), 1) * GRID_ANGLES;
+  const i = Math.min(Math.floor(y), GRID_HEIGHTS - 2);
+  const j = Math.floor(x) % GRID_ANGLES;
+  const fy = y - i;
+  const fx = x - Math.floor(x);
+  const at = (row: number, col: number) => grid[row * GRID_ANGLES + (col % GRID_ANGLES)];
+  const lower = at(i, j) * (1 - fx) + at(i, j + 1) * fx;
+  const upper = at(i + 1, j) * (1 - fx) + at(i + 1, j + 1) * fx;
+  return lower * (1 - fy) + upper * fy;
+};
+
+const createLSystem = (): Silhouette => {
+  const segments = growBranches(createRandom(0, 'silhouette:lsystem'));
+  const reach = new Float32Array(GRID_HEIGHTS * GRID_ANGLES);
+  const wood = new Float32Array(GRID_HEIGHTS * GRID_ANGLES);
+  const top = Math.max(...segments.map(([, end]) => end.y));
+  const point = new THREE.Vector3();
+
+  for (const [start, end] of segments) {
+    const steps = Math.max(2, Math.ceil(start.distanceTo(end) * 80));
+    for (let s = 0; s <= steps; s++) {
+      point.lerpVectors(start, end, s / steps);
+      const h = point.y / top;
+      const radius = Math.hypot(point.x, point.z);
+      if (h < 0 || h > 1 || radius < 1e-4) continue;
+      const cell = Math.round(h * (GRID_HEIGHTS - 1)) * GRID_ANGLES + (Math.floor(((Math.atan2(point.z, point.x) / (Math.PI * 2)) + 1) * GRID_ANGLES) % GRID_ANGLES);
+      reach[cell] = Math.max(reach[cell], radius);
+      wood[cell] += 1;
+    }
+  }
+
+  // Shares of the widest reach, and of a well-filled cell. Gaps between
+  // the shoots are filled to half the reach at that height, so the garland
+  // and the ornaments never fall through to the trunk.
+  const surface = blurGrid(blurGrid(reach));
+  const widest = Math.max(...surface);
+  for (let i = 0; i < GRID_HEIGHTS; i++) {
+    const row = surface.subarray(i * GRID_ANGLES, (i + 1) * GRID_ANGLES);
+    const floor = Math.max(...row) / 2;
+    row.forEach((r, j) => (row[j] = Math.max(r, floor) / widest));
+  }
+  const density = blurGrid(wood);
+  const filled = density.reduce((sum, w) => sum + w, 0) / Math.max(1, density.filter((w) => w > 0).length);
+  density.forEach((w, i) => (density[i] = Math.min(1, w / filled)));
+
+  return {
+    // The bare trunk below the crown is as thick as the topiary's stem
+    surface: (h, theta) => Math.max(STEM, sampleGrid(surface, h, theta)),
+    density: (h, theta) => sampleGrid(density, h, theta),
+    heightBias: 1,
+  };
+};
+
+const GENERATORS: Record<SilhouetteId, () => Silhouette> = {
+  cone: () => cone,
+  fir: () => fir,
+  nordmann: () => nordmann,
+  topiary: () => topiary,
+  lsystem: createLSystem,
+  spiral: () => spiral,
+};
+
+export const createSilhouette = (id: SilhouetteId): Silhouette => GENERATORS[id]();
+
+// --- SAMPLING ---
+
+// Tries before settling for a sparse spot; keeps a nearly bare shape from stalling
+const MAX_DRAWS = 24;
+
+// Draws a relative height and angle (with `draw`) until the silhouette is
+// clothed there, in proportion to its density. A fully dense shape takes the
+// first draw without using any extra randomness, so the cone's layout is the
+// same as it always was.
+export const drawOnBranches = <T extends { h: number; theta: number }>(
+  silhouette: Silhouette,
+  random: RandomFn,
+  draw: () => T
+): T => {
+  let spot = draw();
+  for (let tries = 1; tries < MAX_DRAWS; tries++) {
+    const density = silhouette.density(spot.h, spot.theta);
+    if (density >= 1 || random() < density) break;
+    spot = draw();
+  }
+  return spot;
+};
+
+// The furthest the branches reach at any height or angle, as a share of the base radius
+export const widestReach = (silhouette: Silhouette, rows = 48, columns = 24): number => {
+  let widest = 0;
+  for (let i = 0; i <= rows; i++) {
+    for (let j = 0; j < columns; j++) widest = Math.max(widest, silhouette.surface(i / rows, (j / columns) * Math.PI * 2));
+  }
+  return widest;
+};
+
+// Radius of the branches at world height `y` and angle `theta` round a shape
+export const surfaceRadius = (silhouette: Silhouette, cone: ConeShape, y: number, theta: number): number => {
+  const h = (y - (cone.yOffset - cone.height / 2)) / cone.height;
+  return cone.baseRadius * silhouette.surface(THREE.MathUtils.clamp(h, 0, 1), theta);
+};
+
+// Raycast target following the surface, for placing ornaments by hand; centred on the cone like a ConeGeometry
+export const createSurfaceGeometry = (silhouette: Silhouette, cone: ConeShape, rows = 48, columns = 48): THREE.BufferGeometry => {
+  const positions: number[] = [];
+  for (let i = 0; i <= rows; i++) {
+    const h = i / rows;
+    for (let j = 0; j <= columns; j++) {
+      const theta = (j / columns) * Math.PI * 2;
+      const r = cone.baseRadius * silhouette.surface(h, theta);
+      positions.push(r * Math.cos(theta), (h - 0.5) * cone.height, r * Math.sin(theta));
+    }
+  }
+  const indices: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let j = 0; j < columns; j++) {
+      const a = i * (columns + 1) + j;
+      const b = a + columns + 1;
+      indices.push(a, b, a + 1, b, b + 1, a + 1);
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+};
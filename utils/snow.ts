@@ -0,0 +1,229 @@
+import { ConeShape } from '../types';
+import * as THREE from 'three';
+import { createRandom, RandomFn } from './random';
+import { windAt, WindUniforms } from './wind';
+import { Silhouette } from './silhouettes';
+
+// Snow that settles. The flakes (a few hundred) fall on the CPU, so each can
+// be tested against the ground, the tree's branches and the gift pile. A flake
+// that lands is kept where it landed as a settled flake; the ground layer and
+// each gift's cap keep a running depth. When the tree stops standing whatever
+// sits on it is shed, dropping off and fading; when the scene scatters the
+// ground layer melts away too.
+//
+// Falling flakes ride the wind, each at its own share of it, and wrap around
+// the sides of the fall so a strong wind never empties the sky.
+
+export const SNOW_HEIGHT = 25; // Flakes fall through this much, centred on the group's origin
+const SNOW_SPREAD = 25;
+const FALL_SPEED = 1.5;
+
+// Settled flakes kept at once; the oldest give way
+export const MAX_SETTLED = 3000;
+const GROUND_MELT = 6; // Seconds a flake on the ground shows before it's just part of the layer
+const SHED_TIME = 1.5; // Seconds shed snow takes to fall off and fade, and caps and layer to melt
+const GRAVITY = 9;
+const SHED_PUSH = 1.5; // Outward speed of shed flakes
+
+const GROUND_FULL = 1200; // Landings for the deepest ground layer
+const CAP_FULL = 15; // Landings on one gift for a full cap
+// Specks left by each flake caught in the branches, so the frosting reads from a distance
+const FROST_SPECKS = 3;
+const FROST_SCATTER = 0.3;
+
+// Settled flake kinds; 1 and up are gifts
+const DEAD = -2;
+const ON_GROUND = -1;
+const ON_TREE = 0;
+
+// Where a gift rests in the pile, as the snow sees it
+export interface SnowGift {
+  x: number;
+  z: number;
+  top: number;
+  radius: number;
+}
+
+export interface SnowColliders {
+  ground: number;
+  groundRadius: number; // Landings within this build the layer
+  cone: ConeShape; // The needles
+  silhouette: Silhouette; // ... and the shape they take inside it
+  gifts: SnowGift[];
+}
+
+const tempWind = new THREE.Vector3();
+
+// Back in from the other side once blown out of the fall
+const wrap = (v: number) => THREE.MathUtils.euclideanModulo(v + SNOW_SPREAD / 2, SNOW_SPREAD) - SNOW_SPREAD / 2;
+
+export class SnowField {
+  readonly positions: Float32Array; // Falling flakes, as drawn
+  readonly randoms: Float32Array;
+  readonly sizes: Float32Array;
+  readonly settled = new Float32Array(MAX_SETTLED * 3);
+  readonly settledAlpha = new Float32Array(MAX_SETTLED);
+  ground = 0; // Depth of the ground layer, 0..1
+  readonly caps: Float32Array; // Depth of each gift's cap, 0..1
+
+  private base: Float32Array; // Where falling flakes start; they move from here
+  private random: RandomFn;
+  private kinds = new Int16Array(MAX_SETTLED).fill(DEAD);
+  private ages = new Float32Array(MAX_SETTLED);
+  private velocities = new Float32Array(MAX_SETTLED * 3);
+  private shedding = new Uint8Array(MAX_SETTLED);
+  private next = 0;
+  private wasStanding = false;
+  private wasAccumulating = false;
+
+  constructor(count: number, giftCount: number, seed: number) {
+    this.positions = new Float32Array(count * 3);
+    this.base = new Float32Array(count * 3);
+    this.randoms = new Float32Array(count);
+    this.sizes = new Float32Array(count);
+    this.caps = new Float32Array(giftCount);
+    this.random = createRandom(seed, 'snow');
+
+    for (let i = 0; i < count; i++) {
+      this.base[i * 3] = (this.random() - 0.5) * SNOW_SPREAD;
+      this.base[i * 3 + 1] = (this.random() - 0.5) * SNOW_HEIGHT;
+      this.base[i * 3 + 2] = (this.random() - 0.5) * SNOW_SPREAD;
+      this.randoms[i] = this.random();
+      // Much smaller than the foliage
+      this.sizes[i] = 0.5 + this.random();
+    }
+    this.positions.set(this.base);
+  }
+
+  // `standing`: the tree is up and can hold snow. `accumulating`: a shape
+  // stands at all, so the ground keeps what falls on it.
+  step(delta: number, colliders: SnowColliders, wind: WindUniforms, standing: boolean, accumulating: boolean) {
+    if (this.wasStanding && !standing) this.shed(false);
+    if (this.wasAccumulating && !accumulating) this.shed(true);
+    this.wasStanding = standing;
+    this.wasAccumulating = accumulating;
+
+    const { ground, cone } = colliders;
+    const bottom = cone.yOffset - cone.height / 2;
+    for (let i = 0; i < this.randoms.length; i++) {
+      const r = this.randoms[i];
+      // Light flakes are carried more than heavy ones
+      windAt(wind, this.base[i * 3], this.base[i * 3 + 1], this.base[i * 3 + 2] + r * 10, tempWind).multiplyScalar(0.7 + 0.6 * r);
+      let x = (this.base[i * 3] = wrap(this.base[i * 3] + tempWind.x * delta));
+      // Updrafts can hold a flake up but not carry it out of the top
+      const y = (this.base[i * 3 + 1] = Math.min(this.base[i * 3 + 1] + (tempWind.y - FALL_SPEED * (0.5 + r)) * delta, SNOW_HEIGHT / 2 + 1));
+      let z = (this.base[i * 3 + 2] = wrap(this.base[i * 3 + 2] + tempWind.z * delta));
+
+      let landed: number | null = null;
+      let landY = y;
+      if (standing) {
+        const radius = Math.hypot(x, z);
+        const h = (y - bottom) / cone.height;
+        const limit = cone.baseRadius * colliders.silhouette.surface(h, Math.atan2(z, x));
+        if (h > 0 && h < 1 && radius < limit) {
+          // Caught on the outside of the branches
+          const scale = limit / Math.max(radius, 1e-3);
+          x *= scale;
+          z *= scale;
+          landed = ON_TREE;
+        } else {
+          const g = colliders.gifts.findIndex((gift) => y <= gift.top && Math.hypot(x - gift.x, z - gift.z) < gift.radius);
+          if (g >= 0 && y > colliders.gifts[g].top - 0.5) {
+            landY = colliders.gifts[g].top;
+            landed = g + 1;
+            this.caps[g] = Math.min(1, this.caps[g] + 1 / CAP_FULL);
+          }
+        }
+      }
+      if (landed === null && y <= ground) {
+        landY = ground;
+        if (accumulating) {
+          landed = ON_GROUND;
+          if (Math.hypot(x, z) < colliders.groundRadius) this.ground = Math.min(1, this.ground + 1 / GROUND_FULL);
+        } else {
+          this.respawn(i);
+          continue;
+        }
+      }
+
+      if (landed === ON_TREE) {
+        for (let k = 0; k < FROST_SPECKS; k++) {
+          const jitter = () => (this.random() - 0.5) * FROST_SCATTER;
+          this.settle(x + jitter(), landY + jitter(), z + jitter(), landed);
+        }
+        this.respawn(i);
+        continue;
+      }
+      if (landed !== null) {
+        this.settle(x, landY, z, landed);
+        this.respawn(i);
+        continue;
+      }
+      this.positions[i * 3] = x;
+      this.positions[i * 3 + 1] = y;
+      this.positions[i * 3 + 2] = z;
+    }
+
+    if (!standing) this.caps.forEach((depth, g) => (this.caps[g] = Math.max(0, depth - delta / SHED_TIME)));
+    if (!accumulating) this.ground = Math.max(0, this.ground - delta / SHED_TIME);
+    this.stepSettled(delta, ground);
+  }
+
+  private stepSettled(delta: number, ground: number) {
+    for (let i = 0; i < MAX_SETTLED; i++) {
+      if (this.kinds[i] === DEAD) continue;
+      const age = (this.ages[i] += delta);
+      if (this.shedding[i]) {
+        this.velocities[i * 3 + 1] -= GRAVITY * delta;
+        for (let k = 0; k < 3; k++) this.settled[i * 3 + k] += this.velocities[i * 3 + k] * delta;
+        this.settledAlpha[i] = Math.max(0, 1 - age / SHED_TIME);
+        if (this.settledAlpha[i] === 0 || this.settled[i * 3 + 1] < ground) this.kill(i);
+      } else if (this.kinds[i] === ON_GROUND) {
+        // Fades into the layer over the last second
+        this.settledAlpha[i] = Math.min(1, GROUND_MELT - age);
+        if (age >= GROUND_MELT) this.kill(i);
+      }
+    }
+  }
+
+  private settle(x: number, y: number, z: number, kind: number) {
+    const i = this.next;
+    this.next = (this.next + 1) % MAX_SETTLED;
+    this.settled[i * 3] = x;
+    this.settled[i * 3 + 1] = y;
+    this.settled[i * 3 + 2] = z;
+    this.settledAlpha[i] = 1;
+    this.kinds[i] = kind;
+    this.ages[i] = 0;
+    this.shedding[i] = 0;
+  }
+
+  // Lets go of the tree and gifts' snow, and the ground's too if `all`
+  private shed(all: boolean) {
+    for (let i = 0; i < MAX_SETTLED; i++) {
+      const kind = this.kinds[i];
+      if (kind === DEAD || this.shedding[i] || (kind === ON_GROUND && !all)) continue;
+      const x = this.settled[i * 3];
+      const z = this.settled[i * 3 + 2];
+      const radius = Math.max(Math.hypot(x, z), 1e-3);
+      const push = SHED_PUSH * (0.5 + this.random());
+      this.velocities[i * 3] = (x / radius) * push;
+      this.velocities[i * 3 + 1] = this.random();
+      this.velocities[i * 3 + 2] = (z / radius) * push;
+      this.shedding[i] = 1;
+      this.ages[i] = 0;
+    }
+  }
+
+  private kill(i: number) {
+    this.kinds[i] = DEAD;
+    this.settledAlpha[i] = 0;
+  }
+
+  private respawn(i: number) {
+    this.base[i * 3] = (this.random() - 0.5) * SNOW_SPREAD;
+    this.base[i * 3 + 1] = SNOW_HEIGHT / 2 + this.random();
+    this.base[i * 3 + 2] = (this.random() - 0.5) * SNOW_SPREAD;
+    for (let k = 0; k < 3; k++) this.positions[i * 3 + k] = this.base[i * 3 + k];
+  }
+}
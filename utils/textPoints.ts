@@ -0,0 +1,179 @@
+import { containsCJK } from './i18n';
+import { RandomFn } from './random';
+import { TreeLayout } from './sceneConfig';
+
+// Text-to-particles: the text is drawn to an offscreen canvas once, and its
+// inked pixels become a point cloud the particle layers can morph into.
+
+export const MAX_TEXT_LENGTH = 40;
+
+// Same stack as the overlay, so CJK falls back to a matching serif
+export const FONT_FAMILY = '"Playfair Display", "Noto Serif SC", "Songti SC", STSong, SimSun, serif';
+const FONT_SIZE = 96;
+const LINE_HEIGHT = 1.2;
+const MAX_CANVAS_WIDTH = 1024;
+const INK_THRESHOLD = 110;
+
+export interface TextMask {
+  text: string;
+  width: number;
+  height: number;
+  ink: Uint32Array; // Indices of inked pixels, row-major
+}
+
+// --- LINE BREAKING ---
+
+// Words for Latin text, single characters for CJK (which has no spaces)
+const splitUnits = (paragraph: string): string[] => {
+  const units: string[] = [];
+  let word = '';
+  for (const char of paragraph) {
+    if (containsCJK(char)) {
+      if (word) units.push(word);
+      units.push(char);
+      word = '';
+    } else if (char === ' ') {
+      if (word) units.push(word);
+      units.push(' ');
+      word = '';
+    } else {
+      word += char;
+    }
+  }
+  if (word) units.push(word);
+  return units;
+};
+
+const wrap = (ctx: CanvasRenderingContext2D, paragraph: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const unit of splitUnits(paragraph)) {
+    const candidate = line + unit;
+    if (line.trim() && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line.trim());
+      line = unit === ' ' ? '' : unit;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+};
+
+// Picks the line count whose block is closest to the aspect of the space the
+// text will fill, so long messages wrap instead of becoming a thin ribbon.
+const layoutLines = (ctx: CanvasRenderingContext2D, text: string, targetAspect: number): string[] => {
+  const paragraphs = text.split('\n').map((p) => p.trim()).filter(Boolean);
+  let best: string[] = paragraphs;
+  let bestScore = Infinity;
+  const totalWidth = paragraphs.reduce((sum, p) => sum + ctx.measureText(p).width, 0);
+
+  for (let lineCount = paragraphs.length; lineCount <= paragraphs.length + 3; lineCount++) {
+    const maxWidth = Math.max(totalWidth / lineCount, FONT_SIZE) * 1.05;
+    const lines = paragraphs.flatMap((p) => wrap(ctx, p, maxWidth));
+    const width = Math.max(...lines.map((l) => ctx.measureText(l).width));
+    const aspect = width / (lines.length * FONT_SIZE * LINE_HEIGHT);
+    const score = Math.abs(Math.log(aspect / targetAspect));
+    if (score < bestScore) {
+      best = lines;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// --- RASTERISING ---
+
+export const rasterizeText = async (input: string, targetAspect = 1.1): Promise<TextMask | null> => {
+  const text = input.trim().slice(0, MAX_TEXT_LENGTH);
+  if (!text) return null;
+
+  const font = `bold ${FONT_SIZE}px ${FONT_FAMILY}`;
+  // Web fonts load lazily; make sure the glyphs for this text are ready before drawing
+  try {
+    await document.fonts.load(font, text);
+  } catch {
+    // Fall through to whatever the system provides
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.font = font;
+
+  const lines = layoutLines(ctx, text, targetAspect);
+  const padding = FONT_SIZE * 0.2;
+  const lineHeight = FONT_SIZE * LINE_HEIGHT;
+  const textWidth = Math.max(...lines.map((l) => ctx.measureText(l).width));
+  const scale = Math.min(1, MAX_CANVAS_WIDTH / (textWidth + padding * 2));
+
+  canvas.width = Math.ceil((textWidth + padding * 2) * scale);
+  canvas.height = Math.ceil((lines.length * lineHeight + padding * 2) * scale);
+
+  ctx.scale(scale, scale);
+  ctx.font = font; // Resizing the canvas resets its state
+  ctx.fillStyle = '#fff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, (textWidth + padding * 2) / 2, padding + lineHeight * (i + 0.5));
+  });
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const inked: number[] = [];
+  for (let i = 0; i < canvas.width * canvas.height; i++) {
+    if (data[i * 4 + 3] > INK_THRESHOLD) inked.push(i);
+  }
+  if (inked.length === 0) return null;
+
+  return { text, width: canvas.width, height: canvas.height, ink: Uint32Array.from(inked) };
+};
+
+// --- FITTING INTO THE SCENE ---
+
+// How many foliage particles a unit of inked area should get to read as solid
+const TARGET_DENSITY = 260;
+
+export interface TextShape {
+  mask: TextMask;
+  width: number; // World units
+  height: number;
+  centerY: number;
+}
+
+// Sizes the text to the tree's footprint, then shrinks it if the particles
+// would spread too thin: short words stay as dense as long messages.
+export const fitTextShape = (mask: TextMask, layout: TreeLayout, particleCount: number): TextShape => {
+  const { height: treeHeight, yOffset } = layout.foliage;
+  const maxWidth = treeHeight * 0.9;
+  const maxHeight = treeHeight * 0.75;
+  const aspect = mask.width / mask.height;
+
+  let width = Math.min(maxWidth, maxHeight * aspect);
+  let height = width / aspect;
+
+  const inkArea = (mask.ink.length / (mask.width * mask.height)) * width * height;
+  const maxInkArea = particleCount / TARGET_DENSITY;
+  if (inkArea > maxInkArea) {
+    const shrink = Math.sqrt(maxInkArea / inkArea);
+    width *= shrink;
+    height *= shrink;
+  }
+
+  return { mask, width, height, centerY: yOffset };
+};
+
+// Uniform over the inked pixels, jittered inside each pixel
+export const sampleTextShape = (shape: TextShape, count: number, random: RandomFn, depth: number, zOffset = 0): Float32Array => {
+  const { mask, width, height, centerY } = shape;
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const pixel = mask.ink[Math.floor(random() * mask.ink.length)];
+    const px = (pixel % mask.width) + random();
+    const py = Math.floor(pixel / mask.width) + random();
+    out[i * 3] = (px / mask.width - 0.5) * width;
+    out[i * 3 + 1] = centerY + (0.5 - py / mask.height) * height;
+    out[i * 3 + 2] = zOffset + (random() - 0.5) * depth;
+  }
+  return out;
+};
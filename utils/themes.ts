@@ -0,0 +1,234 @@
+import * as THREE from 'three';
+import { RGBTriple, SceneConfig, ThemeId } from '../types';
+
+// Colour themes. A theme recolours every layer at once: the needles and their
+// glints, the sparkles, the garland wire and bulbs, the star, and the slots of
+// the ornament, bauble and gift palettes. Which slot each instance takes is
+// still drawn from the configured palettes, so a theme only repaints; nothing
+// is regenerated, and switching fades the colours across.
+//
+// Point layers read the colours as shared uniforms; instanced meshes repaint
+// their instance colours whenever `version` moves on.
+
+export const THEMES: ThemeId[] = ['emerald', 'christmas', 'frost', 'lunar', 'midnight'];
+
+interface GiftColors {
+  color: string;
+  ribbon: string;
+}
+
+interface ThemeColors {
+  foliage: { base: RGBTriple; tip: RGBTriple; glint: RGBTriple };
+  sparkles: RGBTriple;
+  wire: RGBTriple;
+  bulb: RGBTriple; // Unless the garland lights list their own colours
+  star: string;
+  // By slot, repeating when the configured palette has more
+  ornaments: string[]; // One per ornament group
+  baubles: string[];
+  gifts: GiftColors[];
+}
+
+// Colours the shaders used to hard-code; the configured look keeps them
+const GLINT_GOLD: RGBTriple = [1.0, 0.95, 0.8];
+const SPARKLE_GOLD: RGBTriple = [1.0, 0.85, 0.4];
+
+const THEME_COLORS: Record<Exclude<ThemeId, 'emerald'>, ThemeColors> = {
+  christmas: {
+    foliage: { base: [0.01, 0.035, 0.012], tip: [0.04, 0.2, 0.05], glint: [1.0, 1.0, 0.95] },
+    sparkles: [1.0, 0.5, 0.4],
+    wire: [1.4, 0.3, 0.25],
+    bulb: [2.0, 0.6, 0.4],
+    star: '#ffcc33',
+    ornaments: ['#c8102e', '#f5f5f5', '#1e7b34'],
+    baubles: ['#c8102e', '#ffffff'],
+    gifts: [
+      { color: '#b3121f', ribbon: '#f5f5f5' },
+      { color: '#f5f5f5', ribbon: '#b3121f' },
+      { color: '#1e6b34', ribbon: '#c8102e' },
+      { color: '#c8102e', ribbon: '#1e6b34' },
+    ],
+  },
+  frost: {
+    foliage: { base: [0.02, 0.03, 0.035], tip: [0.25, 0.32, 0.36], glint: [0.9, 0.95, 1.1] },
+    sparkles: [0.8, 0.9, 1.0],
+    wire: [1.0, 1.1, 1.3],
+    bulb: [1.6, 1.8, 2.2],
+    star: '#e8f4ff',
+    ornaments: ['#dfe7ef', '#9fb8d0', '#ffffff'],
+    baubles: ['#ffffff', '#cfe3f5'],
+    gifts: [
+      { color: '#e8eef5', ribbon: '#8fa8c0' },
+      { color: '#9fb8d0', ribbon: '#ffffff' },
+      { color: '#5d7894', ribbon: '#dfe7ef' },
+      { color: '#ffffff', ribbon: '#9fb8d0' },
+    ],
+  },
+  lunar: {
+    foliage: { base: [0.04, 0.004, 0.004], tip: [0.3, 0.03, 0.02], glint: [1.0, 0.85, 0.4] },
+    sparkles: [1.0, 0.7, 0.3],
+    wire: [1.5, 1.0, 0.3],
+    bulb: [2.2, 1.4, 0.4],
+    star: '#ffcc00',
+    ornaments: ['#ffd700', '#d10a0a', '#ffb347'],
+    baubles: ['#ffd700', '#e0301e'],
+    gifts: [
+      { color: '#c8102e', ribbon: '#ffd700' },
+      { color: '#ffd700', ribbon: '#c8102e' },
+      { color: '#8b0000', ribbon: '#ffcc33' },
+      { color: '#e0301e', ribbon: '#ffe08a' },
+    ],
+  },
+  midnight: {
+    foliage: { base: [0.004, 0.008, 0.03], tip: [0.03, 0.06, 0.2], glint: [0.85, 0.9, 1.0] },
+    sparkles: [0.6, 0.7, 1.0],
+    wire: [0.9, 1.0, 1.5],
+    bulb: [1.2, 1.4, 2.4],
+    star: '#dfe8ff',
+    ornaments: ['#c0c8d8', '#1a2a6c', '#8fa2d4'],
+    baubles: ['#e6ecff', '#7d8fc8'],
+    gifts: [
+      { color: '#14213d', ribbon: '#c0c8d8' },
+      { color: '#c0c8d8', ribbon: '#14213d' },
+      { color: '#283c86', ribbon: '#e6ecff' },
+      { color: '#e6ecff', ribbon: '#283c86' },
+    ],
+  },
+};
+
+// 'emerald' is whatever the config sets, emerald and gold by default
+const themeColors = (theme: ThemeId, config: SceneConfig): ThemeColors =>
+  theme === 'emerald'
+    ? {
+        foliage: { base: config.foliage.baseColor, tip: config.foliage.tipColor, glint: GLINT_GOLD },
+        sparkles: SPARKLE_GOLD,
+        wire: config.garland.wireColor,
+        bulb: config.garland.bulbColor,
+        star: config.star.color,
+        ornaments: config.ornaments.map((group) => group.color),
+        baubles: config.baubles.palette.map((entry) => entry.color),
+        gifts: config.gifts.palette,
+      }
+    : THEME_COLORS[theme];
+
+// Seconds a theme change fades over
+const THEME_FADE = 1.5;
+
+export interface ThemeUniforms {
+  uBaseColor: { value: THREE.Vector3 }; // Needles at the bottom of the tree
+  uTipColor: { value: THREE.Vector3 }; // ... and at the top
+  uGlintColor: { value: THREE.Vector3 }; // Needles catching the light
+  uSparkleColor: { value: THREE.Vector3 };
+  uWireColor: { value: THREE.Vector3 };
+  uBulbColor: { value: THREE.Vector3 };
+}
+
+// Live colours of the meshes, by slot of the configured palettes
+export interface ThemeMaterials {
+  star: THREE.Color;
+  ornaments: THREE.Color[];
+  baubles: THREE.Color[];
+  gifts: THREE.Color[];
+  ribbons: THREE.Color[];
+}
+
+// Everything a theme sets, flattened so two can be blended
+interface ThemeState {
+  vectors: THREE.Vector3[]; // In ThemeUniforms order
+  colors: THREE.Color[]; // Star, then ornaments, baubles, gifts and ribbons
+}
+
+const cycle = <T>(items: T[], count: number): T[] => Array.from({ length: count }, (_, i) => items[i % items.length]);
+
+export class ThemeFader {
+  readonly uniforms: ThemeUniforms = {
+    uBaseColor: { value: new THREE.Vector3() },
+    uTipColor: { value: new THREE.Vector3() },
+    uGlintColor: { value: new THREE.Vector3() },
+    uSparkleColor: { value: new THREE.Vector3() },
+    uWireColor: { value: new THREE.Vector3() },
+    uBulbColor: { value: new THREE.Vector3() },
+  };
+  readonly colors: ThemeMaterials = { star: new THREE.Color(), ornaments: [], baubles: [], gifts: [], ribbons: [] };
+  // Moves on every frame the colours change, so instance colours are only rewritten then
+  version = 0;
+
+  private from: ThemeState = { vectors: [], colors: [] };
+  private to: ThemeState = { vectors: [], colors: [] };
+  private fade = 1;
+
+  // Starts on `theme` outright, so the layers have colours from their first frame
+  constructor(theme: ThemeId, config: SceneConfig) {
+    this.configure(theme, config);
+  }
+
+  configure(theme: ThemeId, config: SceneConfig) {
+    const source = themeColors(theme, config);
+    const vectors = [source.foliage.base, source.foliage.tip, source.foliage.glint, source.sparkles, source.wire, source.bulb].map(
+      (rgb) => new THREE.Vector3(...rgb)
+    );
+    const gifts = cycle(source.gifts, config.gifts.palette.length);
+    const colors = [
+      source.star,
+      ...cycle(source.ornaments, config.ornaments.length),
+      ...cycle(source.baubles, config.baubles.palette.length),
+      ...gifts.map((gift) => gift.color),
+      ...gifts.map((gift) => gift.ribbon),
+    ].map((hex) => new THREE.Color(hex));
+
+    // The first theme, or palettes that grew or shrank, cut straight to the new colours
+    const c = this.colors;
+    const resized =
+      this.to.colors.length === 0 ||
+      c.ornaments.length !== config.ornaments.length ||
+      c.baubles.length !== config.baubles.palette.length ||
+      c.gifts.length !== gifts.length;
+    if (!resized && this.matches(vectors, colors)) return;
+    if (resized) {
+      const slots = (count: number) => Array.from({ length: count }, () => new THREE.Color());
+      c.ornaments = slots(config.ornaments.length);
+      c.baubles = slots(config.baubles.palette.length);
+      c.gifts = slots(gifts.length);
+      c.ribbons = slots(gifts.length);
+    }
+
+    // Otherwise fade from what's on screen, even mid-fade
+    this.from = resized ? { vectors, colors } : this.snapshot();
+    this.to = { vectors, colors };
+    this.fade = resized ? 1 : 0;
+    this.apply(this.fade);
+  }
+
+  tick(delta: number) {
+    if (this.fade >= 1) return;
+    this.fade = Math.min(1, this.fade + delta / THEME_FADE);
+    this.apply(this.fade);
+  }
+
+  private matches(vectors: THREE.Vector3[], colors: THREE.Color[]) {
+    return vectors.every((v, i) => v.equals(this.to.vectors[i])) && colors.every((color, i) => color.equals(this.to.colors[i]));
+  }
+
+  // The state on screen, as references to the live objects
+  private live(): ThemeState {
+    const u = this.uniforms;
+    const c = this.colors;
+    return {
+      vectors: [u.uBaseColor, u.uTipColor, u.uGlintColor, u.uSparkleColor, u.uWireColor, u.uBulbColor].map((uniform) => uniform.value),
+      colors: [c.star, ...c.ornaments, ...c.baubles, ...c.gifts, ...c.ribbons],
+    };
+  }
+
+  private snapshot(): ThemeState {
+    const { vectors, colors } = this.live();
+    return { vectors: vectors.map((v) => v.clone()), colors: colors.map((color) => color.clone()) };
+  }
+
+  private apply(fade: number) {
+    const x = THREE.MathUtils.smoothstep(fade, 0, 1);
+    const { vectors, colors } = this.live();
+    vectors.forEach((v, i) => v.lerpVectors(this.from.vectors[i], this.to.vectors[i], x));
+    colors.forEach((color, i) => color.lerpColors(this.from.colors[i], this.to.colors[i], x));
+    this.version++;
+  }
+}
@@ -0,0 +1,182 @@
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { TopperId, TopperSettings } from '../types';
+
+// Tree toppers. Each is built at the size of the original star (about 0.9
+// tall, for the default 12-unit tree) and set so its lowest point sits where
+// the star's did, so any topper rests on the tip the same way; the layout
+// scales them all with the tree. Each has its own finish and glow.
+
+export const TOPPERS: TopperId[] = ['star', 'moravian', 'snowflake', 'angel', 'svg'];
+
+export interface TopperLook {
+  metalness: number;
+  roughness: number;
+  emissive: number; // Emissive intensity at rest; the music's bass adds to it
+  glow: number; // Intensity of the light it casts at rest
+  glowDistance: number;
+}
+
+const LOOKS: Record<TopperId, TopperLook> = {
+  // Polished gold, the original
+  star: { metalness: 1, roughness: 0.1, emissive: 0.5, glow: 1, glowDistance: 6 },
+  // A paper lantern, lit from inside
+  moravian: { metalness: 0.2, roughness: 0.45, emissive: 1.1, glow: 1.8, glowDistance: 8 },
+  // Ice: glassy and bright
+  snowflake: { metalness: 0.6, roughness: 0.05, emissive: 0.8, glow: 1.2, glowDistance: 6 },
+  // Brushed metal with a soft halo
+  angel: { metalness: 0.8, roughness: 0.3, emissive: 0.4, glow: 1.4, glowDistance: 7 },
+  svg: { metalness: 1, roughness: 0.1, emissive: 0.5, glow: 1, glowDistance: 6 },
+};
+
+export const topperLook = (id: TopperId): TopperLook => LOOKS[id];
+
+// Lowest point of the original star, below its centre
+const TOPPER_BOTTOM = -0.394;
+const TOPPER_HEIGHT = 0.9;
+
+const BEVEL = { bevelEnabled: true, bevelThickness: 0.03, bevelSize: 0.03, bevelSegments: 2 };
+
+// Centred on the axis it spins about, resting where the star rested
+const settle = (geometry: THREE.BufferGeometry): THREE.BufferGeometry => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  geometry.translate(-(box.min.x + box.max.x) / 2, TOPPER_BOTTOM - box.min.y, -(box.min.z + box.max.z) / 2);
+  geometry.computeBoundingSphere();
+  return geometry;
+};
+
+// --- SHAPES ---
+
+// `points` points, the inner corners at `innerRatio` of the outer radius
+const createStar = (points: number, innerRatio: number) => {
+  const outerRadius = 0.45;
+  const innerRadius = outerRadius * innerRatio;
+  const shape = new THREE.Shape();
+  shape.moveTo(0, outerRadius);
+  for (let i = 1; i < points * 2; i++) {
+    const radius = i % 2 === 0 ? outerRadius : innerRadius;
+    shape.lineTo(Math.sin((i * Math.PI) / points) * radius, Math.cos((i * Math.PI) / points) * radius);
+  }
+  shape.closePath();
+  return new THREE.ExtrudeGeometry(shape, { steps: 1, depth: 0.1, ...BEVEL });
+};
+
+// Pyramids out of a small core in 26 directions: square ones along the axes
+// and edges, triangular ones to the corners
+const createMoravian = () => {
+  const core = 0.12;
+  const up = new THREE.Vector3(0, 1, 0);
+  const parts: THREE.BufferGeometry[] = [new THREE.SphereGeometry(core, 16, 12)];
+  for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+      for (let z = -1; z <= 1; z++) {
+        if (!x && !y && !z) continue;
+        const corner = x && y && z;
+        const dir = new THREE.Vector3(x, y, z).normalize();
+        const length = corner ? 0.24 : 0.32;
+        parts.push(
+          new THREE.ConeGeometry(corner ? 0.06 : 0.075, length, corner ? 3 : 4)
+            .translate(0, core + length / 2 - 0.02, 0)
+            .applyQuaternion(new THREE.Quaternion().setFromUnitVectors(up, dir))
+        );
+      }
+    }
+  }
+  return mergeGeometries(parts)!;
+};
+
+// Six arms round a hexagon, each with two pairs of side branches
+const createSnowflake = () => {
+  const arm = 0.42;
+  const parts: THREE.BufferGeometry[] = [new THREE.CylinderGeometry(0.08, 0.08, 0.04, 6).rotateX(Math.PI / 2)];
+  for (let k = 0; k < 6; k++) {
+    const turn = (k * Math.PI) / 3;
+    parts.push(new THREE.BoxGeometry(0.05, arm, 0.04).translate(0, arm / 2, 0).rotateZ(turn));
+    for (const [along, length] of [[0.2, 0.13], [0.31, 0.08]]) {
+      for (const side of [-1, 1]) {
+        parts.push(
+          new THREE.BoxGeometry(0.035, length, 0.035)
+            .translate(0, length / 2, 0)
+            .rotateZ((side * Math.PI) / 3)
+            .translate(0, along, 0)
+            .rotateZ(turn)
+        );
+      }
+    }
+  }
+  return mergeGeometries(parts)!;
+};
+
+// Robe, wings, head and halo, seen from the front
+const createAngel = () => {
+  const robe = new THREE.Shape();
+  robe.moveTo(0, 0.14);
+  robe.lineTo(-0.08, 0.1);
+  robe.quadraticCurveTo(-0.12, -0.1, -0.24, -0.42);
+  robe.lineTo(0.24, -0.42);
+  robe.quadraticCurveTo(0.12, -0.1, 0.08, 0.1);
+  robe.closePath();
+
+  const wing = (side: number) => {
+    const shape = new THREE.Shape();
+    shape.moveTo(side * 0.05, 0.06);
+    shape.bezierCurveTo(side * 0.25, 0.36, side * 0.46, 0.24, side * 0.42, -0.04);
+    shape.bezierCurveTo(side * 0.32, -0.02, side * 0.22, -0.16, side * 0.08, -0.1);
+    shape.closePath();
+    return shape;
+  };
+
+  const head = new THREE.Shape();
+  head.absarc(0, 0.22, 0.08, 0, Math.PI * 2, false);
+
+  const halo = new THREE.Shape();
+  halo.absellipse(0, 0.36, 0.13, 0.04, 0, Math.PI * 2, false, 0);
+  const hole = new THREE.Path();
+  hole.absellipse(0, 0.36, 0.09, 0.018, 0, Math.PI * 2, true, 0);
+  halo.holes.push(hole);
+
+  return new THREE.ExtrudeGeometry([robe, wing(-1), wing(1), head, halo], { steps: 1, depth: 0.06, curveSegments: 16, ...BEVEL });
+};
+
+// Any SVG path, extruded and bevelled in proportion to its size
+const createFromPath = (path: string) => {
+  const svg = new SVGLoader().parse(`<svg xmlns="http://www.w3.org/2000/svg"><path d="${path}"/></svg>`);
+  const shapes = svg.paths.flatMap((p) => SVGLoader.createShapes(p));
+  const bounds = new THREE.Box2().setFromPoints(shapes.flatMap((shape) => shape.getPoints()));
+  const size = Math.max(bounds.max.x - bounds.min.x, bounds.max.y - bounds.min.y);
+  if (!shapes.length || !(size > 0)) throw new Error('path has no area');
+
+  const geometry = new THREE.ExtrudeGeometry(shapes, {
+    steps: 1,
+    depth: size * 0.1,
+    curveSegments: 12,
+    bevelEnabled: true,
+    bevelThickness: size * 0.03,
+    bevelSize: size * 0.03,
+    bevelSegments: 2,
+  });
+  // SVG's y runs down the page; turning it over the x axis stands it upright without mirroring it
+  return geometry.rotateX(Math.PI).scale(TOPPER_HEIGHT / size, TOPPER_HEIGHT / size, TOPPER_HEIGHT / size);
+};
+
+export type TopperShape = Pick<TopperSettings, 'topper' | 'points' | 'innerRatio' | 'path'>;
+
+export const createTopperGeometry = (settings: TopperShape): THREE.BufferGeometry => {
+  switch (settings.topper) {
+    case 'moravian':
+      return settle(createMoravian());
+    case 'snowflake':
+      return settle(createSnowflake());
+    case 'angel':
+      return settle(createAngel());
+    case 'svg':
+      try {
+        return settle(createFromPath(settings.path));
+      } catch (err) {
+        console.warn('[topper] Could not use the SVG path, falling back to the star:', err instanceof Error ? err.message : err);
+      }
+  }
+  return settle(createStar(settings.points, settings.innerRatio));
+};
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { FormationId } from '../types';
+import { isAssembled } from './formations';
+
+// One clock for every change of formation. The controller owns a linear
+// timeline (0 = just retargeted, 1 = settled); each layer reads its own window
+// of it through an easing curve, so the choreography lives in one table
+// instead of emerging from a handful of unrelated damping constants.
+
+export type TransitionLayer = 'foliage' | 'garland' | 'ornaments' | 'gifts' | 'star' | 'snow' | 'sparkles';
+
+const LAYERS: TransitionLayer[] = ['foliage', 'garland', 'ornaments', 'gifts', 'star', 'snow', 'sparkles'];
+
+export type Easing = (x: number) => number;
+
+export const linear: Easing = (x) => x;
+export const easeInOutCubic: Easing = (x) => (x < 0.5 ? 4 * x * x * x : 1 - Math.pow(-2 * x + 2, 3) / 2);
+export const easeOutCubic: Easing = (x) => 1 - Math.pow(1 - x, 3);
+
+export interface LayerTiming {
+  start: number; // Fraction of the timeline where the layer starts moving
+  end: number; // ...and where it settles
+  ease: Easing;
+}
+
+// Needles lead, the garland traces after them, ornaments and gifts drop in,
+// and the star lands last. Sparkles fade early, snow only once the shape reads.
+export const LAYER_TIMINGS: Record<TransitionLayer, LayerTiming> = {
+  foliage: { start: 0, end: 0.75, ease: easeInOutCubic },
+  garland: { start: 0.08, end: 0.85, ease: easeInOutCubic },
+  ornaments: { start: 0.12, end: 0.9, ease: easeOutCubic },
+  gifts: { start: 0.18, end: 0.95, ease: easeOutCubic },
+  star: { start: 0.4, end: 1, ease: easeInOutCubic },
+  snow: { start: 0.55, end: 1, ease: linear },
+  sparkles: { start: 0, end: 0.5, ease: linear },
+};
+
+// Seconds for the whole timeline at normal speed
+export const TRANSITION_DURATION = 3.5;
+
+export interface TransitionEvents {
+  onAssembleStart?: (formation: FormationId) => void; // Heading for any shape
+  onAssembled?: (formation: FormationId) => void;
+  onScatterStart?: () => void;
+  onScattered?: () => void;
+  onProgress?: (progress: number) => void; // Every tick or seek while not settled
+  onPauseChange?: (paused: boolean) => void;
+}
+
+const windowed = (progress: number, { start, end, ease }: LayerTiming) =>
+  ease(THREE.MathUtils.clamp((progress - start) / (end - start), 0, 1));
+
+export class TransitionController {
+  formation: FormationId;
+  progress = 1;
+  paused = false;
+  duration = TRANSITION_DURATION;
+
+  // Each layer's assembled level when the current transition began, so an
+  // interrupted transition carries on from wherever the layer was
+  private fromAssembled: Record<TransitionLayer, number>;
+  private toAssembled: number;
+  private listeners = new Set<TransitionEvents>();
+
+  constructor(formation: FormationId) {
+    this.formation = formation;
+    this.toAssembled = isAssembled(formation) ? 1 : 0;
+    this.fromAssembled = Object.fromEntries(LAYERS.map((l) => [l, this.toAssembled])) as Record<TransitionLayer, number>;
+  }
+
+  get settled() {
+    return this.progress >= 1;
+  }
+
+  // Eased 0..1 progress of one layer within the current transition
+  layer(layer: TransitionLayer): number {
+    return windowed(this.progress, LAYER_TIMINGS[layer]);
+  }
+
+  // How far a layer is into holding a shape (sway, alpha, snow and the like)
+  assembled(layer: TransitionLayer): number {
+    const from = this.fromAssembled[layer];
+    return from + (this.toAssembled - from) * this.layer(layer);
+  }
+
+  // Layers call this whenever their targets move. The first call in a batch
+  // restarts the timeline; the rest of the batch finds it already at zero.
+  retarget(formation: FormationId) {
+    if (formation === this.formation && this.progress === 0) return;
+
+    for (const layer of LAYERS) this.fromAssembled[layer] = this.assembled(layer);
+    this.formation = formation;
+    this.toAssembled = isAssembled(formation) ? 1 : 0;
+    this.progress = 0;
+    // A new transition always plays, even if the last one was paused mid-scrub
+    this.setPaused(false);
+
+    this.emit((l) => (this.toAssembled ? l.onAssembleStart?.(formation) : l.onScatterStart?.()));
+    this.emit((l) => l.onProgress?.(0));
+  }
+
+  tick(delta: number) {
+    if (this.paused || this.settled) return;
+    this.setProgress(this.progress + delta / this.duration);
+  }
+
+  // Scrubbing; keeps whatever paused state the caller chose
+  seek(progress: number) {
+    this.setProgress(progress);
+  }
+
+  setPaused(paused: boolean) {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    this.emit((l) => l.onPauseChange?.(paused));
+  }
+
+  subscribe(listener: TransitionEvents): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setProgress(value: number) {
+    const wasSettled = this.settled;
+    this.progress = THREE.MathUtils.clamp(value, 0, 1);
+    this.emit((l) => l.onProgress?.(this.progress));
+
+    if (!wasSettled && this.settled) {
+      const formation = this.formation;
+      this.emit((l) => (this.toAssembled ? l.onAssembled?.(formation) : l.onScattered?.()));
+    }
+  }
+
+  private emit(call: (listener: TransitionEvents) => void) {
+    this.listeners.forEach(call);
+  }
+}
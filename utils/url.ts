@@ -0,0 +1,30 @@
+// Small helpers around the page URL: the query string, used for shareable
+// settings, and object URLs for files the page hands out.
+
+export const getUrlParam = (name: string): string | null => {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get(name);
+};
+
+// Updates the address bar in place (no reload, no new history entry)
+export const setUrlParam = (name: string, value: string | null) => {
+  if (typeof window === 'undefined') return;
+  const url = new URL(window.location.href);
+  if (value === null) {
+    url.searchParams.delete(name);
+  } else {
+    url.searchParams.set(name, value);
+  }
+  window.history.replaceState(null, '', url.toString());
+};
+
+// Saves a generated file through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked once the download has had a chance to start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { WindPresetId, WindSettings } from '../types';
+
+// One wind for the whole scene. The field holds a steady flow (direction and
+// speed, swelling with gusts) plus a turbulent swirl that varies through
+// space and time. It reaches the layers as shared uniforms and one GLSL
+// function; the snow, simulated on the CPU, and ornament picking read the
+// same function through its mirror here.
+//
+// Free things (snow, sparkles) are carried by the wind; things held in place
+// (needle tips, hanging ornaments) lean into it and quiver.
+
+// Calmest first
+export const WIND_PRESETS: WindPresetId[] = ['calm', 'breeze', 'gusty', 'storm', 'blizzard'];
+
+interface WindPreset {
+  speed: number; // Steady flow, units per second
+  gust: number; // How far gusts swell the flow, as a multiple of it
+  turbulence: number; // Strength of the swirl, units per second
+}
+
+const PRESETS: Record<WindPresetId, WindPreset> = {
+  calm: { speed: 0.2, gust: 0.5, turbulence: 0.4 },
+  breeze: { speed: 1, gust: 0.6, turbulence: 0.8 },
+  gusty: { speed: 2, gust: 1.5, turbulence: 1.2 },
+  storm: { speed: 4, gust: 1, turbulence: 2 },
+  blizzard: { speed: 7, gust: 0.8, turbulence: 3 },
+};
+
+// Seconds a preset change eases over, so the weather turns rather than snaps
+const WIND_EASE = 2;
+
+export interface WindUniforms {
+  uWind: { value: THREE.Vector3 }; // Steady flow with the current gust
+  uWindTurbulence: { value: number };
+  uWindTime: { value: number }; // Clock for the swirl
+  uWindDrift: { value: THREE.Vector3 }; // How far the flow has carried things so far
+}
+
+export const windShader = `
+  uniform vec3 uWind;
+  uniform float uWindTurbulence;
+  uniform float uWindTime;
+  uniform vec3 uWindDrift;
+
+  // Swirl at a point, each component in -1..1
+  vec3 windSwirl(vec3 p) {
+    return vec3(
+      sin(uWindTime * 1.3 + p.y * 0.7 + p.z * 0.3),
+      0.5 * sin(uWindTime * 1.1 + p.x * 0.5 + p.z * 0.4),
+      cos(uWindTime * 1.7 + p.y * 0.6 + p.x * 0.4)
+    );
+  }
+
+  // Air velocity at a point
+  vec3 windAt(vec3 p) {
+    return uWind + windSwirl(p) * uWindTurbulence;
+  }
+`;
+
+// Mirror of windSwirl() in the shader
+export const windSwirl = (wind: WindUniforms, x: number, y: number, z: number, out: THREE.Vector3): THREE.Vector3 => {
+  const t = wind.uWindTime.value;
+  return out.set(
+    Math.sin(t * 1.3 + y * 0.7 + z * 0.3),
+    0.5 * Math.sin(t * 1.1 + x * 0.5 + z * 0.4),
+    Math.cos(t * 1.7 + y * 0.6 + x * 0.4)
+  );
+};
+
+// Mirror of windAt() in the shader
+export const windAt = (wind: WindUniforms, x: number, y: number, z: number, out: THREE.Vector3): THREE.Vector3 =>
+  windSwirl(wind, x, y, z, out).multiplyScalar(wind.uWindTurbulence.value).add(wind.uWind.value);
+
+// Gust envelope, 0..1: two slow, unrelated swells that only sometimes line up
+const gustAt = (time: number) => {
+  const swell = 0.6 * Math.sin(time * 0.9) + 0.4 * Math.sin(time * 2.3 + 1.3);
+  return Math.max(0, swell) ** 2;
+};
+
+export class WindField {
+  readonly uniforms: WindUniforms = {
+    uWind: { value: new THREE.Vector3() },
+    uWindTurbulence: { value: 0 },
+    uWindTime: { value: 0 },
+    uWindDrift: { value: new THREE.Vector3() },
+  };
+
+  private direction = new THREE.Vector3(1, 0, 0);
+  private current: WindPreset = { ...PRESETS.calm };
+  private target: WindPreset = PRESETS.calm;
+  private time = 0;
+
+  configure(settings: WindSettings) {
+    this.target = PRESETS[settings.preset];
+    const angle = THREE.MathUtils.degToRad(settings.direction);
+    // 0 blows left to right across the opening view, 90 towards it
+    this.direction.set(Math.cos(angle), 0, Math.sin(angle));
+  }
+
+  tick(delta: number) {
+    this.time += delta;
+    const ease = Math.min(1, delta / WIND_EASE);
+    this.current.speed += (this.target.speed - this.current.speed) * ease;
+    this.current.gust += (this.target.gust - this.current.gust) * ease;
+    this.current.turbulence += (this.target.turbulence - this.current.turbulence) * ease;
+
+    const speed = this.current.speed * (1 + this.current.gust * gustAt(this.time));
+    this.uniforms.uWind.value.copy(this.direction).multiplyScalar(speed);
+    this.uniforms.uWindTurbulence.value = this.current.turbulence * (1 + 0.5 * this.current.gust * gustAt(this.time));
+    // The swirl churns faster in stronger wind
+    this.uniforms.uWindTime.value += delta * (0.5 + 0.25 * this.current.speed);
+    this.uniforms.uWindDrift.value.addScaledVector(this.uniforms.uWind.value, delta);
+  }
+}